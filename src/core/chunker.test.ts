@@ -0,0 +1,96 @@
+import { chunkCode, chunkMarkdown, chunkText, estimateTokens } from './chunker.js';
+
+describe('chunkMarkdown', () => {
+  it('splits on headings and tracks the heading path', () => {
+    const content = [
+      '# Guide',
+      'Intro',
+      '## Setup',
+      'Install it',
+      '### Linux',
+      'apt install',
+      '## Usage',
+      'Run it',
+    ].join('\n');
+
+    const chunks = chunkMarkdown(content);
+
+    expect(chunks.map(chunk => chunk.hierarchy)).toEqual([
+      ['Guide'],
+      ['Guide', 'Setup'],
+      ['Guide', 'Setup', 'Linux'],
+      ['Guide', 'Usage'],
+    ]);
+    expect(chunks[2]).toMatchObject({ content: '### Linux\napt install', lineStart: 5, lineEnd: 6 });
+  });
+
+  it('ignores headings inside fenced code blocks', () => {
+    const content = ['# Title', '```sh', '# not a heading', '```', 'text'].join('\n');
+    const chunks = chunkMarkdown(content);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ lineStart: 1, lineEnd: 5, hierarchy: ['Title'] });
+  });
+});
+
+describe('chunkText', () => {
+  it('returns no chunks for blank content', () => {
+    expect(chunkText('\n  \n')).toEqual([]);
+  });
+
+  it('windows long text with overlapping line ranges', () => {
+    const lines = Array.from({ length: 40 }, (_, i) => `line ${i} `.padEnd(40, 'x'));
+    const chunks = chunkText(lines.join('\n'), { maxTokens: 100, overlapTokens: 20 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].lineStart).toBe(1);
+    expect(chunks[chunks.length - 1].lineEnd).toBe(40);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].lineStart).toBeLessThanOrEqual(chunks[i - 1].lineEnd);
+      expect(chunks[i].lineStart).toBeGreaterThan(chunks[i - 1].lineStart);
+    }
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk.content)).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('keeps an oversized line as a chunk of its own', () => {
+    const chunks = chunkText(['short', 'y'.repeat(1000), 'short'].join('\n'), { maxTokens: 50, overlapTokens: 0 });
+    expect(chunks.map(chunk => [chunk.lineStart, chunk.lineEnd])).toEqual([[1, 1], [2, 2], [3, 3]]);
+  });
+
+  it('offsets line numbers by the first line', () => {
+    expect(chunkText('a\nb', {}, 10)[0]).toMatchObject({ lineStart: 10, lineEnd: 11 });
+  });
+});
+
+describe('chunkCode', () => {
+  it('leaves only the first line of nested declarations in the outline', () => {
+    const content = [
+      'class Store {',
+      '  load() {',
+      '    return 1;',
+      '  }',
+      '  save() {',
+      '    return 2;',
+      '  }',
+      '}',
+    ].join('\n');
+
+    const chunks = chunkCode(content, 10, [
+      { lineStart: 11, lineEnd: 13 },
+      { lineStart: 14, lineEnd: 16 },
+    ]);
+
+    expect(chunks).toEqual([{
+      content: 'class Store {\n  load() {\n  save() {\n}',
+      lineStart: 10,
+      lineEnd: 17,
+    }]);
+  });
+
+  it('ignores declarations outside the node', () => {
+    const chunks = chunkCode('a\nb', 1, [{ lineStart: 5, lineEnd: 8 }]);
+    expect(chunks[0].content).toBe('a\nb');
+  });
+});
@@ -0,0 +1,147 @@
+export interface Chunk {
+  content: string;
+  // 1-based, inclusive line range within the original document
+  lineStart: number;
+  lineEnd: number;
+  hierarchy?: string[];
+}
+
+export interface ChunkOptions {
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+const DEFAULT_OPTIONS: ChunkOptions = {
+  maxTokens: 512,
+  overlapTokens: 64,
+};
+
+// Rough token count (about four characters per token for English text and code)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function chunkDocument(content: string, markdown: boolean, options: Partial<ChunkOptions> = {}): Chunk[] {
+  return markdown ? chunkMarkdown(content, options) : chunkText(content, options);
+}
+
+// Split Markdown into heading sections, tracking the heading path of each section
+export function chunkMarkdown(content: string, options: Partial<ChunkOptions> = {}): Chunk[] {
+  const lines = content.split('\n');
+  const chunks: Chunk[] = [];
+  const headings: Array<{ level: number; title: string }> = [];
+  let sectionStart = 0;
+  let inFence = false;
+
+  const flush = (end: number) => {
+    const section = lines.slice(sectionStart, end);
+    if (section.some(line => line.trim())) {
+      const hierarchy = headings.map(heading => heading.title);
+      chunks.push(...chunkLines(section, sectionStart + 1, { ...DEFAULT_OPTIONS, ...options }, hierarchy));
+    }
+  };
+
+  lines.forEach((line, index) => {
+    // Headings inside fenced code blocks are code, not structure
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = !inFence && /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (!match) return;
+
+    flush(index);
+    sectionStart = index;
+
+    const level = match[1].length;
+    while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+      headings.pop();
+    }
+    headings.push({ level, title: match[2] });
+  });
+  flush(lines.length);
+
+  return chunks;
+}
+
+// Split code into the parts not covered by nested declarations, which are chunked on their own.
+// Each excluded declaration leaves its first line behind so the remaining text reads as an outline.
+export function chunkCode(
+  content: string,
+  firstLine: number,
+  declarations: Array<{ lineStart: number; lineEnd: number }>,
+  options: Partial<ChunkOptions> = {}
+): Chunk[] {
+  const lines = content.split('\n');
+  const resolved = { ...DEFAULT_OPTIONS, ...options };
+  const lastLine = firstLine + lines.length - 1;
+  // Declarations merged in from elsewhere (e.g. Rust impl blocks) can lie outside this node's lines
+  const sorted = declarations
+    .filter(declaration => declaration.lineStart >= firstLine && declaration.lineEnd <= lastLine)
+    .sort((a, b) => a.lineStart - b.lineStart);
+  const kept: Array<{ line: string; number: number }> = [];
+  let cursor = firstLine;
+
+  for (const declaration of sorted) {
+    if (declaration.lineStart < cursor) continue;
+    for (let number = cursor; number < declaration.lineStart; number++) {
+      kept.push({ line: lines[number - firstLine], number });
+    }
+    kept.push({ line: lines[declaration.lineStart - firstLine], number: declaration.lineStart });
+    cursor = declaration.lineEnd + 1;
+  }
+  for (let number = cursor; number <= lastLine; number++) {
+    kept.push({ line: lines[number - firstLine], number });
+  }
+
+  if (!kept.some(entry => entry.line.trim())) return [];
+
+  // Window over the kept lines; line numbers come from the first and last kept line of each window
+  return windowLines(kept.map(entry => entry.line), resolved).map(({ start, end }) => ({
+    content: kept.slice(start, end).map(entry => entry.line).join('\n'),
+    lineStart: kept[start].number,
+    lineEnd: kept[end - 1].number,
+  }));
+}
+
+// Overlapping token windows over whole lines
+export function chunkText(content: string, options: Partial<ChunkOptions> = {}, firstLine: number = 1): Chunk[] {
+  const lines = content.split('\n');
+  if (!lines.some(line => line.trim())) return [];
+  return chunkLines(lines, firstLine, { ...DEFAULT_OPTIONS, ...options });
+}
+
+function chunkLines(lines: string[], firstLine: number, options: ChunkOptions, hierarchy?: string[]): Chunk[] {
+  return windowLines(lines, options).map(({ start, end }) => ({
+    content: lines.slice(start, end).join('\n'),
+    lineStart: firstLine + start,
+    lineEnd: firstLine + end - 1,
+    hierarchy,
+  }));
+}
+
+// [start, end) line windows of at most maxTokens, each starting overlapTokens before the previous end
+function windowLines(lines: string[], options: ChunkOptions): Array<{ start: number; end: number }> {
+  const tokens = lines.map(line => estimateTokens(line) + 1);
+  const windows: Array<{ start: number; end: number }> = [];
+  let start = 0;
+
+  while (start < lines.length) {
+    let end = start;
+    let size = 0;
+    // A single oversized line still forms a window of its own
+    while (end < lines.length && (end === start || size + tokens[end] <= options.maxTokens)) {
+      size += tokens[end];
+      end++;
+    }
+    windows.push({ start, end });
+    if (end >= lines.length) break;
+
+    let next = end;
+    let overlap = 0;
+    while (next > start + 1 && overlap + tokens[next - 1] <= options.overlapTokens) {
+      next--;
+      overlap += tokens[next];
+    }
+    start = next;
+  }
+
+  return windows;
+}
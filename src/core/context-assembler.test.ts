@@ -0,0 +1,144 @@
+import { jest } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ContextAssembler } from './context-assembler.js';
+import { GuidanceManager } from './guidance-manager.js';
+import { HierarchyManager } from './hierarchy-manager.js';
+import { HybridSearch } from './hybrid-search.js';
+import { LocalEmbeddingProvider } from './embedding-provider.js';
+import { VectorIndex } from './vector-index.js';
+import { ContextItem } from '../types/index.js';
+
+describe('ContextAssembler', () => {
+  let directory: string;
+  let manager: GuidanceManager;
+  let hierarchies: HierarchyManager;
+  let search: HybridSearch;
+  let assembler: ContextAssembler;
+  let guidanceId: string;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    directory = mkdtempSync(path.join(tmpdir(), 'context-assembler-'));
+    const codebase = path.join(directory, 'shop');
+    mkdirSync(path.join(codebase, 'billing'), { recursive: true });
+    const lines = Array.from({ length: 40 }, (_, i) => `    total += this.lines[${i}] * invoiceRate(${i});`).join('\n');
+    writeFileSync(path.join(codebase, 'billing', 'invoice.ts'), [
+      'export class Invoice {',
+      '  lines: number[] = [];',
+      '  invoiceTotal(): number {',
+      '    let total = 0;',
+      lines,
+      '    return total;',
+      '  }',
+      '}',
+      'export function invoiceRate(index: number): number {',
+      '  return index % 2 === 0 ? 1 : 2;',
+      '}',
+      '',
+    ].join('\n'));
+    writeFileSync(path.join(codebase, 'billing', 'refund.ts'),
+      'export function refundInvoice(invoiceId: string): string {\n  return `refund ${invoiceId}`;\n}\n');
+
+    manager = new GuidanceManager(path.join(directory, 'guidance'));
+    await manager.initialize();
+    guidanceId = (await manager.createGuidance({
+      title: 'Invoices', objective: 'Fix invoice totals', technicalConstraints: ['No floats'], completionCriteria: ['Totals match'],
+    })).id;
+
+    hierarchies = new HierarchyManager();
+    search = new HybridSearch(
+      path.join(directory, 'search.db'), hierarchies, new LocalEmbeddingProvider(64), 'float32',
+      new VectorIndex(path.join(directory, 'vector-index'), null)
+    );
+    await search.indexGuidance(guidanceId, codebase);
+    assembler = new ContextAssembler(manager, search, hierarchies);
+  });
+
+  afterEach(() => {
+    search.close();
+    jest.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const tokensOf = (items: ContextItem[]) => items.reduce((sum, item) => sum + item.tokens, 0);
+  const isOverview = (item: ContextItem) => item.level === 'directory' || item.level === 'file';
+
+  it('gives summaries and outlines before bodies and skips members of included declarations', async () => {
+    const context = await assembler.assemble({ guidanceId, query: 'invoice total' });
+
+    expect(context.tokenBudget).toBe(4000);
+    expect(context.omitted).toBe(0);
+    expect(context.items.slice(0, 3).map(item => [item.level, item.nodeId])).toEqual([
+      ['directory', 'shop/billing'],
+      ['file', 'shop/billing/invoice.ts'],
+      ['file', 'shop/billing/refund.ts'],
+    ]);
+    expect(context.items.slice(3).every(item => !isOverview(item))).toBe(true);
+    expect(context.items.map(item => item.nodeId)).toContain('shop/billing/invoice.ts#Invoice');
+    expect(context.items.some(item => item.nodeId?.startsWith('shop/billing/invoice.ts#Invoice.'))).toBe(false);
+    expect(context.text).toMatch(/^# Invoices\n\n## Objective\nFix invoice totals/);
+    expect(context.text).toContain('- [pending] Totals match (c1)');
+  });
+
+  it('caps the overview and truncates the body that no longer fits', async () => {
+    const tokenBudget = 400;
+    const context = await assembler.assemble({ guidanceId, query: 'invoice total', tokenBudget });
+    const overview = context.items.filter(isOverview);
+    // Whatever tokensUsed holds beyond the items is the guidance and the section overhead
+    const afterGuidance = tokenBudget - (context.tokensUsed - tokensOf(context.items));
+
+    expect(context.tokensUsed).toBeLessThanOrEqual(tokenBudget);
+    expect(tokensOf(overview)).toBeLessThanOrEqual(Math.floor(afterGuidance * 0.3));
+    expect(context.omitted).toBeGreaterThan(0);
+
+    const invoice = context.items.find(item => item.nodeId === 'shop/billing/invoice.ts#Invoice')!;
+    expect(invoice.truncated).toBe(true);
+    expect(invoice.content).toMatch(/\n…$/);
+    expect(context.items.indexOf(invoice)).toBe(overview.length);
+  });
+
+  it('puts linked nodes first, whatever the search ranks highest', async () => {
+    const context = await assembler.assemble({
+      guidanceId, query: 'invoice total', tokenBudget: 150, nodeIds: ['shop/billing/refund.ts#refundInvoice', 'shop/missing.ts'],
+    });
+
+    expect(context.items[0]).toMatchObject({ level: 'element', nodeId: 'shop/billing/refund.ts#refundInvoice' });
+    expect(context.items[0].truncated).toBeUndefined();
+    expect(context.items.filter(item => item.nodeId === 'shop/billing/refund.ts#refundInvoice')).toHaveLength(1);
+    expect(context.tokensUsed).toBeLessThanOrEqual(150);
+    expect(console.error).toHaveBeenCalledWith('Linked node not found: shop/missing.ts');
+  });
+
+  it('omits a body whose heading and citation leave too little of the budget for its content', async () => {
+    const nested = path.join(directory, 'shop', ...Array.from({ length: 8 }, (_, i) => `deeply-nested-billing-module-${i}`));
+    mkdirSync(nested, { recursive: true });
+    writeFileSync(path.join(nested, 'invoice-adjustments.ts'),
+      `export function adjustInvoiceTotal(total: number): number {\n${'  total = total * 1;\n'.repeat(40)}  return total;\n}\n`);
+    await search.indexGuidance(guidanceId, path.join(directory, 'shop'));
+    const nodeId = hierarchies.get(guidanceId).getAllNodes().find(node => node.name === 'adjustInvoiceTotal')!.id;
+
+    const tokenBudget = 200;
+    const context = await assembler.assemble({ guidanceId, query: 'adjust invoice total', tokenBudget, nodeIds: [nodeId] });
+
+    expect(context.items.map(item => item.nodeId)).not.toContain(nodeId);
+    expect(context.omitted).toBeGreaterThan(0);
+    expect(context.tokensUsed).toBeLessThanOrEqual(tokenBudget);
+    expect(tokensOf(context.items)).toBeLessThanOrEqual(tokenBudget);
+  });
+
+  it('gives only the guidance for a task unrelated to the codebase', async () => {
+    const context = await assembler.assemble({ guidanceId, query: 'zq' });
+
+    expect(context.items).toEqual([]);
+    expect(context.omitted).toBe(0);
+    expect(context.text).toMatch(/^# Invoices\n/);
+    expect(context.text).not.toContain('## Code');
+    expect(context.text).not.toContain('## File Outlines');
+  });
+
+  it('rejects an unknown guidance', async () => {
+    await expect(assembler.assemble({ guidanceId: 'missing', query: 'invoice' })).rejects.toThrow('Guidance with ID missing not found');
+  });
+});
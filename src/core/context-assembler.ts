@@ -0,0 +1,315 @@
+import { ContextItem, GuidanceSummary, HierarchicalNode, SearchResult, TaskContext, TaskContextParams } from '../types/index.js';
+import { estimateTokens } from './chunker.js';
+import { GuidanceManager } from './guidance-manager.js';
+import { HierarchicalRAG } from './hierarchical-rag.js';
+import { HierarchyManager } from './hierarchy-manager.js';
+import { HybridSearch } from './hybrid-search.js';
+
+const DEFAULT_TOKEN_BUDGET = 4000;
+
+// Search hits considered for a bundle
+const CANDIDATE_RESULTS = 20;
+
+// Fused score below which a search hit is not worth any of the budget; a hit ranked by a single channel still clears it
+const MIN_RELEVANCE = 0.05;
+
+// Share of the budget left after the guidance that directory summaries and file outlines may take
+const OVERVIEW_SHARE = 0.3;
+
+// Directory summaries are given for directories holding at least this many hit files
+const MIN_DIRECTORY_HITS = 2;
+
+const SECTION_OVERHEAD_TOKENS = 16;
+
+// A body that does not fit is truncated only when at least this much budget is left for its content
+const MIN_TRUNCATED_TOKENS = 64;
+
+// Packs a guidance and the code and documents most relevant to a query into one bundle that fits a token budget.
+// Broad levels (directory summaries, file outlines) come first and are capped, so full bodies of the best hits
+// still get most of the budget.
+export class ContextAssembler {
+  private guidanceManager: GuidanceManager;
+  private hybridSearch: HybridSearch;
+  private hierarchies: HierarchyManager;
+
+  constructor(guidanceManager: GuidanceManager, hybridSearch: HybridSearch, hierarchies: HierarchyManager) {
+    this.guidanceManager = guidanceManager;
+    this.hybridSearch = hybridSearch;
+    this.hierarchies = hierarchies;
+  }
+
+  async assemble(params: TaskContextParams): Promise<TaskContext> {
+    const { guidanceId, query, tokenBudget = DEFAULT_TOKEN_BUDGET, nodeIds = [] } = params;
+
+    // Inherited constraints, rules and criteria apply to the task too
+    const guidance = await this.guidanceManager.resolveGuidance(guidanceId);
+    if (!guidance) {
+      throw new Error(`Guidance with ID ${guidanceId} not found`);
+    }
+
+    const header = truncateToTokens(this.formatGuidance(guidance), tokenBudget);
+    // Section headings and separators of the formatted bundle
+    let remaining = Math.max(0, tokenBudget - estimateTokens(header) - SECTION_OVERHEAD_TOKENS);
+
+    const results = await this.hybridSearch.search({ query, guidanceId, limit: CANDIDATE_RESULTS, threshold: MIN_RELEVANCE });
+    const hierarchy = this.hierarchies.get(guidanceId);
+    const items: ContextItem[] = [];
+    const included = new Set<string>();
+    let omitted = 0;
+
+    // 0. Linked nodes come first, whatever the search found
+    for (const item of this.linkedItems(hierarchy, nodeIds)) {
+      const fitted = fitItem(item, remaining);
+      if (!fitted) {
+        omitted++;
+        continue;
+      }
+
+      items.push(fitted);
+      remaining -= fitted.tokens;
+      included.add(item.nodeId!);
+    }
+
+    // 1. Overview: summaries of directories with several hits, then outlines of the hit files
+    const overview = [...this.directorySummaries(hierarchy, results), ...this.fileOutlines(hierarchy, results)]
+      .filter(item => !included.has(item.nodeId!));
+    const overviewBudget = Math.floor(remaining * OVERVIEW_SHARE);
+    let overviewUsed = 0;
+
+    for (const item of overview) {
+      if (overviewUsed + item.tokens > overviewBudget) {
+        omitted++;
+        continue;
+      }
+      items.push(item);
+      overviewUsed += item.tokens;
+    }
+    remaining -= overviewUsed;
+
+    // 2. Bodies in fused rank order: full declarations, file chunks and document chunks
+    for (const item of this.bodies(hierarchy, results)) {
+      // A declaration that is already included, or whose enclosing declaration is, adds nothing
+      if (item.nodeId && item.level === 'element' && included.has(item.nodeId)) continue;
+      if (item.nodeId && hierarchy.getAncestors(item.nodeId).some(ancestor => isBody(items, ancestor.id))) continue;
+
+      const fitted = fitItem(item, remaining);
+      if (!fitted) {
+        omitted++;
+        continue;
+      }
+
+      items.push(fitted);
+      remaining -= fitted.tokens;
+      if (item.nodeId) included.add(item.nodeId);
+    }
+
+    return {
+      guidanceId,
+      query,
+      tokenBudget,
+      tokensUsed: tokenBudget - remaining,
+      text: this.formatBundle(header, items),
+      items,
+      omitted,
+    };
+  }
+
+  private formatGuidance(guidance: GuidanceSummary): string {
+    const list = (entries: string[]) => entries.length > 0 ? entries.map(entry => `- ${entry}`).join('\n') : '- (none)';
+
+    return `# ${guidance.title}\n\n` +
+      `## Objective\n${guidance.objective}\n\n` +
+      `## Technical Constraints\n${list(guidance.technicalConstraints)}\n\n` +
+      `## Work Rules\n${list(guidance.workRules)}\n\n` +
+      `## Completion Criteria\n${list(guidance.completionCriteria.map(criterion => `[${criterion.status}] ${criterion.description} (${criterion.id})`))}`;
+  }
+
+  private directorySummaries(hierarchy: HierarchicalRAG, results: SearchResult[]): ContextItem[] {
+    const hitsPerDirectory = new Map<string, { directory: HierarchicalNode; files: Set<string>; score: number }>();
+
+    for (const result of results) {
+      const file = this.fileOf(hierarchy, result);
+      const directory = file?.parentId ? hierarchy.getNode(file.parentId) : undefined;
+      if (!file || !directory) continue;
+
+      const entry = hitsPerDirectory.get(directory.id) || { directory, files: new Set(), score: 0 };
+      entry.files.add(file.id);
+      entry.score = Math.max(entry.score, result.score);
+      hitsPerDirectory.set(directory.id, entry);
+    }
+
+    return [...hitsPerDirectory.values()]
+      .filter(entry => entry.files.size >= MIN_DIRECTORY_HITS)
+      .sort((a, b) => b.score - a.score)
+      .map(({ directory, score }) => this.directoryItem(hierarchy, directory, score));
+  }
+
+  private directoryItem(hierarchy: HierarchicalRAG, directory: HierarchicalNode, score: number): ContextItem {
+    const files = hierarchy.getChildren(directory.id).filter(child => child.type === 'file');
+    const subdirectories = hierarchy.getChildren(directory.id).filter(child => child.type === 'directory');
+    const content = [
+      ...(directory.summary ? [directory.summary.split('\n')[0]] : []),
+      ...subdirectories.map(child => `- ${child.name}/ (${child.metadata.size ?? 0} bytes)`),
+      ...files.map(child =>
+        `- ${child.name} (${child.metadata.language || 'unknown'}, ${hierarchy.getDescendants(child.id).length} elements)`
+      ),
+    ].join('\n');
+
+    return this.createItem('directory', directory.id, directory.path, content, score, directory.id);
+  }
+
+  // Top-level declarations of each hit file with their signatures and line ranges
+  private fileOutlines(hierarchy: HierarchicalRAG, results: SearchResult[]): ContextItem[] {
+    const items: ContextItem[] = [];
+    const seen = new Set<string>();
+
+    for (const result of results) {
+      const file = this.fileOf(hierarchy, result);
+      if (!file || seen.has(file.id)) continue;
+      seen.add(file.id);
+
+      const item = this.fileOutline(hierarchy, file, result.score);
+      if (item) items.push(item);
+    }
+
+    return items;
+  }
+
+  private fileOutline(hierarchy: HierarchicalRAG, file: HierarchicalNode, score: number): ContextItem | undefined {
+    const outline = hierarchy.getChildren(file.id).map(element => {
+      const members = hierarchy.getChildren(element.id).map(member => member.name);
+      return `- ${element.metadata.signature || `${element.type} ${element.name}`}` +
+        (element.metadata.lineStart !== undefined ? ` (lines ${element.metadata.lineStart}-${element.metadata.lineEnd})` : '') +
+        (members.length > 0 ? `: ${members.join(', ')}` : '');
+    });
+    if (outline.length === 0 && !file.summary) return undefined;
+
+    // The summary's first line carries the file's leading comment
+    const summary = file.summary ? `${file.summary.split('\n')[0]}\n` : '';
+    return this.createItem('file', file.id, file.path, (summary + outline.join('\n')).trim(), score, file.id);
+  }
+
+  // Directories and files as summaries and outlines, declarations whole
+  private linkedItems(hierarchy: HierarchicalRAG, nodeIds: string[]): ContextItem[] {
+    const items: ContextItem[] = [];
+
+    for (const nodeId of nodeIds) {
+      const node = hierarchy.getNode(nodeId);
+      if (!node) {
+        console.error(`Linked node not found: ${nodeId}`);
+        continue;
+      }
+
+      if (node.type === 'directory') {
+        items.push(this.directoryItem(hierarchy, node, 1));
+      } else if (node.type === 'file') {
+        const item = this.fileOutline(hierarchy, node, 1);
+        if (item) items.push(item);
+      } else if (node.content) {
+        items.push(this.createItem('element', node.id, citationOf(node.path, node.metadata.lineStart, node.metadata.lineEnd), node.content, 1, node.id));
+      }
+    }
+
+    return items;
+  }
+
+  private bodies(hierarchy: HierarchicalRAG, results: SearchResult[]): ContextItem[] {
+    return results.map(result => {
+      const node = result.metadata.nodeId ? hierarchy.getNode(result.metadata.nodeId) : undefined;
+
+      // Declarations are given whole; files and documents by the chunk that matched
+      if (node && node.type !== 'file' && node.type !== 'directory' && node.content) {
+        return this.createItem('element', node.id, citationOf(node.path, node.metadata.lineStart, node.metadata.lineEnd), node.content, result.score, node.id);
+      }
+
+      const source = result.metadata.path || result.metadata.source;
+      const citation = result.metadata.page !== undefined
+        ? `${source} (page ${result.metadata.page})`
+        : citationOf(source, result.metadata.lineStart, result.metadata.lineEnd);
+      return this.createItem(node ? 'chunk' : 'document', node?.id || source, citation, result.content, result.score);
+    });
+  }
+
+  // The file node a search result belongs to, if it is code
+  private fileOf(hierarchy: HierarchicalRAG, result: SearchResult): HierarchicalNode | undefined {
+    const node = result.metadata.nodeId ? hierarchy.getNode(result.metadata.nodeId) : undefined;
+    if (!node || node.type === 'directory') return undefined;
+    if (node.type === 'file') return node;
+    return hierarchy.getAncestors(node.id).reverse().find(ancestor => ancestor.type === 'file');
+  }
+
+  private createItem(
+    level: ContextItem['level'],
+    title: string,
+    citation: string,
+    content: string,
+    score: number,
+    nodeId?: string
+  ): ContextItem {
+    return {
+      level,
+      title,
+      citation,
+      content,
+      score,
+      nodeId,
+      // The heading and code fence of the formatted item count against the budget too
+      tokens: estimateTokens(content) + estimateTokens(`### ${title}\n${citation}\n\`\`\`\n\`\`\``),
+    };
+  }
+
+  private formatBundle(header: string, items: ContextItem[]): string {
+    const sections: Array<{ title: string; levels: Array<ContextItem['level']> }> = [
+      { title: 'Directories', levels: ['directory'] },
+      { title: 'File Outlines', levels: ['file'] },
+      { title: 'Code', levels: ['element', 'chunk'] },
+      { title: 'Documents', levels: ['document'] },
+    ];
+
+    const body = sections
+      .map(section => {
+        const sectionItems = items.filter(item => section.levels.includes(item.level));
+        if (sectionItems.length === 0) return '';
+
+        return `## ${section.title}\n\n` + sectionItems
+          .map(item => {
+            const content = item.level === 'directory' || item.level === 'file' ? item.content : '```\n' + item.content + '\n```';
+            return `### ${item.title}\n${item.citation}${item.truncated ? ' (truncated)' : ''}\n${content}`;
+          })
+          .join('\n\n');
+      })
+      .filter(Boolean)
+      .join('\n\n');
+
+    return body ? `${header}\n\n${body}` : header;
+  }
+}
+
+function isBody(items: ContextItem[], nodeId: string): boolean {
+  return items.some(item => item.level === 'element' && item.nodeId === nodeId);
+}
+
+// The item whole, its content truncated to what is left after the heading and citation, or undefined
+// when too little of the content would fit
+function fitItem(item: ContextItem, tokens: number): ContextItem | undefined {
+  if (item.tokens <= tokens) return item;
+
+  const overhead = item.tokens - estimateTokens(item.content);
+  if (tokens - overhead < MIN_TRUNCATED_TOKENS) return undefined;
+
+  const content = truncateToTokens(item.content, tokens - overhead);
+  return { ...item, content, tokens: estimateTokens(content) + overhead, truncated: true };
+}
+
+function citationOf(source: string, lineStart?: number, lineEnd?: number): string {
+  return lineStart !== undefined ? `${source}:${lineStart}-${lineEnd ?? lineStart}` : source;
+}
+
+// Cut text at a line boundary (or mid-line for a single long line) so it fits the token estimate
+function truncateToTokens(text: string, tokens: number): string {
+  if (estimateTokens(text) <= tokens) return text;
+
+  const maxLength = Math.max(0, tokens * 4 - 4);
+  const cut = text.lastIndexOf('\n', maxLength);
+  return text.slice(0, cut > maxLength / 2 ? cut : maxLength) + '\n…';
+}
@@ -0,0 +1,42 @@
+import { detectMimeType, htmlToMarkdown, pageOf } from './document-extractor.js';
+
+describe('detectMimeType', () => {
+  const text = Buffer.from('export const answer = 42;\n');
+
+  it('treats source files as text', () => {
+    expect(detectMimeType(text, 'src/answer.ts')).toBe('text/x-typescript');
+    expect(detectMimeType(text, 'src/answer.py')).toBe('text/x-python');
+  });
+
+  it('uses the extension for other files', () => {
+    expect(detectMimeType(Buffer.from('# Notes'), 'notes.md')).toBe('text/markdown');
+    expect(detectMimeType(Buffer.from('{}'), 'data.json')).toBe('application/json');
+  });
+
+  it('sniffs PDF and HTML content regardless of the extension', () => {
+    expect(detectMimeType(Buffer.from('%PDF-1.7'), 'report.bin')).toBe('application/pdf');
+    expect(detectMimeType(Buffer.from('<!DOCTYPE html><html></html>'), 'page.txt')).toBe('text/html');
+  });
+
+  it('treats unknown extensions as text unless they hold NUL bytes', () => {
+    expect(detectMimeType(Buffer.from('plain'), 'README')).toBe('text/plain');
+    expect(detectMimeType(Buffer.from([1, 0, 2]), 'blob')).toBe('application/octet-stream');
+  });
+});
+
+describe('htmlToMarkdown', () => {
+  it('turns headings into Markdown and drops scripts', () => {
+    const markdown = htmlToMarkdown('<h1>Guide</h1><script>track()</script><p>Read <b>this</b>.</p>');
+
+    expect(markdown).toContain('# Guide');
+    expect(markdown).toContain('Read this.');
+    expect(markdown).not.toContain('track()');
+  });
+});
+
+describe('pageOf', () => {
+  it('reads the page number from the heading path', () => {
+    expect(pageOf(['Page 3', 'Intro'])).toBe(3);
+    expect(pageOf(['Intro'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,179 @@
+import { promises as fs } from 'fs';
+import * as cheerio from 'cheerio';
+import mammoth from 'mammoth';
+import mime from 'mime-types';
+import pdfParse from 'pdf-parse/lib/pdf-parse.js';
+import { getLanguageForFile } from './extractors/index.js';
+
+export interface ExtractedDocument {
+  mimeType: string;
+  // Markdown for structured formats (headings become chunk boundaries), plain text otherwise
+  content: string;
+  markdown: boolean;
+  // Whether content lines are the file's own lines, so chunk line ranges point into the file
+  sourceLines: boolean;
+}
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Elements whose text is never part of the document body
+const SKIPPED_HTML = 'script, style, noscript, template, svg, nav, iframe';
+
+const INLINE_HTML = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'i', 'ins',
+  'kbd', 'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var',
+]);
+
+export async function extractDocument(filePath: string): Promise<ExtractedDocument | null> {
+  const buffer = await fs.readFile(filePath);
+  const mimeType = detectMimeType(buffer, filePath);
+
+  switch (mimeType) {
+    case 'application/pdf':
+      return { mimeType, content: await pdfToMarkdown(buffer), markdown: true, sourceLines: false };
+    case DOCX_MIME: {
+      const { value } = await mammoth.convertToHtml({ buffer });
+      return { mimeType, content: htmlToMarkdown(value), markdown: true, sourceLines: false };
+    }
+    case 'text/html':
+    case 'application/xhtml+xml':
+      return { mimeType, content: htmlToMarkdown(buffer.toString('utf-8')), markdown: true, sourceLines: false };
+    case 'text/markdown':
+      return { mimeType, content: buffer.toString('utf-8'), markdown: true, sourceLines: true };
+    case 'application/json':
+      return { mimeType, content: JSON.stringify(JSON.parse(buffer.toString('utf-8')), null, 2), markdown: false, sourceLines: false };
+    default:
+      if (mimeType.startsWith('text/')) {
+        return { mimeType, content: buffer.toString('utf-8'), markdown: false, sourceLines: true };
+      }
+      console.warn(`Unsupported document type: ${mimeType} (${filePath})`);
+      return null;
+  }
+}
+
+// Content sniffing first, so misnamed or extensionless files are still recognised; the extension decides otherwise.
+// Source files are text whatever mime-types says (it maps .ts to video/mp2t).
+export function detectMimeType(buffer: Buffer, filePath: string): string {
+  const language = getLanguageForFile(filePath);
+  const byExtension = (language ? `text/x-${language}` : mime.lookup(filePath)) || undefined;
+
+  if (buffer.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'application/pdf';
+  }
+  // DOCX is a ZIP container; other ZIP-based formats keep their own type
+  if (buffer.subarray(0, 4).toString('latin1') === 'PK\x03\x04') {
+    return byExtension && byExtension !== 'application/zip' ? byExtension : DOCX_MIME;
+  }
+
+  const head = buffer.subarray(0, 512).toString('utf-8').replace(/^\uFEFF/, '').trimStart().toLowerCase();
+  if (head.startsWith('<!doctype html') || head.startsWith('<html')) {
+    return 'text/html';
+  }
+
+  if (byExtension) return byExtension;
+  // Unknown extension: treat it as text unless it contains NUL bytes
+  return buffer.subarray(0, 8000).includes(0) ? 'application/octet-stream' : 'text/plain';
+}
+
+// One "# Page N" section per page so chunks keep their page number in the heading path
+async function pdfToMarkdown(buffer: Buffer): Promise<string> {
+  const pages: string[] = [];
+
+  await pdfParse(buffer, {
+    pagerender: async pageData => {
+      const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      let lastY: number | undefined;
+      let text = '';
+
+      // Items on the same baseline belong to one line
+      for (const item of textContent.items) {
+        const y = item.transform[5];
+        text += lastY === undefined || lastY === y ? item.str : '\n' + item.str;
+        lastY = y;
+      }
+
+      pages[pageData.pageIndex] = text;
+      return text;
+    },
+  });
+
+  return pages
+    .map((text, index) => `# Page ${index + 1}\n\n${escapeHeadings(text || '').trim()}`)
+    .join('\n\n');
+}
+
+// Page number of a PDF chunk, read back from its "Page N" section heading
+export function pageOf(hierarchy?: string[]): number | undefined {
+  const match = hierarchy?.length ? /^Page (\d+)$/.exec(hierarchy[0]) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+export function htmlToMarkdown(html: string): string {
+  const $ = cheerio.load(html);
+  $(SKIPPED_HTML).remove();
+
+  const blocks: string[] = [];
+  const text = (element: any) => $(element).text().replace(/\s+/g, ' ').trim();
+
+  const visit = (element: any) => {
+    const tag = element.tagName?.toLowerCase();
+    const heading = tag ? /^h([1-6])$/.exec(tag) : null;
+
+    if (heading) {
+      const title = text(element);
+      if (title) blocks.push(`${'#'.repeat(Number(heading[1]))} ${title}`);
+    } else if (tag === 'pre') {
+      blocks.push('```\n' + $(element).text().replace(/\n$/, '') + '\n```');
+    } else if (tag === 'li') {
+      const item = text(element);
+      if (item) blocks.push(`- ${escapeHeadings(item)}`);
+    } else if (tag === 'tr') {
+      const cells = $(element).children('th, td').toArray().map(cell => text(cell));
+      if (cells.some(cell => cell)) blocks.push(`| ${cells.join(' | ')} |`);
+    } else if (tag === 'p' || tag === 'blockquote' || tag === 'dt' || tag === 'dd' || tag === 'caption') {
+      const paragraph = text(element);
+      if (paragraph) blocks.push(escapeHeadings(paragraph));
+    } else {
+      // Containers: descend, collecting runs of loose text and inline elements into paragraphs
+      let run = '';
+      const flushRun = () => {
+        const paragraph = run.replace(/\s+/g, ' ').trim();
+        if (paragraph) blocks.push(escapeHeadings(paragraph));
+        run = '';
+      };
+
+      for (const child of $(element).contents().toArray()) {
+        if (child.type === 'text') {
+          run += (child as any).data;
+        } else if (child.type === 'tag' && INLINE_HTML.has(child.tagName.toLowerCase())) {
+          run += $(child).text();
+        } else if (child.type === 'tag') {
+          flushRun();
+          visit(child);
+        }
+      }
+      flushRun();
+    }
+  };
+
+  const root = $('body').get(0) || $.root().get(0);
+  if (root) visit(root);
+
+  // Table rows and list items are kept on consecutive lines
+  return blocks
+    .reduce((output, block, index) => {
+      const previous = blocks[index - 1];
+      const joined = previous !== undefined && isRowLike(previous) && isRowLike(block) && previous[0] === block[0];
+      return output + (index === 0 ? '' : joined ? '\n' : '\n\n') + block;
+    }, '')
+    .trim();
+}
+
+function isRowLike(block: string): boolean {
+  return block.startsWith('- ') || block.startsWith('| ');
+}
+
+// Body text starting with '#' must not be read back as a heading
+function escapeHeadings(text: string): string {
+  return text.replace(/^(\s*)#/gm, '$1\\#');
+}
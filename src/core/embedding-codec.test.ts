@@ -0,0 +1,40 @@
+import { decodeEmbedding, embeddingEncodingFromEnv, encodeEmbedding } from './embedding-codec.js';
+
+describe('embedding codec', () => {
+  const embedding = [0.5, -0.25, 0, 1, -1, 0.125, 0.75, -0.5, 0.3];
+
+  it('round-trips float32 embeddings', () => {
+    const buffer = encodeEmbedding(embedding, 'float32');
+    expect(buffer.length).toBe(embedding.length * 4);
+    decodeEmbedding(buffer, 'float32').forEach((value, i) => expect(value).toBeCloseTo(embedding[i], 6));
+  });
+
+  it('round-trips int8 embeddings within one quantization step', () => {
+    const buffer = encodeEmbedding(embedding, 'int8');
+    expect(buffer.length).toBe(4 + embedding.length);
+    decodeEmbedding(buffer, 'int8').forEach((value, i) => expect(Math.abs(value - embedding[i])).toBeLessThanOrEqual(1 / 127));
+  });
+
+  it('encodes an all-zero vector as int8 zeros', () => {
+    expect(decodeEmbedding(encodeEmbedding([0, 0, 0], 'int8'), 'int8')).toEqual([0, 0, 0]);
+  });
+
+  it('keeps only signs in binary embeddings, as a unit vector', () => {
+    const decoded = decodeEmbedding(encodeEmbedding(embedding, 'binary'), 'binary');
+    const magnitude = 1 / Math.sqrt(embedding.length);
+
+    expect(decoded).toHaveLength(embedding.length);
+    decoded.forEach((value, i) => expect(value).toBeCloseTo(embedding[i] > 0 ? magnitude : -magnitude));
+  });
+
+  it('reads legacy JSON embeddings', () => {
+    expect(decodeEmbedding(JSON.stringify([1, 2, 3]), null)).toEqual([1, 2, 3]);
+    expect(decodeEmbedding(Buffer.from('[4,5]'), null)).toEqual([4, 5]);
+  });
+
+  it('selects the encoding from the environment', () => {
+    expect(embeddingEncodingFromEnv({})).toBe('float32');
+    expect(embeddingEncodingFromEnv({ TASK_GUIDE_EMBEDDING_ENCODING: 'int8' })).toBe('int8');
+    expect(() => embeddingEncodingFromEnv({ TASK_GUIDE_EMBEDDING_ENCODING: 'float16' })).toThrow('Unknown embedding encoding');
+  });
+});
@@ -0,0 +1,71 @@
+import { EmbeddingEncoding } from '../types/index.js';
+
+const ENCODINGS: EmbeddingEncoding[] = ['float32', 'int8', 'binary'];
+
+// Storage formats of the vectors.embedding column:
+//   float32 - packed little-endian Float32 values (4 bytes per dimension)
+//   int8    - Float32 scale followed by one signed byte per dimension (value = byte * scale)
+//   binary  - Uint32 dimension followed by one sign bit per dimension; decodes to unit-length ±1/sqrt(d) values
+export function encodeEmbedding(embedding: number[], encoding: EmbeddingEncoding): Buffer {
+  switch (encoding) {
+    case 'float32': {
+      const buffer = Buffer.alloc(embedding.length * 4);
+      embedding.forEach((value, i) => buffer.writeFloatLE(value, i * 4));
+      return buffer;
+    }
+    case 'int8': {
+      const scale = Math.max(0, ...embedding.map(Math.abs)) / 127;
+      const buffer = Buffer.alloc(4 + embedding.length);
+      buffer.writeFloatLE(scale, 0);
+      embedding.forEach((value, i) => buffer.writeInt8(scale > 0 ? Math.round(value / scale) : 0, 4 + i));
+      return buffer;
+    }
+    case 'binary': {
+      const buffer = Buffer.alloc(4 + Math.ceil(embedding.length / 8));
+      buffer.writeUInt32LE(embedding.length, 0);
+      embedding.forEach((value, i) => {
+        if (value > 0) buffer[4 + (i >> 3)] |= 1 << (i & 7);
+      });
+      return buffer;
+    }
+  }
+}
+
+// `encoding` is null for rows written before binary storage, which hold a JSON array
+export function decodeEmbedding(stored: Buffer | string, encoding: EmbeddingEncoding | null): number[] {
+  if (encoding === null || typeof stored === 'string') {
+    return JSON.parse(stored.toString());
+  }
+
+  switch (encoding) {
+    case 'float32': {
+      const embedding = new Array<number>(stored.length / 4);
+      for (let i = 0; i < embedding.length; i++) embedding[i] = stored.readFloatLE(i * 4);
+      return embedding;
+    }
+    case 'int8': {
+      const scale = stored.readFloatLE(0);
+      const embedding = new Array<number>(stored.length - 4);
+      for (let i = 0; i < embedding.length; i++) embedding[i] = stored.readInt8(4 + i) * scale;
+      return embedding;
+    }
+    case 'binary': {
+      const dimension = stored.readUInt32LE(0);
+      const magnitude = 1 / Math.sqrt(dimension);
+      const embedding = new Array<number>(dimension);
+      for (let i = 0; i < dimension; i++) {
+        embedding[i] = stored[4 + (i >> 3)] & (1 << (i & 7)) ? magnitude : -magnitude;
+      }
+      return embedding;
+    }
+  }
+}
+
+// Select the storage encoding from TASK_GUIDE_EMBEDDING_ENCODING (default: float32)
+export function embeddingEncodingFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingEncoding {
+  const encoding = (env.TASK_GUIDE_EMBEDDING_ENCODING || 'float32') as EmbeddingEncoding;
+  if (!ENCODINGS.includes(encoding)) {
+    throw new Error(`Unknown embedding encoding: ${encoding} (expected one of ${ENCODINGS.join(', ')})`);
+  }
+  return encoding;
+}
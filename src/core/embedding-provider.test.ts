@@ -0,0 +1,99 @@
+import { jest } from '@jest/globals';
+import { createEmbeddingProvider, LocalEmbeddingProvider, OpenAIEmbeddingProvider, splitIdentifier } from './embedding-provider.js';
+import { cosineSimilarity } from './lsh-index.js';
+
+describe('splitIdentifier', () => {
+  it('splits camelCase, PascalCase, snake_case and kebab-case', () => {
+    expect(splitIdentifier('parseHTTPResponse')).toEqual(['parse', 'http', 'response']);
+    expect(splitIdentifier('GuidanceManager')).toEqual(['guidance', 'manager']);
+    expect(splitIdentifier('max_file_size')).toEqual(['max', 'file', 'size']);
+    expect(splitIdentifier('task-guide')).toEqual(['task', 'guide']);
+  });
+});
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider(256);
+
+  it('produces unit vectors of the configured dimension', async () => {
+    const [embedding] = await provider.embed(['function loadGuidance(id) { return readFile(id) }']);
+    const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+
+    expect(embedding).toHaveLength(256);
+    expect(norm).toBeCloseTo(1);
+  });
+
+  it('is deterministic', async () => {
+    const [first, second] = await provider.embed(['hybrid search query', 'hybrid search query']);
+    expect(first).toEqual(second);
+  });
+
+  it('ranks texts sharing identifiers as more similar', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'saveGuidance version snapshot',
+      'async saveGuidance(guidance) { await this.writeSnapshot(guidance.version) }',
+      'render the chart legend with colors',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('returns a zero vector for text without features', async () => {
+    const [embedding] = await provider.embed(['the and of']);
+    expect(embedding.every(value => value === 0)).toBe(true);
+  });
+});
+
+describe('OpenAIEmbeddingProvider', () => {
+  const mockCreate = (provider: OpenAIEmbeddingProvider, dimension: number) =>
+    jest.spyOn(provider['client'].embeddings, 'create').mockImplementation((async (params: { input: string[] }) => ({
+      data: params.input.map((_, index) => ({ index, embedding: new Array(dimension).fill(0) })),
+    })) as any);
+
+  it('requests the configured dimension', async () => {
+    const provider = new OpenAIEmbeddingProvider({ dimension: 512 });
+    const create = mockCreate(provider, 512);
+
+    expect(await provider.embed(['a', 'b'])).toHaveLength(2);
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ model: 'text-embedding-3-small', dimensions: 512 }));
+  });
+
+  it("uses the model's own dimension when none is configured", async () => {
+    const provider = new OpenAIEmbeddingProvider({ model: 'text-embedding-3-large' });
+    const create = mockCreate(provider, 3072);
+
+    await provider.embed(['a']);
+    expect(provider.dimension).toBe(3072);
+    expect(create.mock.calls[0][0]).not.toHaveProperty('dimensions');
+  });
+
+  it('rejects embeddings of another dimension', async () => {
+    const provider = new OpenAIEmbeddingProvider({ model: 'local-model' });
+    mockCreate(provider, 768);
+
+    await expect(provider.embed(['a'])).rejects.toThrow('returned 768 dimensions, expected 1536');
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  it('defaults to the local provider', () => {
+    const provider = createEmbeddingProvider({ TASK_GUIDE_EMBEDDING_DIMENSION: '64' });
+    expect(provider).toBeInstanceOf(LocalEmbeddingProvider);
+    expect(provider.dimension).toBe(64);
+  });
+
+  it('creates the OpenAI provider', () => {
+    expect(createEmbeddingProvider({ TASK_GUIDE_EMBEDDING_PROVIDER: 'openai', OPENAI_API_KEY: 'test' }))
+      .toBeInstanceOf(OpenAIEmbeddingProvider);
+  });
+
+  it('rejects dimensions that are not positive integers', () => {
+    for (const value of ['abc', '0', '-8', '12.5']) {
+      expect(() => createEmbeddingProvider({ TASK_GUIDE_EMBEDDING_DIMENSION: value }))
+        .toThrow(`TASK_GUIDE_EMBEDDING_DIMENSION must be a positive integer, got "${value}"`);
+    }
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => createEmbeddingProvider({ TASK_GUIDE_EMBEDDING_PROVIDER: 'cohere' })).toThrow('Unknown embedding provider');
+  });
+});
@@ -0,0 +1,172 @@
+import OpenAI from 'openai';
+import { EmbeddingProvider } from '../types/index.js';
+
+// Tokens that appear in almost every source file and carry no meaning on their own
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with',
+  'const', 'let', 'var', 'new', 'return', 'this', 'self', 'if', 'else', 'import', 'export', 'default', 'function', 'def',
+  'public', 'private', 'protected', 'static', 'void', 'null', 'undefined', 'true', 'false', 'await', 'async',
+]);
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model = 'hashed-tfidf-v1';
+  readonly dimension: number;
+
+  constructor(dimension: number = 1024) {
+    this.dimension = dimension;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimension).fill(0);
+    const termFrequencies = new Map<string, number>();
+
+    for (const feature of this.extractFeatures(text)) {
+      termFrequencies.set(feature, (termFrequencies.get(feature) || 0) + 1);
+    }
+
+    for (const [feature, frequency] of termFrequencies) {
+      // Sublinear tf, with a rough idf prior that favours longer (rarer) terms
+      const weight = (1 + Math.log(frequency)) * Math.log(2 + feature.length);
+      const hash = this.fnv1a(feature);
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[hash % this.dimension] += sign * weight;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  private extractFeatures(text: string): string[] {
+    const features: string[] = [];
+
+    for (const identifier of text.match(/[A-Za-z_$][A-Za-z0-9_$]*/g) || []) {
+      const parts = splitIdentifier(identifier).filter(part => part.length > 1 && !STOP_WORDS.has(part));
+
+      features.push(...parts);
+      // Keep the whole identifier and adjacent sub-token pairs so exact names still stand out
+      if (parts.length > 1) {
+        features.push(identifier.toLowerCase());
+        for (let i = 0; i < parts.length - 1; i++) {
+          features.push(`${parts[i]}_${parts[i + 1]}`);
+        }
+      }
+    }
+
+    return features;
+  }
+
+  private fnv1a(str: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+      hash ^= str.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+// Output size of OpenAI embedding models when no dimension is requested
+const OPENAI_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly dimension: number;
+  private client: OpenAI;
+  private batchSize: number;
+  // Sent as `dimensions` only when configured; models that cannot shorten their output reject it
+  private requestedDimension?: number;
+
+  constructor(options: {
+    model?: string;
+    dimension?: number;
+    baseURL?: string;
+    apiKey?: string;
+    batchSize?: number;
+  } = {}) {
+    this.model = options.model || 'text-embedding-3-small';
+    this.requestedDimension = options.dimension;
+    this.dimension = options.dimension || OPENAI_DIMENSIONS[this.model] || 1536;
+    this.batchSize = options.batchSize || 64;
+    // Local stand-in servers usually ignore the key, but the client requires one
+    this.client = new OpenAI({
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL,
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      // The API rejects empty strings
+      const batch = texts.slice(i, i + this.batchSize).map(text => text || ' ');
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: batch,
+        ...(this.requestedDimension ? { dimensions: this.requestedDimension } : {}),
+      });
+
+      const sorted = [...response.data].sort((a, b) => a.index - b.index);
+      for (const item of sorted) {
+        if (item.embedding.length !== this.dimension) {
+          throw new Error(
+            `Embedding model ${this.model} returned ${item.embedding.length} dimensions, expected ${this.dimension}; ` +
+            'set TASK_GUIDE_EMBEDDING_DIMENSION to the dimension of the model'
+          );
+        }
+        embeddings.push(item.embedding);
+      }
+    }
+
+    return embeddings;
+  }
+}
+
+// Split camelCase, PascalCase, snake_case and kebab-case identifiers into lowercase words
+export function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.toLowerCase());
+}
+
+// Select the embedding provider from environment variables
+export function createEmbeddingProvider(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider {
+  const provider = env.TASK_GUIDE_EMBEDDING_PROVIDER || 'local';
+  const dimension = env.TASK_GUIDE_EMBEDDING_DIMENSION ? parseDimension(env.TASK_GUIDE_EMBEDDING_DIMENSION) : undefined;
+
+  switch (provider) {
+    case 'local':
+      return new LocalEmbeddingProvider(dimension);
+    case 'openai':
+      return new OpenAIEmbeddingProvider({
+        model: env.TASK_GUIDE_EMBEDDING_MODEL,
+        dimension,
+        baseURL: env.OPENAI_BASE_URL,
+        apiKey: env.OPENAI_API_KEY,
+      });
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+}
+
+// NaN or zero would only fail later, when vectors are allocated or hashed into buckets
+function parseDimension(value: string): number {
+  const dimension = Number(value.trim());
+  if (!Number.isInteger(dimension) || dimension <= 0) {
+    throw new Error(`TASK_GUIDE_EMBEDDING_DIMENSION must be a positive integer, got "${value}"`);
+  }
+  return dimension;
+}
@@ -0,0 +1,49 @@
+import { CodeExtractionResult } from '../../types/index.js';
+import { BraceDeclaration, BraceLanguageSpec, extractBraceElements } from './source-scanner.js';
+
+const ACCESS = String.raw`(?:(?:public|private|protected)\s*:\s*)*`;
+const TEMPLATE = String.raw`(?:template\s*<[^{;]*?>\s*)?`;
+
+// `static int add(int a, int b)`, `char *name(void)`, `void Foo::bar() const`
+const FUNCTION_PATTERN = String.raw`^\s*${ACCESS}${TEMPLATE}(?:[\w*&:<>,~]+\s+)*?[*&]*\s*(?<name>~?[A-Za-z_][\w:~]*)\s*\([^;]*\)\s*(?:const\s*)?(?:noexcept\s*)?(?:override\s*)?(?:final\s*)?(?::[^{;]*)?$`;
+
+const METHOD: BraceDeclaration = {
+  pattern: new RegExp(FUNCTION_PATTERN),
+  type: 'method',
+  allowSemicolon: true,
+};
+
+const CLASS: BraceDeclaration = {
+  pattern: new RegExp(String.raw`^\s*${ACCESS}${TEMPLATE}class\s+(?<name>\w+)(?:\s+final)?(?:\s*:\s*(?<extends>[^{]+))?$`),
+  type: 'class',
+};
+
+const STRUCT: BraceDeclaration = {
+  pattern: new RegExp(String.raw`^\s*${ACCESS}${TEMPLATE}(?:typedef\s+)?struct\s+(?<name>\w+)(?:\s*:\s*(?<extends>[^{]+))?$`),
+  type: 'struct',
+};
+
+const ENUM: BraceDeclaration = {
+  pattern: new RegExp(String.raw`^\s*${ACCESS}(?:typedef\s+)?enum(?:\s+(?:class|struct))?\s+(?<name>\w+)[^{]*$`),
+  type: 'enum',
+};
+
+// C++ classes and structs hold methods and nested types
+CLASS.members = [CLASS, STRUCT, ENUM, METHOD];
+STRUCT.members = [CLASS, STRUCT, ENUM, METHOD];
+
+const C_SPEC: BraceLanguageSpec = {
+  // Preprocessor lines are masked like comments; includes are read from the original text
+  mask: { lineComments: ['//', '#'], blockComments: [['/*', '*/']], quotes: ['"'], charLiterals: true },
+  declarations: [CLASS, STRUCT, ENUM, { pattern: new RegExp(FUNCTION_PATTERN), type: 'function' }],
+  containers: [/^namespace(?:\s+[\w:]+)?$/, /^extern\s+"\s*"$/],
+  // Everything without internal linkage is visible to other translation units
+  isExported: signature => !/^\s*static\b/.test(signature),
+  keywords: new Set(['if', 'for', 'while', 'switch', 'return', 'sizeof', 'else', 'catch', 'do']),
+};
+
+export function extractCElements(content: string): CodeExtractionResult {
+  const imports = Array.from(content.matchAll(/^\s*#\s*include\s*[<"]([^>"]+)[>"]/gm), match => match[1]);
+
+  return { elements: extractBraceElements(content, C_SPEC), imports };
+}
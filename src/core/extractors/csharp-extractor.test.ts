@@ -0,0 +1,60 @@
+import { extractCSharpElements } from './csharp-extractor.js';
+
+describe('extractCSharpElements', () => {
+  const content = [
+    'using System;',
+    'namespace Shop.Models;',
+    '',
+    'public record Person(string First, string Last);',
+    '',
+    'public record Employee(string First, int Level) : Person(First, ""), IComparable<Employee>',
+    '{',
+    '    public int CompareTo(Employee other) => Level.CompareTo(other.Level);',
+    '}',
+    '',
+    'public readonly record struct Point(int X, int Y);',
+    '',
+    'public sealed record class Order',
+    '{',
+    '    public string Id { get; init; } = "";',
+    '    private int count;',
+    '    public int Count => count;',
+    '    public string Label',
+    '    {',
+    '        get { return Id; }',
+    '    }',
+    '    public event EventHandler Changed { add { } remove { } }',
+    '    public Order() { }',
+    '}',
+  ].join('\n');
+
+  const { elements, imports } = extractCSharpElements(content);
+
+  it('extracts positional records and records with bodies', () => {
+    expect(elements.map(element => [element.type, element.name, element.lineStart, element.lineEnd])).toEqual([
+      ['class', 'Person', 4, 4],
+      ['class', 'Employee', 6, 9],
+      ['struct', 'Point', 11, 11],
+      ['class', 'Order', 13, 24],
+    ]);
+    expect(imports).toEqual(['System']);
+  });
+
+  it('splits record base lists into base record and interfaces', () => {
+    expect(elements[1]).toMatchObject({ extends: ['Person'], implements: ['IComparable'] });
+    expect(elements[1].children.map(child => child.name)).toEqual(['CompareTo']);
+  });
+
+  it('extracts properties but not fields', () => {
+    const members = elements[3].children.map(child => [child.type, child.name, child.lineStart, child.lineEnd]);
+
+    expect(members).toEqual([
+      ['variable', 'Id', 15, 15],
+      ['variable', 'Count', 17, 17],
+      ['variable', 'Label', 18, 21],
+      ['variable', 'Changed', 22, 22],
+      ['method', 'Order', 23, 23],
+    ]);
+    expect(elements[3].children[0]).toMatchObject({ signature: 'public string Id', exported: true });
+  });
+});
@@ -0,0 +1,95 @@
+import { CodeElement, CodeExtractionResult } from '../../types/index.js';
+import { BraceDeclaration, BraceLanguageSpec, extractBraceElements, splitNames } from './source-scanner.js';
+
+const ATTRIBUTES = String.raw`(?:\[[^\]]*\]\s*)*`;
+const MODIFIERS = String.raw`(?:(?:public|private|protected|internal|static|abstract|sealed|virtual|override|async|partial|readonly|unsafe|new|extern|file|required)\s+)*`;
+
+const METHOD: BraceDeclaration = {
+  pattern: new RegExp(
+    String.raw`^\s*${ATTRIBUTES}${MODIFIERS}(?:[\w.<>\[\],?()\s]+\s+)?(?<name>\w+)\s*(?:<[^>]+>)?\s*\([^)]*\)` +
+    String.raw`(?:\s*:\s*(?:base|this)\s*\([^)]*\))?(?:\s*where\s+[^{;]+)?(?:\s*=>[\s\S]*)?$`
+  ),
+  type: 'method',
+  allowSemicolon: true,
+};
+
+// `Type Name { get; set; }`; also matches events with accessors
+const PROPERTY: BraceDeclaration = {
+  pattern: new RegExp(String.raw`^\s*${ATTRIBUTES}${MODIFIERS}(?:event\s+)?[\w.<>\[\],?()\s]+?\s+(?<name>\w+)$`),
+  type: 'variable',
+};
+
+// `Type Name => expression;`
+const EXPRESSION_PROPERTY: BraceDeclaration = {
+  pattern: new RegExp(String.raw`^\s*${ATTRIBUTES}${MODIFIERS}[\w.<>\[\],?()\s]+?\s+(?<name>\w+)\s*=>[\s\S]*$`),
+  type: 'variable',
+  allowSemicolon: true,
+};
+
+// Base lists may pass constructor arguments (records and primary constructors: `: Base(x)`)
+function typeDeclaration(keyword: string, type: BraceDeclaration['type'], allowSemicolon?: boolean): BraceDeclaration {
+  return {
+    pattern: new RegExp(
+      String.raw`^\s*${ATTRIBUTES}${MODIFIERS}${keyword}\s+(?<name>\w+)(?:\s*<[^{:]*?>)?(?:\s*\([^)]*\))?` +
+      String.raw`(?:\s*:\s*(?<extends>(?:[\w.<>,\s]|\([^)]*\))+?))?(?:\s+where\s+[^{;]+)?$`
+    ),
+    type,
+    allowSemicolon,
+  };
+}
+
+const TYPES = [
+  typeDeclaration('class', 'class'),
+  typeDeclaration('interface', 'interface'),
+  typeDeclaration('struct', 'struct'),
+  typeDeclaration('enum', 'enum'),
+  // Positional records may have no body: `record Point(int X, int Y);`
+  typeDeclaration('record(?:\\s+class)?', 'class', true),
+  typeDeclaration('record\\s+struct', 'struct', true),
+];
+
+for (const declaration of TYPES) {
+  // Properties come last: their pattern also fits other member headers
+  declaration.members = [...TYPES, METHOD, EXPRESSION_PROPERTY, PROPERTY];
+}
+
+const CSHARP_SPEC: BraceLanguageSpec = {
+  mask: { lineComments: ['//'], blockComments: [['/*', '*/']], quotes: ['"'], rawQuotes: ['@"'], charLiterals: true },
+  declarations: TYPES,
+  containers: [/^namespace\s+[\w.]+$/],
+  isExported: signature => /\b(public|internal)\b/.test(signature),
+  keywords: new Set(['if', 'for', 'foreach', 'while', 'switch', 'catch', 'using', 'lock', 'fixed', 'return', 'new', 'else', 'nameof', 'typeof']),
+};
+
+export function extractCSharpElements(content: string): CodeExtractionResult {
+  const imports = Array.from(
+    content.matchAll(/^\s*(?:global\s+)?using\s+(?:static\s+)?(?:\w+\s*=\s*)?([\w.]+)\s*;/gm),
+    match => match[1]
+  );
+  const elements = extractBraceElements(content, CSHARP_SPEC);
+  splitBaseList(elements);
+
+  return { elements, imports };
+}
+
+// C# base lists mix the base class and interfaces; by convention interfaces are named IFoo
+function splitBaseList(elements: CodeElement[]): void {
+  for (const element of elements) {
+    const bases = splitNames(element.extends?.join(','));
+    if (bases) {
+      const isInterface = (name: string) => /^I[A-Z]/.test(name.split('.').pop()!);
+      const baseClasses = bases.filter(name => !isInterface(name));
+      const interfaces = bases.filter(isInterface);
+
+      // Interfaces extend other interfaces rather than implementing them
+      if (element.type === 'interface') {
+        element.extends = bases;
+      } else {
+        element.extends = baseClasses.length > 0 ? baseClasses : undefined;
+        element.implements = interfaces.length > 0 ? interfaces : undefined;
+      }
+    }
+
+    splitBaseList(element.children);
+  }
+}
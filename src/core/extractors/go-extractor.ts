@@ -0,0 +1,58 @@
+import { CodeElement, CodeExtractionResult } from '../../types/index.js';
+import { BraceLanguageSpec, extractBraceElements } from './source-scanner.js';
+
+const GO_SPEC: BraceLanguageSpec = {
+  mask: { lineComments: ['//'], blockComments: [['/*', '*/']], quotes: ['"'], rawQuotes: ['`'], charLiterals: true },
+  declarations: [
+    { pattern: /\bfunc\s*\((?<receiver>[^)]*)\)\s*(?<name>\w+)\s*(?:\[[^\]]*\])?\s*\([\s\S]*$/, type: 'method' },
+    { pattern: /\bfunc\s+(?<name>\w+)\s*(?:\[[^\]]*\])?\s*\([\s\S]*$/, type: 'function' },
+    { pattern: /\btype\s+(?<name>\w+)\s*(?:\[[^\]]*\])?\s+struct$/, type: 'struct' },
+    { pattern: /\btype\s+(?<name>\w+)\s*(?:\[[^\]]*\])?\s+interface$/, type: 'interface' },
+  ],
+  // Exported identifiers start with an upper-case letter
+  isExported: (_signature, name) => /^[A-Z]/.test(name),
+};
+
+export function extractGoElements(content: string): CodeExtractionResult {
+  const elements = extractBraceElements(content, GO_SPEC);
+
+  // Methods are declared outside their type; nest them under the struct when it lives in the same file
+  const structs = new Map(elements.filter(element => element.type === 'struct').map(element => [element.name, element]));
+  const topLevel: CodeElement[] = [];
+
+  for (const element of elements) {
+    const receiverType = element.type === 'method' ? getReceiverType(element.signature || '') : undefined;
+    const owner = receiverType ? structs.get(receiverType) : undefined;
+
+    if (owner) {
+      owner.children.push(element);
+    } else {
+      topLevel.push(element);
+    }
+  }
+
+  return { elements: topLevel, imports: extractGoImports(content) };
+}
+
+// `func (s *Server[T]) Start()` -> `Server`
+function getReceiverType(signature: string): string | undefined {
+  const receiver = /^func\s*\(([^)]*)\)/.exec(signature)?.[1];
+  const typeName = receiver?.trim().split(/\s+/).pop()?.replace(/^\*/, '').replace(/\[.*\]$/, '');
+  return typeName || undefined;
+}
+
+function extractGoImports(content: string): string[] {
+  const imports: string[] = [];
+
+  for (const match of content.matchAll(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+    imports.push(match[1]);
+  }
+
+  for (const block of content.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+    for (const match of block[1].matchAll(/"([^"]+)"/g)) {
+      imports.push(match[1]);
+    }
+  }
+
+  return [...new Set(imports)];
+}
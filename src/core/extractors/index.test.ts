@@ -0,0 +1,144 @@
+import { CodeElement } from '../../types/index.js';
+import { extractCodeElements, getLanguageForFile } from './index.js';
+
+// name -> child names, for comparing element trees
+function outline(elements: CodeElement[]): Array<[string, string, string[]]> {
+  return elements.map(element => [element.type, element.name, element.children.map(child => child.name)]);
+}
+
+describe('getLanguageForFile', () => {
+  it('maps extensions case-insensitively', () => {
+    expect(getLanguageForFile('src/App.TSX')).toBe('typescript');
+    expect(getLanguageForFile('Program.cs')).toBe('csharp');
+    expect(getLanguageForFile('main.rs')).toBe('rust');
+    expect(getLanguageForFile('notes.txt')).toBeUndefined();
+  });
+});
+
+describe('extractCodeElements', () => {
+  it('extracts Python classes and methods by indentation', () => {
+    const content = [
+      'import os',
+      'from pkg import thing',
+      '',
+      'class Runner(Base):',
+      '    def start(self):',
+      '        def inner():',
+      '            pass',
+      '        return inner',
+      '',
+      '    async def stop(self):',
+      '        pass',
+      '',
+      'def main():',
+      '    Runner().start()',
+    ].join('\n');
+
+    const { elements } = extractCodeElements(content, 'runner.py', 'python');
+
+    expect(outline(elements)).toEqual([
+      ['class', 'Runner', ['start', 'stop']],
+      ['function', 'main', []],
+    ]);
+    expect(elements[0]).toMatchObject({ lineStart: 4, lineEnd: 11 });
+  });
+
+  it('extracts Java types and methods', () => {
+    const content = [
+      'import java.util.List;',
+      '',
+      'public class Service implements Runnable {',
+      '  public void run() {',
+      '    if (ready) { go(); }',
+      '  }',
+      '  private int count(String name) {',
+      '    return 1;',
+      '  }',
+      '}',
+    ].join('\n');
+
+    const { elements, imports } = extractCodeElements(content, 'Service.java', 'java');
+
+    expect(outline(elements)).toEqual([['class', 'Service', ['run', 'count']]]);
+    expect(elements[0].implements).toEqual(['Runnable']);
+    expect(imports).toEqual(['java.util.List']);
+  });
+
+  it('nests Go methods under their struct', () => {
+    const content = [
+      'package server',
+      '',
+      'type Server struct {',
+      '  port int',
+      '}',
+      '',
+      'func (s *Server) Start() error {',
+      '  return nil',
+      '}',
+      '',
+      'func helper() {}',
+    ].join('\n');
+
+    const { elements } = extractCodeElements(content, 'server.go', 'go');
+
+    expect(outline(elements)).toEqual([
+      ['struct', 'Server', ['Start']],
+      ['function', 'helper', []],
+    ]);
+  });
+
+  it('attaches Rust impl methods to their struct', () => {
+    const content = [
+      'use std::fmt;',
+      '',
+      'pub struct Point {',
+      '    x: i32,',
+      '}',
+      '',
+      'impl Point {',
+      '    pub fn new(x: i32) -> Self {',
+      '        Point { x }',
+      '    }',
+      '}',
+      '',
+      'fn main() {}',
+    ].join('\n');
+
+    const { elements, imports } = extractCodeElements(content, 'point.rs', 'rust');
+
+    expect(outline(elements)).toEqual([
+      ['struct', 'Point', ['new']],
+      ['function', 'main', []],
+    ]);
+    expect(elements[0].children[0]).toMatchObject({ type: 'method', lineStart: 8, lineEnd: 10, exported: true });
+    expect(imports).toEqual(['std::fmt']);
+  });
+
+  it('extracts C structs, static functions and includes', () => {
+    const content = [
+      '#include <stdio.h>',
+      '#include "point.h"',
+      '',
+      'struct point {',
+      '  int x;',
+      '};',
+      '',
+      'static int add(int a, int b) {',
+      '  return a + b;',
+      '}',
+    ].join('\n');
+
+    const { elements, imports } = extractCodeElements(content, 'point.c', 'c');
+
+    expect(outline(elements)).toEqual([
+      ['struct', 'point', []],
+      ['function', 'add', []],
+    ]);
+    expect(elements[1]).toMatchObject({ exported: false, signature: 'static int add(int a, int b)' });
+    expect(imports).toEqual(['stdio.h', 'point.h']);
+  });
+
+  it('returns no elements for languages without an extractor', () => {
+    expect(extractCodeElements('<?php echo 1;', 'index.php', 'php')).toEqual({ elements: [], imports: [] });
+  });
+});
@@ -0,0 +1,55 @@
+import path from 'path';
+import { CodeExtractor, CodeExtractionResult } from '../../types/index.js';
+import { extractTypeScriptElements } from './typescript-extractor.js';
+import { extractPythonElements } from './python-extractor.js';
+import { extractGoElements } from './go-extractor.js';
+import { extractJavaElements } from './java-extractor.js';
+import { extractCSharpElements } from './csharp-extractor.js';
+import { extractRustElements } from './rust-extractor.js';
+import { extractCElements } from './c-extractor.js';
+
+const languagesByExtension = new Map<string, string>();
+const extractors = new Map<string, CodeExtractor>();
+
+// Register a language by its file extensions, with an optional element extractor.
+// Files of a language without an extractor are still indexed as plain file nodes.
+export function registerLanguage(language: string, extensions: string[], extractor?: CodeExtractor): void {
+  for (const extension of extensions) {
+    languagesByExtension.set(extension.toLowerCase(), language);
+  }
+
+  if (extractor) {
+    extractors.set(language, extractor);
+  }
+}
+
+export function getLanguageForFile(filename: string): string | undefined {
+  return languagesByExtension.get(path.extname(filename).toLowerCase());
+}
+
+export function extractCodeElements(content: string, filePath: string, language?: string): CodeExtractionResult {
+  const extractor = language ? extractors.get(language) : undefined;
+  if (!extractor) {
+    return { elements: [], imports: [] };
+  }
+
+  try {
+    return extractor(content, filePath);
+  } catch (error) {
+    // A parser failure should only cost this file its elements
+    console.error(`Failed to extract code elements: ${filePath}`, error);
+    return { elements: [], imports: [] };
+  }
+}
+
+registerLanguage('typescript', ['.ts', '.tsx'], extractTypeScriptElements);
+registerLanguage('javascript', ['.js', '.jsx'], extractTypeScriptElements);
+registerLanguage('python', ['.py'], extractPythonElements);
+registerLanguage('java', ['.java'], extractJavaElements);
+registerLanguage('cpp', ['.cpp'], extractCElements);
+registerLanguage('c', ['.c'], extractCElements);
+registerLanguage('csharp', ['.cs'], extractCSharpElements);
+registerLanguage('go', ['.go'], extractGoElements);
+registerLanguage('rust', ['.rs'], extractRustElements);
+registerLanguage('php', ['.php']);
+registerLanguage('ruby', ['.rb']);
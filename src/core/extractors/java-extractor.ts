@@ -0,0 +1,49 @@
+import { CodeExtractionResult } from '../../types/index.js';
+import { BraceDeclaration, BraceLanguageSpec, extractBraceElements } from './source-scanner.js';
+
+const ANNOTATIONS = String.raw`(?:@[\w.]+(?:\s*\([^)]*\))?\s+)*`;
+const TYPE_MODIFIERS = String.raw`(?:(?:public|protected|private|abstract|static|final|sealed|non-sealed|strictfp)\s+)*`;
+const MEMBER_MODIFIERS = String.raw`(?:(?:public|protected|private|abstract|static|final|synchronized|native|default|strictfp)\s+)*`;
+
+const METHOD: BraceDeclaration = {
+  pattern: new RegExp(
+    String.raw`^\s*${ANNOTATIONS}${MEMBER_MODIFIERS}(?:<[^>]+>\s+)?(?:[\w.<>\[\],?\s]+\s+)?(?<name>\w+)\s*\([^)]*\)(?:\s*throws\s+[\w.,\s]+)?$`
+  ),
+  type: 'method',
+  allowSemicolon: true,
+};
+
+function typeDeclaration(keyword: string, type: BraceDeclaration['type']): BraceDeclaration {
+  return {
+    pattern: new RegExp(
+      String.raw`^\s*${ANNOTATIONS}${TYPE_MODIFIERS}${keyword}\s+(?<name>\w+)(?:\s*<[^{]*?>)?(?:\s*\([^)]*\))?` +
+      String.raw`(?:\s+extends\s+(?<extends>[\w.<>,?\s]+?))?(?:\s+implements\s+(?<implements>[\w.<>,?\s]+?))?(?:\s+permits\s+[\w.,\s]+)?$`
+    ),
+    type,
+  };
+}
+
+const TYPES = [
+  typeDeclaration('class', 'class'),
+  typeDeclaration('@?interface', 'interface'),
+  typeDeclaration('enum', 'enum'),
+  typeDeclaration('record', 'class'),
+];
+
+// Nested types have the same members as top-level ones
+for (const declaration of TYPES) {
+  declaration.members = [...TYPES, METHOD];
+}
+
+const JAVA_SPEC: BraceLanguageSpec = {
+  mask: { lineComments: ['//'], blockComments: [['/*', '*/']], quotes: ['"'], tripleQuotes: true, charLiterals: true },
+  declarations: TYPES,
+  isExported: signature => /\bpublic\b/.test(signature),
+  keywords: new Set(['if', 'for', 'while', 'switch', 'catch', 'synchronized', 'return', 'new', 'else', 'try']),
+};
+
+export function extractJavaElements(content: string): CodeExtractionResult {
+  const imports = Array.from(content.matchAll(/^\s*import\s+(?:static\s+)?([\w.*]+)\s*;/gm), match => match[1]);
+
+  return { elements: extractBraceElements(content, JAVA_SPEC), imports };
+}
@@ -0,0 +1,141 @@
+import { CodeElement, CodeExtractionResult } from '../../types/index.js';
+import { maskSource, splitNames } from './source-scanner.js';
+
+const DECLARATION = /^(?<indent>[ \t]*)(?:(?<async>async\s+)?def|(?<class>class))\s+(?<name>\w+)/;
+
+// Indentation-aware extraction: a block ends at the first non-blank line indented no deeper than its header
+export function extractPythonElements(content: string): CodeExtractionResult {
+  const lines = content.split('\n');
+  const maskedLines = maskSource(content, {
+    lineComments: ['#'],
+    blockComments: [],
+    quotes: ['"', "'"],
+    tripleQuotes: true,
+  }).split('\n');
+
+  const parseBlock = (from: number, to: number, inClass: boolean): CodeElement[] => {
+    const elements: CodeElement[] = [];
+    let blockIndent: number | undefined;
+
+    for (let i = from; i < to; i++) {
+      const masked = maskedLines[i];
+      if (!masked.trim()) continue;
+
+      const indent = indentOf(masked);
+      // Only declarations at the block's own indentation level; nested functions stay part of their parent
+      blockIndent ??= indent;
+      if (indent !== blockIndent) continue;
+
+      const match = DECLARATION.exec(masked);
+      if (!match) continue;
+
+      const headerEnd = findHeaderEnd(maskedLines, i);
+      const end = findBlockEnd(maskedLines, headerEnd + 1, indent, to);
+      const start = includeDecorators(maskedLines, i, indent);
+      const isClass = !!match.groups!.class;
+      const header = lines.slice(i, headerEnd + 1).join(' ').replace(/\s+/g, ' ').trim().replace(/:$/, '');
+      const name = match.groups!.name;
+
+      const element: CodeElement = {
+        name,
+        type: isClass ? 'class' : inClass ? 'method' : 'function',
+        content: lines.slice(start, end).join('\n'),
+        lineStart: start + 1,
+        lineEnd: end,
+        signature: header,
+        docComment: extractDocstring(lines, headerEnd + 1, end),
+        exported: !name.startsWith('_') || (name.startsWith('__') && name.endsWith('__')),
+        children: [],
+      };
+
+      if (isClass) {
+        element.extends = splitNames(/^class\s+\w+\s*\((.*)\)/.exec(header)?.[1]
+          ?.split(',')
+          .filter(base => !base.includes('='))
+          .join(','));
+        element.children = parseBlock(headerEnd + 1, end, true);
+      }
+
+      elements.push(element);
+      i = end - 1;
+    }
+
+    return elements;
+  };
+
+  return { elements: parseBlock(0, lines.length, false), imports: extractPythonImports(maskedLines) };
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// A def/class header may span several lines inside parentheses; it ends at the line with the closing ':'
+function findHeaderEnd(maskedLines: string[], start: number): number {
+  let depth = 0;
+  for (let i = start; i < maskedLines.length; i++) {
+    for (const char of maskedLines[i]) {
+      if (char === '(' || char === '[' || char === '{') depth++;
+      else if (char === ')' || char === ']' || char === '}') depth--;
+    }
+    if (depth <= 0 && /:\s*(\S.*)?$/.test(maskedLines[i])) return i;
+  }
+  return start;
+}
+
+// Exclusive end line of a block whose header is indented by `indent`, dropping trailing blank lines
+function findBlockEnd(maskedLines: string[], from: number, indent: number, limit: number): number {
+  let lastContent = from - 1;
+  for (let i = from; i < limit; i++) {
+    const line = maskedLines[i];
+    if (!line.trim()) continue;
+    if (indentOf(line) <= indent) break;
+    lastContent = i;
+  }
+  return lastContent + 1;
+}
+
+function includeDecorators(maskedLines: string[], declarationLine: number, indent: number): number {
+  let start = declarationLine;
+  while (start > 0 && indentOf(maskedLines[start - 1]) === indent && maskedLines[start - 1].trimStart().startsWith('@')) {
+    start--;
+  }
+  return start;
+}
+
+function extractDocstring(lines: string[], from: number, to: number): string | undefined {
+  const firstLine = lines.slice(from, to).findIndex(line => line.trim());
+  if (firstLine === -1) return undefined;
+
+  const body = lines.slice(from + firstLine, to).join('\n').trimStart();
+  const match = /^[rRuU]?("""|''')([\s\S]*?)\1/.exec(body) || /^[rRuU]?("|')(.*?)\1/.exec(body);
+  if (!match) return undefined;
+
+  // Remove the common indentation of continuation lines
+  const docLines = match[2].split('\n');
+  const indents = docLines.slice(1).filter(line => line.trim()).map(indentOf);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return [docLines[0], ...docLines.slice(1).map(line => line.slice(common))].join('\n').trim() || undefined;
+}
+
+function extractPythonImports(maskedLines: string[]): string[] {
+  const imports: string[] = [];
+
+  for (const line of maskedLines) {
+    const fromImport = /^\s*from\s+(\.*[\w.]*)\s+import\b/.exec(line);
+    if (fromImport) {
+      imports.push(fromImport[1]);
+      continue;
+    }
+
+    const plainImport = /^\s*import\s+(.+)$/.exec(line);
+    if (plainImport) {
+      for (const module of plainImport[1].split(',')) {
+        const name = module.trim().split(/\s+as\s+/)[0].trim();
+        if (name) imports.push(name);
+      }
+    }
+  }
+
+  return [...new Set(imports)];
+}
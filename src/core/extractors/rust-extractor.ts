@@ -0,0 +1,78 @@
+import { CodeElement, CodeExtractionResult } from '../../types/index.js';
+import { BraceDeclaration, BraceLanguageSpec, extractBraceElements } from './source-scanner.js';
+
+const ATTRIBUTES = String.raw`(?:#!?\[[^\]]*\]\s*)*`;
+const VISIBILITY = String.raw`(?:pub(?:\s*\([^)]*\))?\s+)?`;
+const FN_QUALIFIERS = String.raw`(?:(?:default|const|async|unsafe|extern(?:\s+"[^"]*")?)\s+)*`;
+
+function fnDeclaration(type: BraceDeclaration['type']): BraceDeclaration {
+  return {
+    pattern: new RegExp(String.raw`^\s*${ATTRIBUTES}${VISIBILITY}${FN_QUALIFIERS}fn\s+(?<name>\w+)[\s\S]*$`),
+    type,
+    // Trait methods may be declared without a body
+    allowSemicolon: type === 'method',
+  };
+}
+
+const IMPL_PATTERN = String.raw`^\s*${ATTRIBUTES}(?:unsafe\s+)?impl(?:\s*<[^{]*?>)?\s+(?:!?(?<implements>[\w:]+)(?:<[^{]*?>)?\s+for\s+)?(?<name>[\w:]+)(?:<[^{]*?>)?(?:\s+where\s+[\s\S]*)?$`;
+
+const RUST_SPEC: BraceLanguageSpec = {
+  mask: { lineComments: ['//'], blockComments: [['/*', '*/']], quotes: ['"'], charLiterals: true },
+  declarations: [
+    fnDeclaration('function'),
+    {
+      pattern: new RegExp(String.raw`^\s*${ATTRIBUTES}${VISIBILITY}struct\s+(?<name>\w+)[\s\S]*$`),
+      type: 'struct',
+      allowSemicolon: true,
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${ATTRIBUTES}${VISIBILITY}enum\s+(?<name>\w+)[\s\S]*$`),
+      type: 'enum',
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${ATTRIBUTES}${VISIBILITY}(?:unsafe\s+)?trait\s+(?<name>\w+)(?:\s*<[^{]*?>)?(?:\s*:\s*(?<extends>[^{]+?))?(?:\s+where\s+[\s\S]*)?$`),
+      type: 'interface',
+      members: [fnDeclaration('method')],
+    },
+    {
+      pattern: new RegExp(IMPL_PATTERN),
+      type: 'class',
+      members: [fnDeclaration('method')],
+    },
+  ],
+  containers: [/^(?:pub(?:\s*\([^)]*\))?\s+)?mod\s+\w+$/],
+  isExported: signature => /^(?:#!?\[[^\]]*\]\s*)*pub\b/.test(signature),
+};
+
+export function extractRustElements(content: string): CodeExtractionResult {
+  const imports = Array.from(content.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+([^;]+);/gm), match => match[1].replace(/\s+/g, ''));
+  const elements = mergeImplBlocks(extractBraceElements(content, RUST_SPEC));
+
+  return { elements, imports };
+}
+
+// impl blocks are not declarations of their own: attach their methods (and the implemented trait)
+// to the struct or enum of the same name when it is declared in this file
+function mergeImplBlocks(elements: CodeElement[]): CodeElement[] {
+  const implPattern = new RegExp(IMPL_PATTERN);
+  const types = new Map(
+    elements.filter(element => element.type === 'struct' || element.type === 'enum').map(element => [element.name, element])
+  );
+  const merged: CodeElement[] = [];
+
+  for (const element of elements) {
+    const isImpl = element.type === 'class' && implPattern.test(element.signature || '');
+    const owner = isImpl ? types.get(element.name.split('::').pop()!) : undefined;
+
+    if (owner) {
+      owner.children.push(...element.children);
+      if (element.implements) {
+        owner.implements = [...(owner.implements || []), ...element.implements];
+      }
+    } else {
+      merged.push(element);
+    }
+  }
+
+  return merged;
+}
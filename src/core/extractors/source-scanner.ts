@@ -0,0 +1,266 @@
+import { CodeElement } from '../../types/index.js';
+
+export interface MaskOptions {
+  lineComments: string[];
+  blockComments: Array<[string, string]>;
+  quotes: string[];
+  // Quotes whose contents have no escape sequences (e.g. Go raw strings)
+  rawQuotes?: string[];
+  // Python-style '''/""" strings
+  tripleQuotes?: boolean;
+  // 'x' character literals; a lone quote (e.g. a Rust lifetime) is left alone
+  charLiterals?: boolean;
+}
+
+// Replace comments and string contents with spaces so braces and keywords inside them are ignored.
+// Newlines are kept, so offsets and line numbers in the masked text match the original.
+export function maskSource(content: string, options: MaskOptions): string {
+  const chars = content.split('');
+  const blank = (from: number, to: number) => {
+    for (let i = from; i < to && i < chars.length; i++) {
+      if (chars[i] !== '\n') chars[i] = ' ';
+    }
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const lineComment = options.lineComments.find(token => content.startsWith(token, i));
+    if (lineComment) {
+      const end = content.indexOf('\n', i);
+      const stop = end === -1 ? content.length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    const blockComment = options.blockComments.find(([open]) => content.startsWith(open, i));
+    if (blockComment) {
+      const end = content.indexOf(blockComment[1], i + blockComment[0].length);
+      const stop = end === -1 ? content.length : end + blockComment[1].length;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (options.tripleQuotes && (content.startsWith('"""', i) || content.startsWith("'''", i))) {
+      const delimiter = content.slice(i, i + 3);
+      const end = content.indexOf(delimiter, i + 3);
+      const stop = end === -1 ? content.length : end + 3;
+      blank(i + 3, stop - 3);
+      i = stop;
+      continue;
+    }
+
+    if (options.charLiterals && content[i] === "'") {
+      const match = /^'(?:\\.|[^'\\\n])'/.exec(content.slice(i, i + 4));
+      if (match) {
+        blank(i + 1, i + match[0].length - 1);
+        i += match[0].length;
+      } else {
+        i++;
+      }
+      continue;
+    }
+
+    const quote = options.quotes.find(token => content.startsWith(token, i));
+    const rawQuote = options.rawQuotes?.find(token => content.startsWith(token, i));
+    if (quote || rawQuote) {
+      const delimiter = (quote || rawQuote)!;
+      let j = i + delimiter.length;
+      while (j < content.length && !content.startsWith(delimiter, j)) {
+        // Unterminated single-line strings stop at the end of the line
+        if (!rawQuote && content[j] === '\n') break;
+        j += !rawQuote && content[j] === '\\' ? 2 : 1;
+      }
+      blank(i + delimiter.length, j);
+      i = Math.min(content.length, j + delimiter.length);
+      continue;
+    }
+
+    i++;
+  }
+
+  return chars.join('');
+}
+
+// Offset of the brace that closes the one at openIndex, or the end of the text if it is unbalanced
+export function findMatchingBrace(masked: string, openIndex: number, open = '{', close = '}'): number {
+  let depth = 0;
+  for (let i = openIndex; i < masked.length; i++) {
+    if (masked[i] === open) depth++;
+    else if (masked[i] === close) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return masked.length - 1;
+}
+
+export class LineIndex {
+  private offsets: number[] = [0];
+
+  constructor(content: string) {
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') this.offsets.push(i + 1);
+    }
+  }
+
+  // 1-based line number of an offset
+  lineAt(offset: number): number {
+    let low = 0;
+    let high = this.offsets.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.offsets[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  }
+}
+
+// Comment lines (//, ///, /* */ or #) directly above a declaration, with comment markers removed
+export function getLeadingComment(lines: string[], lineStart: number, markers: RegExp = /^\s*(\/\/\/?|\/\*\*?|\*\/?|#)/): string | undefined {
+  const comment: string[] = [];
+
+  for (let i = lineStart - 2; i >= 0; i--) {
+    const line = lines[i];
+    if (!markers.test(line)) break;
+    comment.unshift(line.replace(markers, '').replace(/\*\/\s*$/, '').trim());
+  }
+
+  const text = comment.join('\n').trim();
+  return text || undefined;
+}
+
+export interface BraceDeclaration {
+  // Matched against the declaration header (masked text before its `{` or `;`); needs a `name` group.
+  // The element starts where the match starts, so patterns should end with `$`.
+  pattern: RegExp;
+  type: CodeElement['type'];
+  // Declarations whose body holds members to extract with the `members` rules
+  members?: BraceDeclaration[];
+  // Whether the declaration may end with `;` instead of a body (e.g. abstract methods, unit structs)
+  allowSemicolon?: boolean;
+}
+
+export interface BraceLanguageSpec {
+  mask: MaskOptions;
+  declarations: BraceDeclaration[];
+  // Blocks that are descended into without producing an element (e.g. namespaces)
+  containers?: RegExp[];
+  isExported?: (signature: string, name: string) => boolean;
+  // Names that look like declarations in a header but are control flow
+  keywords?: Set<string>;
+}
+
+// Statement-level scanner for curly-brace languages: splits a range into headers ending at `{` or `;`,
+// matches headers against the declaration rules and skips over every other block.
+export function extractBraceElements(content: string, spec: BraceLanguageSpec): CodeElement[] {
+  const masked = maskSource(content, spec.mask);
+  const lineIndex = new LineIndex(content);
+  const lines = content.split('\n');
+
+  const scan = (start: number, end: number, rules: BraceDeclaration[]): CodeElement[] => {
+    const elements: CodeElement[] = [];
+    let cursor = start;
+
+    while (cursor < end) {
+      const terminator = findTerminator(masked, cursor, end);
+      if (terminator === -1) break;
+
+      const rawHeader = masked.slice(cursor, terminator).trimEnd();
+      const header = rawHeader.replace(/\s+/g, ' ').trim();
+      const blockEnd = masked[terminator] === '{' ? findMatchingBrace(masked, terminator) : terminator;
+
+      if (masked[terminator] === '}') {
+        // Stray closing brace; step past it
+        cursor = terminator + 1;
+        continue;
+      }
+
+      if (masked[terminator] === '{' && spec.containers?.some(container => container.test(header))) {
+        elements.push(...scan(terminator + 1, blockEnd, rules));
+        cursor = blockEnd + 1;
+        continue;
+      }
+
+      const rule = rules.find(candidate =>
+        (masked[terminator] === '{' || candidate.allowSemicolon) && matchName(candidate.pattern, rawHeader, spec.keywords)
+      );
+
+      if (rule) {
+        const match = rule.pattern.exec(rawHeader)!;
+        const groups = match.groups!;
+        const leading = match[0].length - match[0].trimStart().length;
+        const headerStart = cursor + match.index + leading;
+        // Signature comes from the original text so string literals (e.g. annotation arguments) survive
+        const signature = content.slice(headerStart, cursor + match.index + match[0].length).replace(/\s+/g, ' ').trim();
+        const elementEnd = blockEnd + 1;
+        const lineStart = lineIndex.lineAt(headerStart);
+
+        const element: CodeElement = {
+          name: groups.name,
+          type: rule.type,
+          content: content.slice(headerStart, elementEnd),
+          lineStart,
+          lineEnd: lineIndex.lineAt(Math.max(headerStart, elementEnd - 1)),
+          signature: signature.length > 300 ? `${signature.slice(0, 297)}...` : signature,
+          docComment: getLeadingComment(lines, lineStart),
+          exported: spec.isExported ? spec.isExported(signature, groups.name) : undefined,
+          extends: splitNames(groups.extends),
+          implements: splitNames(groups.implements),
+          children: rule.members && masked[terminator] === '{' ? scan(terminator + 1, blockEnd, rule.members) : [],
+        };
+        elements.push(element);
+      }
+
+      cursor = blockEnd + 1;
+    }
+
+    return elements;
+  };
+
+  return scan(0, masked.length, spec.declarations);
+}
+
+function findTerminator(masked: string, from: number, end: number): number {
+  let parens = 0;
+  for (let i = from; i < end; i++) {
+    const char = masked[i];
+    if (char === '(' || char === '[') parens++;
+    else if (char === ')' || char === ']') parens = Math.max(0, parens - 1);
+    else if (parens === 0 && (char === '{' || char === ';' || char === '}')) return i;
+  }
+  return -1;
+}
+
+function matchName(pattern: RegExp, header: string, keywords?: Set<string>): boolean {
+  const match = pattern.exec(header);
+  return !!match?.groups?.name && !keywords?.has(match.groups.name);
+}
+
+export function splitNames(list?: string): string[] | undefined {
+  if (!list) return undefined;
+
+  const names: string[] = [];
+  let depth = 0;
+  let current = '';
+  // Split on commas outside generic brackets
+  for (const char of list) {
+    if (char === '<' || char === '(' || char === '[') depth++;
+    else if (char === '>' || char === ')' || char === ']') depth--;
+
+    if (char === ',' && depth === 0) {
+      names.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  names.push(current);
+
+  const cleaned = names
+    .map(name => name.replace(/<.*>/, '').replace(/\(.*\)/, '').replace(/^(public|private|protected|virtual)\s+/, '').trim())
+    .filter(Boolean);
+  return cleaned.length > 0 ? cleaned : undefined;
+}
@@ -0,0 +1,44 @@
+import { CodeElement } from '../../types/index.js';
+import { extractTypeScriptElements } from './typescript-extractor.js';
+
+// name -> child names, for comparing element trees
+function outline(elements: CodeElement[]): Array<[string, string, string[]]> {
+  return elements.map(element => [element.type, element.name, element.children.map(child => child.name)]);
+}
+
+describe('extractTypeScriptElements', () => {
+  it('extracts declarations, members and imports', () => {
+    const content = [
+      "import fs from 'fs';",
+      "export { helper } from './helper';",
+      '',
+      '/** A store */',
+      'export class Store extends Base implements Loader {',
+      '  constructor() { super(); }',
+      '  get size() { return 0; }',
+      '  load = () => {};',
+      '}',
+      '',
+      'export const limit = 10;',
+      'const local = 1;',
+      'function run() { require("child_process"); }',
+    ].join('\n');
+
+    const { elements, imports } = extractTypeScriptElements(content, 'store.ts');
+
+    expect(outline(elements)).toEqual([
+      ['class', 'Store', ['constructor', 'size', 'load']],
+      ['variable', 'limit', []],
+      ['function', 'run', []],
+    ]);
+    expect(elements[0]).toMatchObject({
+      lineStart: 5,
+      lineEnd: 9,
+      exported: true,
+      extends: ['Base'],
+      implements: ['Loader'],
+      docComment: 'A store',
+    });
+    expect(imports).toEqual(['fs', './helper', 'child_process']);
+  });
+});
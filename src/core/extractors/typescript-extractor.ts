@@ -0,0 +1,203 @@
+import ts from 'typescript';
+import { CodeElement, CodeExtractionResult } from '../../types/index.js';
+
+export function extractTypeScriptElements(content: string, fileName: string): CodeExtractionResult {
+  const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+  const elements: CodeElement[] = [];
+  const imports: string[] = [];
+
+  for (const statement of sourceFile.statements) {
+    // import ... from 'x' / export ... from 'x'
+    if ((ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)) &&
+        statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+      imports.push(statement.moduleSpecifier.text);
+      continue;
+    }
+
+    elements.push(...extractStatement(statement, sourceFile));
+  }
+
+  // require('x') and dynamic import('x')
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteral(node.arguments[0]) &&
+        (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+         (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+      imports.push(node.arguments[0].text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return { elements, imports: [...new Set(imports)] };
+}
+
+function extractStatement(statement: ts.Statement, sourceFile: ts.SourceFile): CodeElement[] {
+  if (ts.isFunctionDeclaration(statement) && statement.name) {
+    return [createElement(statement, statement.name.text, 'function', sourceFile, statement.body)];
+  }
+
+  if (ts.isClassDeclaration(statement)) {
+    const element = createElement(statement, statement.name?.text ?? 'default', 'class', sourceFile, statement.members);
+    Object.assign(element, getHeritage(statement));
+    element.children = extractClassMembers(statement, sourceFile);
+    return [element];
+  }
+
+  if (ts.isInterfaceDeclaration(statement)) {
+    const element = createElement(statement, statement.name.text, 'interface', sourceFile, statement.members);
+    Object.assign(element, getHeritage(statement));
+    return [element];
+  }
+
+  if (ts.isTypeAliasDeclaration(statement)) {
+    return [createElement(statement, statement.name.text, 'type', sourceFile)];
+  }
+
+  if (ts.isEnumDeclaration(statement)) {
+    return [createElement(statement, statement.name.text, 'enum', sourceFile, statement.members)];
+  }
+
+  if (ts.isVariableStatement(statement)) {
+    const exported = hasExportModifier(statement);
+    const elements: CodeElement[] = [];
+
+    for (const declaration of statement.declarationList.declarations) {
+      if (!ts.isIdentifier(declaration.name)) continue;
+
+      const initializer = declaration.initializer && unwrapExpression(declaration.initializer);
+      const isFunction = !!initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+
+      // Arrow functions and components always count; other values only when they are part of the public surface
+      if (!isFunction && !exported) continue;
+
+      // A single declaration spans the whole statement so the keyword and JSDoc are kept
+      const node = statement.declarationList.declarations.length === 1 ? statement : declaration;
+      const body = isFunction ? (initializer as ts.ArrowFunction | ts.FunctionExpression).body : undefined;
+      const element = createElement(node, declaration.name.text, isFunction ? 'function' : 'variable', sourceFile, body);
+      element.exported = exported;
+      elements.push(element);
+    }
+
+    return elements;
+  }
+
+  // namespace Foo { ... }
+  if (ts.isModuleDeclaration(statement) && statement.body && ts.isModuleBlock(statement.body)) {
+    return statement.body.statements.flatMap(inner => extractStatement(inner, sourceFile));
+  }
+
+  return [];
+}
+
+function extractClassMembers(declaration: ts.ClassDeclaration, sourceFile: ts.SourceFile): CodeElement[] {
+  const members: CodeElement[] = [];
+
+  for (const member of declaration.members) {
+    if (ts.isConstructorDeclaration(member)) {
+      members.push(createElement(member, 'constructor', 'method', sourceFile, member.body));
+    } else if ((ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) &&
+               member.name) {
+      members.push(createElement(member, getMemberName(member.name, sourceFile), 'method', sourceFile, member.body));
+    } else if (ts.isPropertyDeclaration(member) && member.initializer) {
+      // Arrow function properties behave like methods
+      const initializer = unwrapExpression(member.initializer);
+      if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+        members.push(createElement(member, getMemberName(member.name, sourceFile), 'method', sourceFile, initializer.body));
+      }
+    }
+  }
+
+  return members;
+}
+
+function createElement(
+  node: ts.Node,
+  name: string,
+  type: CodeElement['type'],
+  sourceFile: ts.SourceFile,
+  body?: ts.Node | ts.NodeArray<ts.Node>
+): CodeElement {
+  const start = node.getStart(sourceFile);
+  const end = node.getEnd();
+
+  return {
+    name,
+    type,
+    content: node.getText(sourceFile),
+    lineStart: sourceFile.getLineAndCharacterOfPosition(start).line + 1,
+    lineEnd: sourceFile.getLineAndCharacterOfPosition(end).line + 1,
+    signature: getSignature(node, sourceFile, body),
+    docComment: getDocComment(node, sourceFile),
+    exported: hasExportModifier(node),
+    children: [],
+  };
+}
+
+// Declaration text up to the body, with whitespace collapsed
+function getSignature(node: ts.Node, sourceFile: ts.SourceFile, body?: ts.Node | ts.NodeArray<ts.Node>): string {
+  const start = node.getStart(sourceFile);
+  let end = node.getEnd();
+
+  if (body) {
+    // Node arrays (class/interface members) start after the opening brace
+    const bodyStart = 'kind' in body ? body.getStart(sourceFile) : body.pos - 1;
+    end = Math.max(start, bodyStart);
+  }
+
+  const signature = sourceFile.text.slice(start, end).replace(/\s+/g, ' ').replace(/\s*=>\s*$/, '').trim();
+  return signature.length > 300 ? `${signature.slice(0, 297)}...` : signature;
+}
+
+function getDocComment(node: ts.Node, sourceFile: ts.SourceFile): string | undefined {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  if (docs.length === 0) return undefined;
+
+  return docs
+    .map(doc => doc.getText(sourceFile)
+      .replace(/^\/\*\*\s*/, '')
+      .replace(/\s*\*\/$/, '')
+      .split('\n')
+      .map(line => line.replace(/^\s*\* ?/, ''))
+      .join('\n')
+      .trim())
+    .join('\n');
+}
+
+function getHeritage(declaration: ts.ClassDeclaration | ts.InterfaceDeclaration): { extends?: string[]; implements?: string[] } {
+  const heritage: { extends?: string[]; implements?: string[] } = {};
+
+  for (const clause of declaration.heritageClauses || []) {
+    const names = clause.types.map(type => type.expression.getText());
+    if (clause.token === ts.SyntaxKind.ExtendsKeyword) {
+      heritage.extends = names;
+    } else {
+      heritage.implements = names;
+    }
+  }
+
+  return heritage;
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) || []).some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+function getMemberName(name: ts.PropertyName, sourceFile: ts.SourceFile): string {
+  return ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) ? name.text : name.getText(sourceFile);
+}
+
+// Strip parentheses, `as` casts and `satisfies` around an initializer
+function unwrapExpression(expression: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression) || ts.isSatisfiesExpression(expression)) {
+    expression = expression.expression;
+  }
+  return expression;
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+  if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (fileName.endsWith('.js') || fileName.endsWith('.mjs') || fileName.endsWith('.cjs')) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
@@ -0,0 +1,297 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { GuidanceManager } from './guidance-manager.js';
+
+describe('GuidanceManager', () => {
+  let directory: string;
+  let manager: GuidanceManager;
+
+  beforeEach(async () => {
+    directory = mkdtempSync(path.join(tmpdir(), 'guidance-manager-'));
+    manager = new GuidanceManager(directory);
+    await manager.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const create = (title: string = 'Checkout') => manager.createGuidance({
+    title,
+    objective: 'Split checkout into steps.\n\n# Background\nOne page today.',
+    technicalConstraints: ['Keep the REST API:\n\n  - v1\n  - v2'],
+    workRules: ['Write tests first'],
+    completionCriteria: ['All steps render'],
+    tags: ['web'],
+  });
+
+  describe('Markdown import', () => {
+    it('keeps the version when an unedited export is imported', async () => {
+      const guidance = await create();
+      await manager.addSubtask({ guidanceId: guidance.id, title: 'Address step', description: 'Move fields.\n\nKeep autofill.' });
+      const exported = await manager.exportGuidance(guidance.id);
+      const before = await manager.getGuidance(guidance.id);
+      const versions = await manager.listVersions(guidance.id);
+
+      const { guidance: imported, created, changed } = await manager.importGuidance(exported);
+
+      expect({ created, changed }).toEqual({ created: false, changed: false });
+      expect(imported).toEqual(before);
+      expect(await manager.listVersions(guidance.id)).toEqual(versions);
+      expect(await manager.getGuidance(guidance.id)).toEqual(before);
+    });
+
+    it('saves an edited export as a new version', async () => {
+      const guidance = await create();
+      const exported = await manager.exportGuidance(guidance.id);
+
+      const { guidance: imported, changed } = await manager.importGuidance(exported.replace('Write tests first', 'Pair on reviews'));
+
+      expect(changed).toBe(true);
+      expect(imported.workRules).toEqual(['Pair on reviews']);
+      expect(imported.metadata.version).not.toBe(guidance.metadata.version);
+    });
+
+    it('creates a guidance from Markdown without an ID', async () => {
+      const { guidance, created } = await manager.importGuidance('---\ntags: [api]\n---\n# New\n## Objective\nDo it\n');
+
+      expect(created).toBe(true);
+      expect(await manager.getGuidance(guidance.id)).toMatchObject({ title: 'New', objective: 'Do it' });
+    });
+  });
+
+  describe('completion criteria', () => {
+    it('numbers new criteria sequentially', async () => {
+      const guidance = await manager.createGuidance({
+        title: 'Checkout',
+        objective: 'Split checkout',
+        completionCriteria: ['All steps render', 'All steps render', 'Totals match'],
+      });
+
+      expect(guidance.completionCriteria.map(criterion => criterion.id)).toEqual(['c1', 'c2', 'c3']);
+    });
+
+    it('keeps the ID, status and evidence when a description is edited', async () => {
+      const guidance = await create();
+      await manager.markCriterion({ guidanceId: guidance.id, criterionId: 'c1', status: 'met', evidence: { tests: ['steps.test.ts'] } });
+
+      const updated = await manager.updateGuidance({
+        id: guidance.id,
+        completionCriteria: [{ id: 'c1', description: 'Every step renders' }, 'Totals match'],
+      });
+
+      expect(updated.completionCriteria).toMatchObject([
+        { id: 'c1', description: 'Every step renders', status: 'met', evidence: { tests: ['steps.test.ts'] } },
+        { id: 'c2', description: 'Totals match', status: 'pending' },
+      ]);
+    });
+
+    it('does not reuse the IDs of inherited criteria', async () => {
+      const parent = await create('Template');
+      const child = await manager.createGuidance({
+        title: 'Checkout',
+        objective: 'Split checkout',
+        parentId: parent.id,
+        completionCriteria: ['Totals match'],
+      });
+
+      const resolved = await manager.resolveGuidance(child.id);
+
+      expect(resolved?.completionCriteria.map(criterion => [criterion.id, criterion.description])).toEqual([
+        ['c1', 'All steps render'],
+        ['c2', 'Totals match'],
+      ]);
+    });
+
+    describe('saved before criteria had IDs', () => {
+      // Rewrite a stored file as an older version would have written it
+      const stripIds = (file: string, completionCriteria: unknown[]) => {
+        const stored = JSON.parse(readFileSync(file, 'utf-8'));
+        writeFileSync(file, JSON.stringify({ ...stored, completionCriteria }));
+      };
+      const summaryOf = (id: string) => path.join(directory, id, 'summary.json');
+
+      it('numbers them across guidances on startup and keeps the numbers', async () => {
+        const parent = await create('Template');
+        const child = await manager.createGuidance({ title: 'Checkout', objective: 'Split checkout', parentId: parent.id });
+        stripIds(summaryOf(parent.id), ['All steps render']);
+        stripIds(summaryOf(child.id), ['Totals match', { description: 'Errors are shown', status: 'met' }]);
+
+        manager = new GuidanceManager(directory);
+        await manager.initialize();
+        const resolved = await manager.resolveGuidance(child.id);
+
+        expect(resolved?.completionCriteria.map(criterion => criterion.description))
+          .toEqual(['All steps render', 'Totals match', 'Errors are shown']);
+        expect(new Set(resolved?.completionCriteria.map(criterion => criterion.id)).size).toBe(3);
+        expect(resolved?.completionCriteria[2].status).toBe('met');
+        expect(JSON.parse(readFileSync(summaryOf(child.id), 'utf-8')).completionCriteria)
+          .toEqual(resolved?.completionCriteria.slice(1));
+
+        const marked = await manager.markCriterion({ guidanceId: child.id, criterionId: resolved!.completionCriteria[1].id, status: 'met' });
+        expect(marked.description).toBe('Totals match');
+        expect((await manager.getGuidance(parent.id))?.completionCriteria[0].status).toBe('pending');
+      });
+
+      it('gives older versions the IDs of current criteria with the same description', async () => {
+        const guidance = await create();
+        const initial = guidance.metadata.version;
+        await manager.updateGuidance({ id: guidance.id, completionCriteria: ['All steps render', 'Totals match'] });
+        stripIds(path.join(directory, guidance.id, 'versions', `${initial}.json`), ['All steps render']);
+
+        const diff = await manager.diffGuidance(guidance.id, initial);
+
+        expect(diff.changes).toEqual([{ field: 'completionCriteria', added: ['Totals match'], removed: [] }]);
+      });
+    });
+  });
+
+  describe('templates', () => {
+    const createChain = async () => {
+      const base = await manager.createGuidance({
+        title: 'Web template',
+        objective: 'Ship web features',
+        technicalConstraints: ['Support the last two browser versions'],
+        workRules: ['Write tests first', 'Review every change'],
+        completionCriteria: ['Lint passes'],
+        template: true,
+      });
+      const team = await manager.createGuidance({
+        title: 'Payments template',
+        objective: 'Ship payment features',
+        parentId: base.id,
+        technicalConstraints: ['No floats for money'],
+        workRules: ['Write tests first'],
+        completionCriteria: ['Totals match'],
+        template: true,
+      });
+      const task = await manager.createGuidance({
+        title: 'Refunds',
+        objective: 'Allow partial refunds',
+        parentId: team.id,
+        technicalConstraints: ['No floats for money', 'Refunds never exceed the charge'],
+        completionCriteria: ['Refund emails are sent'],
+      });
+      return { base, team, task };
+    };
+
+    it('merges the parent chain from the root down and drops duplicates', async () => {
+      const { base, team, task } = await createChain();
+
+      const resolved = (await manager.resolveGuidance(task.id))!;
+
+      expect(resolved.ancestors).toEqual([{ id: team.id, title: 'Payments template' }, { id: base.id, title: 'Web template' }]);
+      expect(resolved.technicalConstraints).toEqual([
+        'Support the last two browser versions', 'No floats for money', 'Refunds never exceed the charge',
+      ]);
+      expect(resolved.workRules).toEqual(['Write tests first', 'Review every change']);
+      expect(resolved.completionCriteria.map(criterion => criterion.description))
+        .toEqual(['Lint passes', 'Totals match', 'Refund emails are sent']);
+      // Only resolving merges; the stored guidance keeps its own entries
+      expect((await manager.getGuidance(task.id))!.workRules).toEqual([]);
+    });
+
+    it('records the status of an inherited criterion on the child only', async () => {
+      const { team, task } = await createChain();
+      const inherited = (await manager.resolveGuidance(task.id))!.completionCriteria.find(criterion => criterion.description === 'Totals match')!;
+
+      await manager.markCriterion({ guidanceId: task.id, criterionId: inherited.id, status: 'met' });
+
+      const criteria = (await manager.resolveGuidance(task.id))!.completionCriteria;
+      expect(criteria.filter(criterion => criterion.id === inherited.id)).toEqual([expect.objectContaining({ status: 'met' })]);
+      expect((await manager.resolveGuidance(team.id))!.completionCriteria.find(criterion => criterion.id === inherited.id)?.status)
+        .toBe('pending');
+    });
+
+    it('rejects parents that are missing or would close a cycle', async () => {
+      const { base, task } = await createChain();
+
+      await expect(manager.createGuidance({ title: 'Orphan', objective: 'None', parentId: 'missing' }))
+        .rejects.toThrow('Parent guidance missing not found');
+      await expect(manager.updateGuidance({ id: base.id, parentId: task.id }))
+        .rejects.toThrow(`Setting ${task.id} as parent of ${base.id} would create a cycle`);
+      await expect(manager.updateGuidance({ id: task.id, parentId: task.id }))
+        .rejects.toThrow('would create a cycle');
+      expect((await manager.getGuidance(base.id))!.parentId).toBeUndefined();
+    });
+
+    it('reports a cycle written to disk instead of looping', async () => {
+      const { base, task } = await createChain();
+      const summaryPath = path.join(directory, base.id, 'summary.json');
+      writeFileSync(summaryPath, JSON.stringify({ ...JSON.parse(readFileSync(summaryPath, 'utf-8')), parentId: task.id }));
+
+      await expect(manager.resolveGuidance(task.id)).rejects.toThrow(`Guidance ${task.id} has a cycle in its parent chain`);
+    });
+  });
+
+  describe('versions', () => {
+    it('diffs and rolls back to an earlier version as a new version', async () => {
+      const guidance = await create();
+      const initial = guidance.metadata.version;
+      const updated = await manager.updateGuidance({ id: guidance.id, workRules: ['Pair on reviews'], tags: ['web', 'ux'] });
+
+      const diff = await manager.diffGuidance(guidance.id, initial);
+      expect(diff.changes).toEqual([
+        { field: 'workRules', added: ['Pair on reviews'], removed: ['Write tests first'] },
+        { field: 'tags', added: ['ux'], removed: [] },
+      ]);
+
+      const restored = await manager.rollbackGuidance(guidance.id, initial);
+      expect(restored.workRules).toEqual(['Write tests first']);
+      expect(restored.metadata.restoredFrom).toBe(initial);
+      expect((await manager.listVersions(guidance.id)).map(version => version.version))
+        .toEqual([initial, updated.metadata.version, restored.metadata.version]);
+    });
+  });
+
+  describe('subtasks', () => {
+    it('offers the first pending subtask whose dependencies are finished', async () => {
+      const guidance = await create();
+      const address = await manager.addSubtask({ guidanceId: guidance.id, title: 'Address step' });
+      const payment = await manager.addSubtask({ guidanceId: guidance.id, title: 'Payment step', dependsOn: [address.id] });
+      const review = await manager.addSubtask({ guidanceId: guidance.id, title: 'Review step', assignee: 'sam', position: 1 });
+
+      expect((await manager.getGuidance(guidance.id))?.subtasks.map(subtask => subtask.id)).toEqual([review.id, address.id, payment.id]);
+      expect((await manager.getNextSubtask(guidance.id, 'alex'))?.id).toBe(address.id);
+
+      await manager.updateSubtask({ guidanceId: guidance.id, subtaskId: address.id, status: 'done' });
+      expect((await manager.getNextSubtask(guidance.id, 'alex'))?.id).toBe(payment.id);
+    });
+
+    it('rejects dependencies on unknown subtasks', async () => {
+      const guidance = await create();
+
+      await expect(manager.addSubtask({ guidanceId: guidance.id, title: 'Payment step', dependsOn: ['t9'] }))
+        .rejects.toThrow('depends on unknown subtask t9');
+    });
+  });
+
+  describe('listGuidances', () => {
+    it('pages through every match once with cursors', async () => {
+      for (const title of ['Delta', 'Alpha', 'Echo', 'Charlie', 'Bravo']) {
+        await create(title);
+      }
+
+      const titles: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await manager.listGuidances({ sortBy: 'title', limit: 2, cursor });
+        expect(page.total).toBe(5);
+        titles.push(...page.items.map(item => item.title));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(titles).toEqual(['Alpha', 'Bravo', 'Charlie', 'Delta', 'Echo']);
+    });
+
+    it('filters by tag and text', async () => {
+      await create('Checkout');
+      await manager.createGuidance({ title: 'Search', objective: 'Rank results by price', tags: ['api'] });
+
+      const page = await manager.listGuidances({ tags: ['api'], text: 'price' });
+
+      expect(page.items.map(item => item.title)).toEqual(['Search']);
+    });
+  });
+});
@@ -1,10 +1,51 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { isDeepStrictEqual } from 'util';
 import { v4 as uuidv4 } from 'uuid';
-import { GuidanceSummary, GuidanceSummarySchema, CreateGuidanceParams, UpdateGuidanceParams } from '../types/index.js';
+import {
+  GuidanceSummary,
+  GuidanceSummarySchema,
+  CreateGuidanceParams,
+  UpdateGuidanceParams,
+  GuidanceVersion,
+  GuidanceDiff,
+  GuidanceFieldChange,
+  ResolvedGuidance,
+  CompletionCriterion,
+  CompletionCriterionInput,
+  CompletionCriterionSchema,
+  NewCompletionCriterion,
+  assignCriterionIds,
+  CriteriaProgress,
+  MarkCriterionParams,
+  Subtask,
+  AddSubtaskParams,
+  UpdateSubtaskParams,
+  GuidanceIndexEntry,
+  GuidanceListPage,
+  GuidanceSortField,
+  ListGuidancesParams,
+} from '../types/index.js';
+import { formatGuidanceMarkdown, parseGuidanceMarkdown } from './guidance-markdown.js';
+
+const INITIAL_VERSION = '1.0.0';
+
+// Fields compared by diffGuidance; list fields are diffed entry by entry
+const SCALAR_FIELDS = ['title', 'objective', 'parentId', 'priority'] as const;
+const LIST_FIELDS = ['technicalConstraints', 'workRules', 'tags'] as const;
+
+// Fields merged from the parent chain, ancestors' entries first; completion criteria are merged by ID
+const INHERITED_FIELDS = ['technicalConstraints', 'workRules'] as const;
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const PRIORITY_RANK = { low: 0, medium: 1, high: 2 };
 
 export class GuidanceManager {
   private guidanceDir: string;
+  // Loaded from index.json on first use; rebuilt from the guidance directories when the file is missing
+  private index: Map<string, GuidanceIndexEntry> | null = null;
 
   constructor(guidanceDir: string = './guidance') {
     this.guidanceDir = guidanceDir;
@@ -18,25 +59,60 @@ export class GuidanceManager {
       console.error('Failed to initialize guidance directory:', error);
       throw error;
     }
+
+    await this.numberLegacyCriteria();
+  }
+
+  // Guidances saved before criteria had IDs get them once, numbered after every ID in use, so criteria never
+  // share an ID with those of another guidance they may inherit from
+  private async numberLegacyCriteria(): Promise<void> {
+    const legacy: Array<{ guidance: any; criteria: NewCompletionCriterion[] }> = [];
+    const takenIds: string[] = [];
+
+    for (const entry of await fs.readdir(this.guidanceDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      try {
+        const guidance = JSON.parse(await fs.readFile(path.join(this.guidanceDir, entry.name, 'summary.json'), 'utf-8'));
+        const criteria = parseStoredCriteria(guidance.completionCriteria);
+        takenIds.push(...criteria.flatMap(criterion => criterion.id ? [criterion.id] : []));
+        if (criteria.some(criterion => !criterion.id)) {
+          legacy.push({ guidance, criteria });
+        }
+      } catch (error) {
+        // Not a guidance directory, or a summary getGuidance cannot read either
+      }
+    }
+
+    for (const { guidance, criteria } of legacy) {
+      const completionCriteria = assignCriterionIds(criteria, takenIds);
+      takenIds.push(...completionCriteria.map(criterion => criterion.id));
+      await this.saveGuidance(GuidanceSummarySchema.parse({ ...guidance, completionCriteria }));
+    }
   }
 
   async createGuidance(params: CreateGuidanceParams): Promise<GuidanceSummary> {
     const id = uuidv4();
     const now = new Date().toISOString();
+    if (params.parentId) {
+      await this.validateParent(id, params.parentId);
+    }
     
     const guidance: GuidanceSummary = {
       id,
       title: params.title,
       objective: params.objective,
-      technicalConstraints: params.technicalConstraints,
-      workRules: params.workRules,
-      completionCriteria: params.completionCriteria,
+      technicalConstraints: params.technicalConstraints || [],
+      workRules: params.workRules || [],
+      completionCriteria: assignCriterionIds(parseCriteria(params.completionCriteria || []), await this.criterionIdsInUse()),
+      parentId: params.parentId || undefined,
+      subtasks: [],
       metadata: {
         createdAt: now,
         updatedAt: now,
-        version: '1.0.0',
+        version: INITIAL_VERSION,
         tags: params.tags || [],
         priority: params.priority || 'medium',
+        template: params.template || undefined,
       },
     };
 
@@ -44,11 +120,7 @@ export class GuidanceManager {
     const validatedGuidance = GuidanceSummarySchema.parse(guidance);
 
     // Save as summary.json file
-    const guidancePath = path.join(this.guidanceDir, id);
-    await fs.mkdir(guidancePath, { recursive: true });
-    
-    const summaryPath = path.join(guidancePath, 'summary.json');
-    await fs.writeFile(summaryPath, JSON.stringify(validatedGuidance, null, 2));
+    await this.saveGuidance(validatedGuidance);
 
     return validatedGuidance;
   }
@@ -59,27 +131,201 @@ export class GuidanceManager {
       throw new Error(`Guidance with ID ${params.id} not found`);
     }
 
+    const parentId = params.parentId === undefined ? existingGuidance.parentId : params.parentId || undefined;
+    if (parentId && parentId !== existingGuidance.parentId) {
+      await this.validateParent(params.id, parentId);
+    }
+
+    let completionCriteria = existingGuidance.completionCriteria;
+    if (params.completionCriteria) {
+      completionCriteria = assignCriterionIds(
+        parseCriteria(params.completionCriteria, existingGuidance.completionCriteria),
+        await this.criterionIdsInUse()
+      );
+      // Statuses recorded for inherited criteria are not part of the given list and stay
+      const inherited = new Set((await this.getAncestors(existingGuidance))
+        .flatMap(ancestor => ancestor.completionCriteria.map(criterion => criterion.id)));
+      completionCriteria.push(...existingGuidance.completionCriteria.filter(criterion =>
+        inherited.has(criterion.id) && !completionCriteria.some(entry => entry.id === criterion.id)
+      ));
+    }
+
     const updatedGuidance: GuidanceSummary = {
       ...existingGuidance,
       title: params.title ?? existingGuidance.title,
       objective: params.objective ?? existingGuidance.objective,
       technicalConstraints: params.technicalConstraints ?? existingGuidance.technicalConstraints,
       workRules: params.workRules ?? existingGuidance.workRules,
-      completionCriteria: params.completionCriteria ?? existingGuidance.completionCriteria,
+      completionCriteria,
+      parentId,
       metadata: {
         ...existingGuidance.metadata,
         updatedAt: new Date().toISOString(),
+        version: bumpVersion(existingGuidance.metadata.version),
         tags: params.tags ?? existingGuidance.metadata.tags,
         priority: params.priority ?? existingGuidance.metadata.priority,
+        restoredFrom: undefined,
+        template: params.template === undefined ? existingGuidance.metadata.template : params.template || undefined,
       },
     };
 
     // Validation
     const validatedGuidance = GuidanceSummarySchema.parse(updatedGuidance);
 
-    // Update file
-    const summaryPath = path.join(this.guidanceDir, params.id, 'summary.json');
-    await fs.writeFile(summaryPath, JSON.stringify(validatedGuidance, null, 2));
+    // Update file; guidances saved before versioning get a snapshot of their last state first
+    await this.ensureSnapshot(existingGuidance);
+    await this.saveGuidance(validatedGuidance);
+
+    return validatedGuidance;
+  }
+
+  // Versions of a guidance, oldest first
+  async listVersions(id: string): Promise<GuidanceVersion[]> {
+    const current = await this.getGuidance(id);
+    if (!current) {
+      throw new Error(`Guidance with ID ${id} not found`);
+    }
+    await this.ensureSnapshot(current);
+
+    const files = await fs.readdir(this.getVersionsPath(id));
+    const versions: GuidanceVersion[] = [];
+    for (const file of files.filter(file => file.endsWith('.json'))) {
+      const snapshot = await this.getVersion(id, file.slice(0, -'.json'.length));
+      if (!snapshot) continue;
+
+      versions.push({
+        version: snapshot.metadata.version,
+        updatedAt: snapshot.metadata.updatedAt,
+        title: snapshot.title,
+        restoredFrom: snapshot.metadata.restoredFrom,
+      });
+    }
+
+    return versions.sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  async getVersion(id: string, version: string): Promise<GuidanceSummary | null> {
+    try {
+      const snapshotPath = this.getSnapshotPath(id, version);
+      const snapshot = JSON.parse(await fs.readFile(snapshotPath, 'utf-8'));
+      const criteria = parseStoredCriteria(snapshot.completionCriteria);
+      if (criteria.every(criterion => criterion.id)) {
+        return GuidanceSummarySchema.parse(snapshot);
+      }
+
+      // Versions saved before criteria had IDs take those of current criteria with the same description
+      const unmatched = [...((await this.getGuidance(id))?.completionCriteria || [])];
+      const matched = criteria.map(criterion => {
+        const match = criterion.id ? undefined : unmatched.find(entry => entry.description === criterion.description);
+        if (match) unmatched.splice(unmatched.indexOf(match), 1);
+        return match ? { ...criterion, id: match.id } : criterion;
+      });
+      const numbered = GuidanceSummarySchema.parse({
+        ...snapshot,
+        completionCriteria: assignCriterionIds(matched, await this.criterionIdsInUse()),
+      });
+      // Kept, so the numbers stay the same on the next read
+      await fs.writeFile(snapshotPath, JSON.stringify(numbered, null, 2));
+      return numbered;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Field-level changes from one version to another (default: the current version)
+  async diffGuidance(id: string, fromVersion: string, toVersion?: string): Promise<GuidanceDiff> {
+    const from = await this.resolveVersion(id, fromVersion);
+    const to = await this.resolveVersion(id, toVersion);
+    const changes: GuidanceFieldChange[] = [];
+
+    for (const field of SCALAR_FIELDS) {
+      const before = field === 'priority' ? from.metadata.priority : from[field];
+      const after = field === 'priority' ? to.metadata.priority : to[field];
+      if (before !== after) {
+        changes.push({ field, from: before, to: after });
+      }
+    }
+
+    for (const field of LIST_FIELDS) {
+      const before = (field === 'tags' ? from.metadata.tags : from[field]) || [];
+      const after = (field === 'tags' ? to.metadata.tags : to[field]) || [];
+      const added = after.filter(entry => !before.includes(entry));
+      const removed = before.filter(entry => !after.includes(entry));
+      if (added.length > 0 || removed.length > 0) {
+        changes.push({ field, added, removed });
+      }
+    }
+
+    // Criteria are matched by ID, so status changes show up separately from added and removed criteria
+    const fromCriteria = new Map(from.completionCriteria.map(criterion => [criterion.id, criterion]));
+    const toCriteria = new Map(to.completionCriteria.map(criterion => [criterion.id, criterion]));
+    const added = to.completionCriteria.filter(criterion => !fromCriteria.has(criterion.id));
+    const removed = from.completionCriteria.filter(criterion => !toCriteria.has(criterion.id));
+    if (added.length > 0 || removed.length > 0) {
+      changes.push({
+        field: 'completionCriteria',
+        added: added.map(criterion => criterion.description),
+        removed: removed.map(criterion => criterion.description),
+      });
+    }
+    for (const criterion of to.completionCriteria) {
+      const before = fromCriteria.get(criterion.id);
+      if (before && before.status !== criterion.status) {
+        changes.push({ field: `completionCriteria[${criterion.id}].status`, from: before.status, to: criterion.status });
+      }
+    }
+
+    const fromSubtasks = new Map(from.subtasks.map(subtask => [subtask.id, subtask]));
+    const toSubtasks = new Map(to.subtasks.map(subtask => [subtask.id, subtask]));
+    const addedSubtasks = to.subtasks.filter(subtask => !fromSubtasks.has(subtask.id));
+    const removedSubtasks = from.subtasks.filter(subtask => !toSubtasks.has(subtask.id));
+    if (addedSubtasks.length > 0 || removedSubtasks.length > 0) {
+      changes.push({
+        field: 'subtasks',
+        added: addedSubtasks.map(subtask => `${subtask.id}: ${subtask.title}`),
+        removed: removedSubtasks.map(subtask => `${subtask.id}: ${subtask.title}`),
+      });
+    }
+    for (const subtask of to.subtasks) {
+      const before = fromSubtasks.get(subtask.id);
+      if (before && before.status !== subtask.status) {
+        changes.push({ field: `subtasks[${subtask.id}].status`, from: before.status, to: subtask.status });
+      }
+    }
+
+    return {
+      guidanceId: id,
+      fromVersion: from.metadata.version,
+      toVersion: to.metadata.version,
+      changes,
+    };
+  }
+
+  // Restore the content of an earlier version as a new version, so the history stays intact
+  async rollbackGuidance(id: string, version: string): Promise<GuidanceSummary> {
+    const current = await this.getGuidance(id);
+    if (!current) {
+      throw new Error(`Guidance with ID ${id} not found`);
+    }
+    const target = await this.resolveVersion(id, version);
+    if (target.parentId && target.parentId !== current.parentId) {
+      await this.validateParent(id, target.parentId);
+    }
+
+    const restoredGuidance: GuidanceSummary = {
+      ...target,
+      metadata: {
+        ...target.metadata,
+        createdAt: current.metadata.createdAt,
+        updatedAt: new Date().toISOString(),
+        version: bumpVersion(current.metadata.version),
+        restoredFrom: target.metadata.version,
+      },
+    };
+
+    const validatedGuidance = GuidanceSummarySchema.parse(restoredGuidance);
+    await this.ensureSnapshot(current);
+    await this.saveGuidance(validatedGuidance);
 
     return validatedGuidance;
   }
@@ -95,34 +341,278 @@ export class GuidanceManager {
     }
   }
 
-  async listGuidances(): Promise<GuidanceSummary[]> {
-    try {
-      const entries = await fs.readdir(this.guidanceDir, { withFileTypes: true });
-      const guidanceDirs = entries
-        .filter(entry => entry.isDirectory())
-        .map(entry => entry.name);
+  // The guidance with the constraints, rules and criteria of its parent chain merged in, duplicates dropped
+  async resolveGuidance(id: string): Promise<ResolvedGuidance | null> {
+    const guidance = await this.getGuidance(id);
+    if (!guidance) return null;
 
-      const guidances: GuidanceSummary[] = [];
-      for (const dir of guidanceDirs) {
-        const guidance = await this.getGuidance(dir);
-        if (guidance) {
-          guidances.push(guidance);
+    const ancestors = await this.getAncestors(guidance);
+    const resolved: ResolvedGuidance = {
+      ...guidance,
+      ancestors: ancestors.map(ancestor => ({ id: ancestor.id, title: ancestor.title })),
+    };
+
+    for (const field of INHERITED_FIELDS) {
+      const entries = [...ancestors].reverse().flatMap(ancestor => ancestor[field]);
+      resolved[field] = [...new Set([...entries, ...guidance[field]])];
+    }
+
+    // A local criterion with an inherited criterion's ID records its status for this guidance
+    const criteria = new Map<string, CompletionCriterion>();
+    for (const source of [...[...ancestors].reverse(), guidance]) {
+      for (const criterion of source.completionCriteria) {
+        criteria.set(criterion.id, criterion);
+      }
+    }
+    resolved.completionCriteria = [...criteria.values()];
+
+    return resolved;
+  }
+
+  // Update the status and evidence of a criterion; an inherited criterion is copied into the guidance first
+  async markCriterion(params: MarkCriterionParams): Promise<CompletionCriterion> {
+    const existingGuidance = await this.getGuidance(params.guidanceId);
+    const resolved = await this.resolveGuidance(params.guidanceId);
+    if (!existingGuidance || !resolved) {
+      throw new Error(`Guidance with ID ${params.guidanceId} not found`);
+    }
+
+    const criterion = resolved.completionCriteria.find(entry => entry.id === params.criterionId);
+    if (!criterion) {
+      throw new Error(`Criterion ${params.criterionId} not found in guidance ${params.guidanceId}`);
+    }
+
+    const now = new Date().toISOString();
+    const evidence = params.evidence
+      ? {
+          files: mergeEntries(criterion.evidence?.files, params.evidence.files),
+          tests: mergeEntries(criterion.evidence?.tests, params.evidence.tests),
+          notes: params.evidence.notes ?? criterion.evidence?.notes,
         }
+      : criterion.evidence;
+    const markedCriterion: CompletionCriterion = {
+      ...criterion,
+      status: params.status,
+      updatedAt: params.status !== criterion.status ? now : criterion.updatedAt ?? now,
+      evidence,
+    };
+
+    const local = existingGuidance.completionCriteria.some(entry => entry.id === criterion.id);
+    await this.commitChanges(existingGuidance, {
+      completionCriteria: local
+        ? existingGuidance.completionCriteria.map(entry => entry.id === criterion.id ? markedCriterion : entry)
+        : [...existingGuidance.completionCriteria, markedCriterion],
+    });
+
+    return markedCriterion;
+  }
+
+  async addSubtask(params: AddSubtaskParams): Promise<Subtask> {
+    const guidance = await this.getGuidance(params.guidanceId);
+    if (!guidance) {
+      throw new Error(`Guidance with ID ${params.guidanceId} not found`);
+    }
+
+    const now = new Date().toISOString();
+    const subtask: Subtask = {
+      id: `t${Math.max(0, ...guidance.subtasks.map(entry => parseInt(entry.id.slice(1), 10) || 0)) + 1}`,
+      title: params.title,
+      description: params.description,
+      status: 'pending',
+      dependsOn: params.dependsOn || [],
+      assignee: params.assignee || undefined,
+      nodeIds: params.nodeIds || [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const subtasks = placeSubtask(guidance.subtasks, subtask, params.position);
+    validateDependencies(subtasks);
+    await this.commitChanges(guidance, { subtasks });
+
+    return subtask;
+  }
+
+  async updateSubtask(params: UpdateSubtaskParams): Promise<Subtask> {
+    const guidance = await this.getGuidance(params.guidanceId);
+    if (!guidance) {
+      throw new Error(`Guidance with ID ${params.guidanceId} not found`);
+    }
+
+    const existingSubtask = guidance.subtasks.find(subtask => subtask.id === params.subtaskId);
+    if (!existingSubtask) {
+      throw new Error(`Subtask ${params.subtaskId} not found in guidance ${params.guidanceId}`);
+    }
+
+    const subtask: Subtask = {
+      ...existingSubtask,
+      title: params.title ?? existingSubtask.title,
+      description: params.description ?? existingSubtask.description,
+      status: params.status ?? existingSubtask.status,
+      dependsOn: params.dependsOn ?? existingSubtask.dependsOn,
+      assignee: params.assignee === undefined ? existingSubtask.assignee : params.assignee || undefined,
+      nodeIds: params.nodeIds ?? existingSubtask.nodeIds,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const position = params.position ?? guidance.subtasks.indexOf(existingSubtask) + 1;
+    const subtasks = placeSubtask(guidance.subtasks.filter(entry => entry !== existingSubtask), subtask, position);
+    validateDependencies(subtasks);
+    await this.commitChanges(guidance, { subtasks });
+
+    return subtask;
+  }
+
+  // The first subtask in order that is not finished and whose dependencies are all done or skipped.
+  // With an assignee, subtasks assigned to someone else are passed over.
+  async getNextSubtask(guidanceId: string, assignee?: string): Promise<Subtask | null> {
+    const guidance = await this.getGuidance(guidanceId);
+    if (!guidance) {
+      throw new Error(`Guidance with ID ${guidanceId} not found`);
+    }
+
+    const finished = new Set(guidance.subtasks.filter(isFinished).map(subtask => subtask.id));
+    return guidance.subtasks.find(subtask =>
+      !isFinished(subtask) &&
+      subtask.dependsOn.every(dependency => finished.has(dependency)) &&
+      (!assignee || !subtask.assignee || subtask.assignee === assignee)
+    ) || null;
+  }
+
+  // The guidance as it is stored (inherited entries are not merged in), as Markdown with YAML front matter
+  async exportGuidance(id: string): Promise<string> {
+    const guidance = await this.getGuidance(id);
+    if (!guidance) {
+      throw new Error(`Guidance with ID ${id} not found`);
+    }
+    return formatGuidanceMarkdown(guidance);
+  }
+
+  // Create a guidance from exported Markdown, or save it as a new version when its ID already exists
+  // and the content differs
+  async importGuidance(markdown: string): Promise<{ guidance: GuidanceSummary; created: boolean; changed: boolean }> {
+    const content = parseGuidanceMarkdown(markdown);
+    const existingGuidance = content.id ? await this.getGuidance(content.id) : null;
+    const id = content.id || uuidv4();
+    const now = new Date().toISOString();
+
+    if (content.parentId && content.parentId !== existingGuidance?.parentId) {
+      await this.validateParent(id, content.parentId);
+    }
+
+    // Criteria keep their timestamp while their status is unchanged; subtasks get missing timestamps
+    const previousCriteria = new Map(existingGuidance?.completionCriteria.map(criterion => [criterion.id, criterion]));
+    const completionCriteria = assignCriterionIds(content.completionCriteria.map(criterion => {
+      const previous = criterion.id ? previousCriteria.get(criterion.id) : undefined;
+      const unchanged = previous?.status === criterion.status;
+      return {
+        ...criterion,
+        updatedAt: criterion.updatedAt ?? (unchanged ? previous.updatedAt : criterion.status !== 'pending' ? now : undefined),
+      };
+    }), await this.criterionIdsInUse());
+
+    const subtasks = content.subtasks.map(subtask => ({
+      ...subtask,
+      createdAt: subtask.createdAt || now,
+      updatedAt: subtask.updatedAt || now,
+    }));
+    validateDependencies(subtasks);
+
+    const fields = {
+      title: content.title,
+      objective: content.objective,
+      technicalConstraints: content.technicalConstraints,
+      workRules: content.workRules,
+      completionCriteria,
+      subtasks,
+      parentId: content.parentId,
+    };
+    const metadata = {
+      tags: content.tags,
+      priority: content.priority,
+      template: content.template || undefined,
+    };
+
+    if (existingGuidance) {
+      // Re-importing an unedited export keeps the current version
+      const imported = { ...existingGuidance, ...fields, metadata: { ...existingGuidance.metadata, ...metadata } };
+      if (sameContent(GuidanceSummarySchema.parse(imported), GuidanceSummarySchema.parse(existingGuidance))) {
+        return { guidance: existingGuidance, created: false, changed: false };
       }
+      return { guidance: await this.commitChanges(existingGuidance, fields, metadata), created: false, changed: true };
+    }
 
-      return guidances.sort((a, b) => 
-        new Date(b.metadata.updatedAt).getTime() - new Date(a.metadata.updatedAt).getTime()
-      );
-    } catch (error) {
-      console.error('Failed to retrieve guidance list:', error);
-      return [];
+    const guidance = GuidanceSummarySchema.parse({
+      id,
+      ...fields,
+      metadata: { createdAt: now, updatedAt: now, version: INITIAL_VERSION, ...metadata },
+    });
+    await this.saveGuidance(guidance);
+    return { guidance, created: true, changed: true };
+  }
+
+  // Filtered, sorted page of the guidance index (default: most recently updated first)
+  async listGuidances(params: ListGuidancesParams = {}): Promise<GuidanceListPage> {
+    const index = await this.loadIndex();
+    const sortBy = params.sortBy || 'updatedAt';
+    const order = params.order || (sortBy === 'title' ? 'asc' : 'desc');
+    const limit = Math.min(Math.max(params.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const words = (params.text || '').toLowerCase().split(/\s+/).filter(Boolean);
+    const since = params.updatedSince ? new Date(params.updatedSince).getTime() : undefined;
+    if (since !== undefined && isNaN(since)) {
+      throw new Error(`Invalid updatedSince timestamp: ${params.updatedSince}`);
     }
+
+    const compare = (a: GuidanceIndexEntry, b: GuidanceIndexEntry) =>
+      compareEntries(sortKey(a, sortBy), a.id, sortKey(b, sortBy), b.id) * (order === 'asc' ? 1 : -1);
+
+    const matching = [...index.values()]
+      .filter(entry =>
+        (!params.tags?.length || params.tags.every(tag => entry.tags.includes(tag))) &&
+        (!params.priority || entry.priority === params.priority) &&
+        (params.template === undefined || !!entry.template === params.template) &&
+        (since === undefined || new Date(entry.updatedAt).getTime() >= since) &&
+        words.every(word => `${entry.title}\n${entry.objective}`.toLowerCase().includes(word))
+      )
+      .sort(compare);
+
+    // Cursors point at the last entry of the previous page, so pages stay stable while guidances change
+    let start = 0;
+    if (params.cursor) {
+      const cursor = decodeCursor(params.cursor);
+      if (cursor.sortBy !== sortBy || cursor.order !== order) {
+        throw new Error('The cursor belongs to a listing with a different sort order');
+      }
+      const direction = order === 'asc' ? 1 : -1;
+      start = matching.findIndex(entry => compareEntries(sortKey(entry, sortBy), entry.id, cursor.key, cursor.id) * direction > 0);
+      if (start < 0) start = matching.length;
+    }
+
+    const page = matching.slice(start, start + limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map(entry => ({ ...entry, progress: getCriteriaProgress(resolveIndexedCriteria(entry, index)) })),
+      total: matching.length,
+      nextCursor: start + limit < matching.length && last
+        ? encodeCursor({ sortBy, order, key: sortKey(last, sortBy), id: last.id })
+        : undefined,
+    };
   }
 
   async deleteGuidance(id: string): Promise<boolean> {
+    const children = [...(await this.loadIndex()).values()].filter(entry => entry.parentId === id);
+    if (children.length > 0) {
+      throw new Error(`Guidance ${id} is the parent of ${children.map(child => child.id).join(', ')}; detach or delete them first`);
+    }
+
     try {
       const guidancePath = path.join(this.guidanceDir, id);
       await fs.rm(guidancePath, { recursive: true, force: true });
+
+      const index = await this.loadIndex();
+      if (index.delete(id)) {
+        await this.writeIndex();
+      }
       return true;
     } catch (error) {
       console.error('Failed to delete guidance:', error);
@@ -134,7 +624,356 @@ export class GuidanceManager {
     return path.join(this.guidanceDir, id);
   }
 
+  getVersionsPath(id: string): string {
+    return path.join(this.guidanceDir, id, 'versions');
+  }
+
+  // Save changes to a guidance as a new version
+  private async commitChanges(
+    guidance: GuidanceSummary,
+    changes: Partial<Omit<GuidanceSummary, 'metadata'>>,
+    metadata: Partial<GuidanceSummary['metadata']> = {}
+  ): Promise<GuidanceSummary> {
+    const updatedGuidance: GuidanceSummary = {
+      ...guidance,
+      ...changes,
+      metadata: {
+        ...guidance.metadata,
+        ...metadata,
+        updatedAt: new Date().toISOString(),
+        version: bumpVersion(guidance.metadata.version),
+        restoredFrom: undefined,
+      },
+    };
+
+    const validatedGuidance = GuidanceSummarySchema.parse(updatedGuidance);
+    await this.ensureSnapshot(guidance);
+    await this.saveGuidance(validatedGuidance);
+
+    return validatedGuidance;
+  }
+
+  // Criterion IDs of every guidance. New criteria are numbered after all of them, so a guidance's own criteria
+  // never share an ID with those it inherits, whichever parent it has now or later.
+  private async criterionIdsInUse(): Promise<string[]> {
+    const index = await this.loadIndex();
+    return [...index.values()].flatMap(entry => entry.criteria.map(criterion => criterion.id));
+  }
+
+  // Parent chain of a guidance, nearest parent first
+  private async getAncestors(guidance: GuidanceSummary): Promise<GuidanceSummary[]> {
+    const ancestors: GuidanceSummary[] = [];
+    const visited = new Set([guidance.id]);
+
+    for (let parentId = guidance.parentId; parentId; ) {
+      if (visited.has(parentId)) {
+        throw new Error(`Guidance ${guidance.id} has a cycle in its parent chain at ${parentId}`);
+      }
+      visited.add(parentId);
+
+      const parent = await this.getGuidance(parentId);
+      if (!parent) {
+        throw new Error(`Parent guidance ${parentId} of ${guidance.id} not found`);
+      }
+      ancestors.push(parent);
+      parentId = parent.parentId;
+    }
+
+    return ancestors;
+  }
+
+  // The parent must exist and must not have the guidance itself in its chain
+  private async validateParent(id: string, parentId: string): Promise<void> {
+    const parent = await this.getGuidance(parentId);
+    if (!parent) {
+      throw new Error(`Parent guidance ${parentId} not found`);
+    }
+
+    const chain = [parent, ...(await this.getAncestors(parent))];
+    if (chain.some(ancestor => ancestor.id === id)) {
+      throw new Error(`Setting ${parentId} as parent of ${id} would create a cycle`);
+    }
+  }
+
+  // Write summary.json and a snapshot of the version
+  private async saveGuidance(guidance: GuidanceSummary): Promise<void> {
+    const guidancePath = path.join(this.guidanceDir, guidance.id);
+    await fs.mkdir(this.getVersionsPath(guidance.id), { recursive: true });
+
+    const content = JSON.stringify(guidance, null, 2);
+    await fs.writeFile(this.getSnapshotPath(guidance.id, guidance.metadata.version), content);
+    await fs.writeFile(path.join(guidancePath, 'summary.json'), content);
+
+    const index = await this.loadIndex();
+    index.set(guidance.id, toIndexEntry(guidance));
+    await this.writeIndex();
+  }
+
+  private async loadIndex(): Promise<Map<string, GuidanceIndexEntry>> {
+    if (this.index) return this.index;
+
+    try {
+      const content = await fs.readFile(this.getIndexPath(), 'utf-8');
+      const entries: GuidanceIndexEntry[] = JSON.parse(content).entries;
+      this.index = new Map(entries.map(entry => [entry.id, entry]));
+    } catch (error) {
+      await this.rebuildIndex();
+    }
+
+    return this.index!;
+  }
+
+  // Read every guidance directory once to recreate index.json
+  async rebuildIndex(): Promise<number> {
+    const index = new Map<string, GuidanceIndexEntry>();
+
+    try {
+      const entries = await fs.readdir(this.guidanceDir, { withFileTypes: true });
+      for (const entry of entries.filter(entry => entry.isDirectory())) {
+        const guidance = await this.getGuidance(entry.name);
+        if (guidance) {
+          index.set(guidance.id, toIndexEntry(guidance));
+        }
+      }
+    } catch (error) {
+      console.error('Failed to scan guidance directory:', error);
+    }
+
+    this.index = index;
+    await this.writeIndex();
+    return index.size;
+  }
+
+  private async writeIndex(): Promise<void> {
+    const entries = [...(this.index?.values() || [])];
+    await fs.mkdir(this.guidanceDir, { recursive: true });
+    await fs.writeFile(this.getIndexPath(), JSON.stringify({ entries }, null, 2));
+  }
+
+  private getIndexPath(): string {
+    return path.join(this.guidanceDir, 'index.json');
+  }
+
+  private async ensureSnapshot(guidance: GuidanceSummary): Promise<void> {
+    const snapshotPath = this.getSnapshotPath(guidance.id, guidance.metadata.version);
+    try {
+      await fs.access(snapshotPath);
+    } catch {
+      await fs.mkdir(this.getVersionsPath(guidance.id), { recursive: true });
+      await fs.writeFile(snapshotPath, JSON.stringify(guidance, null, 2));
+    }
+  }
+
+  // A stored version, or the current guidance when no version is given
+  private async resolveVersion(id: string, version?: string): Promise<GuidanceSummary> {
+    const current = await this.getGuidance(id);
+    if (!current) {
+      throw new Error(`Guidance with ID ${id} not found`);
+    }
+    if (!version || version === current.metadata.version) {
+      return current;
+    }
+
+    const snapshot = await this.getVersion(id, version);
+    if (!snapshot) {
+      throw new Error(`Version ${version} of guidance ${id} not found`);
+    }
+    return snapshot;
+  }
+
+  private getSnapshotPath(id: string, version: string): string {
+    return path.join(this.getVersionsPath(id), `${path.basename(version)}.json`);
+  }
+
   getMetadataPath(id: string): string {
     return path.join(this.guidanceDir, 'metadata', `${id}.vec`);
   }
 }
+
+// Equal once serialized, so absent and undefined fields compare alike
+function sameContent(a: GuidanceSummary, b: GuidanceSummary): boolean {
+  return isDeepStrictEqual(JSON.parse(JSON.stringify(a)), JSON.parse(JSON.stringify(b)));
+}
+
+// Each update is a new minor version: 1.0.0 -> 1.1.0
+function bumpVersion(version: string): string {
+  const [major = 1, minor = 0] = version.split('.').map(part => parseInt(part, 10) || 0);
+  return `${major}.${minor + 1}.0`;
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(part => parseInt(part, 10) || 0);
+  const right = b.split('.').map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+export function getCriteriaProgress(criteria: Array<Pick<CompletionCriterion, 'status'>>): CriteriaProgress {
+  const count = (status: CompletionCriterion['status']) => criteria.filter(criterion => criterion.status === status).length;
+  return {
+    total: criteria.length,
+    pending: count('pending'),
+    inProgress: count('in_progress'),
+    met: count('met'),
+    waived: count('waived'),
+  };
+}
+
+// Criteria as read from a file, which may predate criterion IDs
+function parseStoredCriteria(criteria: unknown[] = []): NewCompletionCriterion[] {
+  return criteria.map(criterion => CompletionCriterionSchema.parse(criterion));
+}
+
+// Criteria given with an ID update the existing criterion with that ID; those without one (e.g. plain strings)
+// are matched to an existing criterion by description, or are new and left for assignCriterionIds to number.
+// Criteria given as strings or without a status keep the status of the criterion they match.
+function parseCriteria(inputs: CompletionCriterionInput[], existing: CompletionCriterion[] = []): NewCompletionCriterion[] {
+  const now = new Date().toISOString();
+  const unmatched = [...existing];
+
+  return inputs.map(input => {
+    const criterion = CompletionCriterionSchema.parse(input);
+    const previous = unmatched.find(entry =>
+      criterion.id ? entry.id === criterion.id : entry.description === criterion.description
+    );
+    if (previous) unmatched.splice(unmatched.indexOf(previous), 1);
+
+    if (typeof input === 'string' || !input.status) {
+      return previous
+        ? { ...previous, description: criterion.description, evidence: criterion.evidence ?? previous.evidence }
+        : criterion;
+    }
+    return {
+      ...criterion,
+      id: criterion.id ?? previous?.id,
+      evidence: criterion.evidence ?? previous?.evidence,
+      updatedAt: previous?.status === criterion.status ? previous.updatedAt : now,
+    };
+  });
+}
+
+function toIndexEntry(guidance: GuidanceSummary): GuidanceIndexEntry {
+  return {
+    id: guidance.id,
+    title: guidance.title,
+    objective: guidance.objective,
+    tags: guidance.metadata.tags || [],
+    priority: guidance.metadata.priority || 'medium',
+    template: guidance.metadata.template,
+    parentId: guidance.parentId,
+    createdAt: guidance.metadata.createdAt,
+    updatedAt: guidance.metadata.updatedAt,
+    version: guidance.metadata.version,
+    criteria: guidance.completionCriteria.map(criterion => ({ id: criterion.id, status: criterion.status })),
+    subtasks: { total: guidance.subtasks.length, finished: guidance.subtasks.filter(isFinished).length },
+  };
+}
+
+// Criteria of an entry merged with those of its parent chain, as resolveGuidance does
+function resolveIndexedCriteria(
+  entry: GuidanceIndexEntry,
+  index: Map<string, GuidanceIndexEntry>
+): GuidanceIndexEntry['criteria'] {
+  const chain: GuidanceIndexEntry[] = [];
+  let current: GuidanceIndexEntry | undefined = entry;
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = current.parentId ? index.get(current.parentId) : undefined;
+  }
+
+  const criteria = new Map<string, GuidanceIndexEntry['criteria'][number]>();
+  for (const current of chain) {
+    for (const criterion of current.criteria) {
+      criteria.set(criterion.id, criterion);
+    }
+  }
+  return [...criteria.values()];
+}
+
+function sortKey(entry: GuidanceIndexEntry, sortBy: GuidanceSortField): string | number {
+  switch (sortBy) {
+    case 'title':
+      return entry.title.toLowerCase();
+    case 'priority':
+      return PRIORITY_RANK[entry.priority];
+    default:
+      return entry[sortBy];
+  }
+}
+
+// Ties are broken by ID so the order is total
+function compareEntries(keyA: string | number, idA: string, keyB: string | number, idB: string): number {
+  if (keyA < keyB) return -1;
+  if (keyA > keyB) return 1;
+  return idA < idB ? -1 : idA > idB ? 1 : 0;
+}
+
+interface ListCursor {
+  sortBy: GuidanceSortField;
+  order: 'asc' | 'desc';
+  key: string | number;
+  id: string;
+}
+
+function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): ListCursor {
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+}
+
+export function isFinished(subtask: Subtask): boolean {
+  return subtask.status === 'done' || subtask.status === 'skipped';
+}
+
+// Insert a subtask at a 1-based position, or last
+function placeSubtask(subtasks: Subtask[], subtask: Subtask, position?: number): Subtask[] {
+  const index = position === undefined ? subtasks.length : Math.min(Math.max(position - 1, 0), subtasks.length);
+  return [...subtasks.slice(0, index), subtask, ...subtasks.slice(index)];
+}
+
+// Dependencies must name other subtasks of the guidance and must not form a cycle
+function validateDependencies(subtasks: Subtask[]): void {
+  const byId = new Map(subtasks.map(subtask => [subtask.id, subtask]));
+
+  for (const subtask of subtasks) {
+    for (const dependency of subtask.dependsOn) {
+      if (dependency === subtask.id) {
+        throw new Error(`Subtask ${subtask.id} cannot depend on itself`);
+      }
+      if (!byId.has(dependency)) {
+        throw new Error(`Subtask ${subtask.id} depends on unknown subtask ${dependency}`);
+      }
+    }
+  }
+
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (subtask: Subtask, chain: string[]): void => {
+    if (visited.has(subtask.id)) return;
+    if (visiting.has(subtask.id)) {
+      throw new Error(`Subtask dependencies form a cycle: ${[...chain, subtask.id].join(' -> ')}`);
+    }
+
+    visiting.add(subtask.id);
+    for (const dependency of subtask.dependsOn) {
+      visit(byId.get(dependency)!, [...chain, subtask.id]);
+    }
+    visiting.delete(subtask.id);
+    visited.add(subtask.id);
+  };
+  subtasks.forEach(subtask => visit(subtask, []));
+}
+
+function mergeEntries(existing: string[] = [], added: string[] = []): string[] | undefined {
+  const merged = [...new Set([...existing, ...added])];
+  return merged.length > 0 ? merged : undefined;
+}
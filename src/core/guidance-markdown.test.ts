@@ -0,0 +1,128 @@
+import { GuidanceSummary } from '../types/index.js';
+import { formatGuidanceMarkdown, parseGuidanceMarkdown } from './guidance-markdown.js';
+
+const guidance: GuidanceSummary = {
+  id: 'checkout-flow',
+  title: 'Rework the checkout flow',
+  objective: [
+    'Split checkout into steps.',
+    '',
+    '# Background',
+    'The current form is one page.',
+    '## Not a section',
+    '\\# already escaped',
+  ].join('\n'),
+  technicalConstraints: ['Keep the REST API', 'Use the shared form library:\n\n  - validation\n  - masks'],
+  workRules: ['Write tests first'],
+  completionCriteria: [
+    { id: 'c1', description: 'All steps render', status: 'met', updatedAt: '2026-01-02T00:00:00.000Z', evidence: { files: ['src/checkout.ts'] } },
+    { id: 'c2', description: 'Payment errors are shown', status: 'pending' },
+  ],
+  subtasks: [
+    {
+      id: 't1',
+      title: 'Extract the address step',
+      description: 'Move the fields.\n\nKeep the autofill.',
+      status: 'done',
+      dependsOn: [],
+      nodeIds: ['web/src/checkout.ts#Checkout'],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-02T00:00:00.000Z',
+    },
+    {
+      id: 't2',
+      title: 'Extract the payment step',
+      status: 'in_progress',
+      dependsOn: ['t1'],
+      assignee: 'agent-2',
+      nodeIds: [],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-03T00:00:00.000Z',
+    },
+  ],
+  parentId: 'web-base',
+  metadata: {
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-03T00:00:00.000Z',
+    version: '1.2',
+    tags: ['web', 'checkout flow'],
+    priority: 'high',
+  },
+};
+
+describe('guidance Markdown', () => {
+  it('round-trips every field', () => {
+    const content = parseGuidanceMarkdown(formatGuidanceMarkdown(guidance));
+
+    expect(content).toEqual({
+      id: guidance.id,
+      title: guidance.title,
+      objective: guidance.objective,
+      technicalConstraints: guidance.technicalConstraints,
+      workRules: guidance.workRules,
+      completionCriteria: guidance.completionCriteria,
+      subtasks: guidance.subtasks,
+      parentId: guidance.parentId,
+      tags: guidance.metadata.tags,
+      priority: guidance.metadata.priority,
+    });
+  });
+
+  it('escapes heading lines of the objective', () => {
+    const markdown = formatGuidanceMarkdown(guidance);
+
+    expect(markdown).toContain('\n\\# Background\n');
+    expect(markdown).toContain('\n\\## Not a section\n');
+    expect(markdown).toContain('\n\\\\# already escaped\n');
+  });
+
+  it('numbers subtasks written without an ID', () => {
+    const content = parseGuidanceMarkdown([
+      '---',
+      'id: g1',
+      '---',
+      '# Title',
+      '## Objective',
+      'Do it',
+      '## Subtasks',
+      '- [x] First <!-- {"id":"t3"} -->',
+      '- Second',
+      '- [ ] Third',
+    ].join('\n'));
+
+    expect(content.subtasks.map(subtask => [subtask.id, subtask.status])).toEqual([
+      ['t3', 'done'],
+      ['t4', 'pending'],
+      ['t5', 'pending'],
+    ]);
+  });
+
+  it('reports every problem with its line number', () => {
+    const markdown = [
+      '---',
+      'id: g 1',
+      'priority: urgent',
+      '---',
+      '# Title',
+      '## Objective',
+      'Do it',
+      '## Notes',
+      '## Completion Criteria',
+      '- [?] Unknown mark',
+      'not a list item',
+    ].join('\n');
+
+    expect(() => parseGuidanceMarkdown(markdown)).toThrow([
+      'Invalid guidance Markdown:',
+      '  line 2: id may only contain letters, digits, "-" and "_"',
+      '  line 3: priority must be low, medium or high, not "urgent"',
+      '  line 8: unknown section "Notes" (expected one of Objective, Technical Constraints, Work Rules, Completion Criteria, Subtasks)',
+      '  line 10: unknown checkbox "[?]" (expected [ ], [~], [x] or [-])',
+      '  line 11: expected a "- " list item',
+    ].join('\n'));
+  });
+
+  it('requires front matter', () => {
+    expect(() => parseGuidanceMarkdown('# Title\n')).toThrow('line 1: expected YAML front matter between --- lines');
+  });
+});
@@ -0,0 +1,463 @@
+import {
+  CompletionCriterionSchema,
+  CriterionStatus,
+  GuidanceMarkdownContent,
+  GuidanceSummary,
+  NewCompletionCriterion,
+  Subtask,
+  SubtaskStatus,
+} from '../types/index.js';
+
+// Body sections in the order they are written; matched case-insensitively on import
+const SECTIONS = ['Objective', 'Technical Constraints', 'Work Rules', 'Completion Criteria', 'Subtasks'] as const;
+
+type Section = typeof SECTIONS[number];
+
+const FRONT_MATTER_KEYS = ['id', 'version', 'priority', 'tags', 'parentId', 'template', 'createdAt', 'updatedAt'];
+
+// Checkbox marks of criteria and subtasks: [ ] pending, [~] in progress, [x] met/done, [-] waived/skipped
+const CRITERION_MARKS: Record<CriterionStatus, string> = { pending: ' ', in_progress: '~', met: 'x', waived: '-' };
+const SUBTASK_MARKS: Record<SubtaskStatus, string> = { pending: ' ', in_progress: '~', done: 'x', skipped: '-' };
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+interface Line {
+  number: number;
+  text: string;
+}
+
+interface ListItem {
+  line: number;
+  text: string;
+}
+
+interface Issue {
+  line: number;
+  message: string;
+}
+
+// Markdown with YAML front matter for metadata and one section per field. Details that have no natural Markdown
+// form (criterion IDs and evidence, subtask dependencies and links) ride along in a trailing JSON comment.
+export function formatGuidanceMarkdown(guidance: GuidanceSummary): string {
+  const frontMatter = [
+    `id: ${guidance.id}`,
+    `version: ${guidance.metadata.version}`,
+    `priority: ${guidance.metadata.priority || 'medium'}`,
+    `tags: [${(guidance.metadata.tags || []).map(yamlScalar).join(', ')}]`,
+    ...(guidance.parentId ? [`parentId: ${guidance.parentId}`] : []),
+    ...(guidance.metadata.template ? ['template: true'] : []),
+    `createdAt: ${yamlScalar(guidance.metadata.createdAt)}`,
+    `updatedAt: ${yamlScalar(guidance.metadata.updatedAt)}`,
+  ];
+
+  const list = (entries: string[]) => entries.map(entry => listItem(entry)).join('\n');
+  const criteria = guidance.completionCriteria.map(criterion =>
+    `- [${CRITERION_MARKS[criterion.status]}] ${singleLine(criterion.description)}` +
+    jsonComment({ id: criterion.id, updatedAt: criterion.updatedAt, evidence: criterion.evidence })
+  );
+  const subtasks = guidance.subtasks.map(subtask =>
+    `- [${SUBTASK_MARKS[subtask.status]}] ${singleLine(subtask.title)}` +
+    jsonComment({
+      id: subtask.id,
+      dependsOn: subtask.dependsOn.length > 0 ? subtask.dependsOn : undefined,
+      assignee: subtask.assignee,
+      nodeIds: subtask.nodeIds.length > 0 ? subtask.nodeIds : undefined,
+      createdAt: subtask.createdAt,
+      updatedAt: subtask.updatedAt,
+    }) +
+    (subtask.description ? `\n${indent(subtask.description)}` : '')
+  );
+
+  const sections: Record<Section, string> = {
+    'Objective': escapeHeadings(guidance.objective),
+    'Technical Constraints': list(guidance.technicalConstraints),
+    'Work Rules': list(guidance.workRules),
+    'Completion Criteria': criteria.join('\n'),
+    'Subtasks': subtasks.join('\n'),
+  };
+
+  return `---\n${frontMatter.join('\n')}\n---\n\n# ${singleLine(guidance.title)}\n\n` +
+    SECTIONS
+      .filter(section => section !== 'Subtasks' || guidance.subtasks.length > 0)
+      .map(section => `## ${section}\n\n${sections[section]}`.trimEnd())
+      .join('\n\n') +
+    '\n';
+}
+
+// Parse an exported guidance; every problem found is reported with its 1-based line number
+export function parseGuidanceMarkdown(markdown: string): GuidanceMarkdownContent {
+  const lines: Line[] = markdown.replace(/^\uFEFF/, '').split(/\r?\n/).map((text, i) => ({ number: i + 1, text }));
+  const issues: Issue[] = [];
+
+  const closing = lines.findIndex((line, i) => i > 0 && line.text.trim() === '---');
+  if (lines[0]?.text.trim() !== '---' || closing < 0) {
+    throw invalid([{ line: 1, message: 'expected YAML front matter between --- lines' }]);
+  }
+
+  const frontMatter = parseFrontMatter(lines.slice(1, closing), issues);
+  const content: GuidanceMarkdownContent = {
+    title: '',
+    objective: '',
+    technicalConstraints: [],
+    workRules: [],
+    completionCriteria: [],
+    subtasks: [],
+    tags: [],
+    priority: 'medium',
+  };
+
+  if (frontMatter.id !== undefined) {
+    const { value, line } = frontMatter.id;
+    if (typeof value !== 'string' || !ID_PATTERN.test(value)) {
+      issues.push({ line, message: 'id may only contain letters, digits, "-" and "_"' });
+    } else {
+      content.id = value;
+    }
+  }
+  if (frontMatter.priority !== undefined) {
+    const { value, line } = frontMatter.priority;
+    if (value !== 'low' && value !== 'medium' && value !== 'high') {
+      issues.push({ line, message: `priority must be low, medium or high, not ${JSON.stringify(value)}` });
+    } else {
+      content.priority = value;
+    }
+  }
+  if (frontMatter.tags !== undefined) {
+    const { value, line } = frontMatter.tags;
+    if (!Array.isArray(value)) {
+      issues.push({ line, message: 'tags must be a list, e.g. [backend, api]' });
+    } else {
+      content.tags = value.map(String);
+    }
+  }
+  if (frontMatter.parentId !== undefined) {
+    const { value, line } = frontMatter.parentId;
+    if (typeof value !== 'string' || !ID_PATTERN.test(value)) {
+      issues.push({ line, message: 'parentId must be a guidance ID' });
+    } else {
+      content.parentId = value;
+    }
+  }
+  if (frontMatter.template !== undefined) {
+    const { value, line } = frontMatter.template;
+    if (typeof value !== 'boolean') {
+      issues.push({ line, message: 'template must be true or false' });
+    } else {
+      content.template = value;
+    }
+  }
+
+  // Body: "# Title", then "## Section" blocks
+  const sections = new Map<Section, { line: number; lines: Line[] }>();
+  let current: Line[] | null = null;
+  // Lines under a rejected heading are not reported again
+  let skipping = false;
+  let titleLine: number | undefined;
+
+  for (const line of lines.slice(closing + 1)) {
+    const heading = /^(#{1,2})\s+(.*\S)\s*$/.exec(line.text);
+
+    if (heading && heading[1] === '#') {
+      if (titleLine !== undefined) {
+        issues.push({ line: line.number, message: 'only one "# Title" heading is allowed' });
+      } else {
+        titleLine = line.number;
+        content.title = heading[2];
+      }
+      current = null;
+      skipping = false;
+    } else if (heading && heading[1] === '##') {
+      const section = SECTIONS.find(name => name.toLowerCase() === heading[2].toLowerCase());
+      current = null;
+      if (!section) {
+        issues.push({ line: line.number, message: `unknown section "${heading[2]}" (expected one of ${SECTIONS.join(', ')})` });
+      } else if (sections.has(section)) {
+        issues.push({ line: line.number, message: `duplicate section "${section}"` });
+      } else {
+        current = [];
+        sections.set(section, { line: line.number, lines: current });
+      }
+      skipping = !current;
+    } else if (current) {
+      current.push(line);
+    } else if (line.text.trim() && !skipping) {
+      issues.push({ line: line.number, message: 'text outside of a section' });
+    }
+  }
+
+  if (titleLine === undefined || !content.title) {
+    issues.push({ line: titleLine ?? closing + 2, message: 'missing "# Title" heading' });
+  }
+
+  const objective = sections.get('Objective');
+  content.objective = objective ? unescapeHeadings(objective.lines.map(line => line.text).join('\n').trim()) : '';
+  if (!content.objective) {
+    issues.push({ line: objective?.line ?? titleLine ?? closing + 2, message: 'missing "## Objective" section text' });
+  }
+
+  const listOf = (section: Section) => parseListItems(sections.get(section)?.lines || [], issues);
+  content.technicalConstraints = listOf('Technical Constraints').map(item => item.text);
+  content.workRules = listOf('Work Rules').map(item => item.text);
+  content.completionCriteria = listOf('Completion Criteria').map(item => parseCriterion(item, issues));
+  const subtaskItems = listOf('Subtasks');
+  content.subtasks = subtaskItems.map(item => parseSubtask(item, issues));
+
+  // Subtasks written without an ID are numbered after the highest one, in order
+  let nextId = Math.max(0, ...content.subtasks.map(subtask => parseInt(subtask.id.slice(1), 10) || 0)) + 1;
+  for (const subtask of content.subtasks) {
+    if (!subtask.id) subtask.id = `t${nextId++}`;
+  }
+
+  // Subtask dependencies must name subtasks of the document
+  const subtaskIds = new Set(content.subtasks.map(subtask => subtask.id).filter(Boolean));
+  content.subtasks.forEach((subtask, i) => {
+    for (const dependency of subtask.dependsOn) {
+      if (!subtaskIds.has(dependency)) {
+        issues.push({ line: subtaskItems[i].line, message: `depends on unknown subtask ${dependency}` });
+      }
+    }
+  });
+
+  if (issues.length > 0) {
+    throw invalid(issues);
+  }
+  return content;
+}
+
+// `key: value` lines, with values as plain, quoted, true/false, [flow, lists] or "- " block lists
+function parseFrontMatter(lines: Line[], issues: Issue[]): Record<string, { value: unknown; line: number }> {
+  const values: Record<string, { value: unknown; line: number }> = {};
+  let listKey: string | undefined;
+
+  for (const line of lines) {
+    if (!line.text.trim() || line.text.trim().startsWith('#')) continue;
+
+    const listEntry = /^\s+-\s+(.*)$/.exec(line.text);
+    if (listEntry && listKey) {
+      (values[listKey].value as unknown[]).push(parseScalar(listEntry[1], line.number, issues));
+      continue;
+    }
+    listKey = undefined;
+
+    const match = /^([A-Za-z][\w]*)\s*:\s*(.*)$/.exec(line.text);
+    if (!match) {
+      issues.push({ line: line.number, message: `expected "key: value", found ${JSON.stringify(line.text.trim())}` });
+      continue;
+    }
+
+    const [, key, raw] = match;
+    if (!FRONT_MATTER_KEYS.includes(key)) {
+      issues.push({ line: line.number, message: `unknown front matter key "${key}" (expected one of ${FRONT_MATTER_KEYS.join(', ')})` });
+      continue;
+    }
+    if (values[key]) {
+      issues.push({ line: line.number, message: `duplicate front matter key "${key}"` });
+      continue;
+    }
+
+    if (!raw.trim()) {
+      // A block list may follow
+      values[key] = { value: [], line: line.number };
+      listKey = key;
+    } else if (raw.trim().startsWith('[')) {
+      values[key] = { value: parseFlowList(raw.trim(), line.number, issues), line: line.number };
+    } else {
+      values[key] = { value: parseScalar(raw, line.number, issues), line: line.number };
+    }
+  }
+
+  return values;
+}
+
+function parseFlowList(raw: string, line: number, issues: Issue[]): unknown[] {
+  if (!raw.endsWith(']')) {
+    issues.push({ line, message: 'unterminated list, expected "]"' });
+    return [];
+  }
+
+  const inner = raw.slice(1, -1).trim();
+  if (!inner) return [];
+
+  // Split on commas outside quotes
+  const entries: string[] = [];
+  let entry = '';
+  let quote: string | null = null;
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        entry += char + (inner[++i] ?? '');
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      entries.push(entry);
+      entry = '';
+      continue;
+    }
+    entry += char;
+  }
+  entries.push(entry);
+
+  return entries.map(value => parseScalar(value, line, issues));
+}
+
+function parseScalar(raw: string, line: number, issues: Issue[]): unknown {
+  const value = raw.trim();
+
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      issues.push({ line, message: `invalid double-quoted string ${value}` });
+      return value;
+    }
+  }
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) {
+      issues.push({ line, message: `unterminated single-quoted string ${value}` });
+      return value;
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value === 'true' || value === 'false') return value === 'true';
+
+  // Plain scalars end at a comment
+  return value.replace(/\s+#.*$/, '');
+}
+
+// "- item" lines; more-indented lines continue the item above, including blank lines between them
+function parseListItems(lines: Line[], issues: Issue[]): ListItem[] {
+  const items: ListItem[] = [];
+  let blankLines = 0;
+
+  for (const line of lines) {
+    if (!line.text.trim()) {
+      blankLines++;
+      continue;
+    }
+
+    const item = /^[-*]\s+(.*)$/.exec(line.text);
+    if (item) {
+      items.push({ line: line.number, text: item[1].trimEnd() });
+    } else if (/^\s{2,}\S/.test(line.text) && items.length > 0) {
+      items[items.length - 1].text += `${'\n'.repeat(blankLines + 1)}${line.text.replace(/^\s{2}/, '').trimEnd()}`;
+    } else {
+      issues.push({ line: line.number, message: 'expected a "- " list item' });
+    }
+    blankLines = 0;
+  }
+
+  return items;
+}
+
+// "[x] description <!-- {...} -->"; without a checkbox the criterion is pending
+function parseCriterion(item: ListItem, issues: Issue[]): NewCompletionCriterion {
+  const { mark, text, details } = splitItem(item, issues);
+  const status = mark === undefined ? 'pending' : statusOf(CRITERION_MARKS, mark, item.line, issues);
+
+  const parsed = CompletionCriterionSchema.safeParse({
+    id: details.id,
+    description: text,
+    status,
+    updatedAt: details.updatedAt,
+    evidence: details.evidence,
+  });
+  if (!parsed.success) {
+    issues.push({ line: item.line, message: `invalid criterion details: ${parsed.error.issues.map(issue => issue.message).join(', ')}` });
+    return CompletionCriterionSchema.parse({ description: text, status });
+  }
+  return parsed.data;
+}
+
+// "[ ] title <!-- {...} -->" followed by indented description lines
+function parseSubtask(item: ListItem, issues: Issue[]): Subtask {
+  const [first, ...descriptionLines] = item.text.split('\n');
+  const { mark, text, details } = splitItem({ line: item.line, text: first }, issues);
+  const strings = (value: unknown, key: string): string[] => {
+    if (value === undefined) return [];
+    if (Array.isArray(value) && value.every(entry => typeof entry === 'string')) return value;
+    issues.push({ line: item.line, message: `${key} must be a list of strings` });
+    return [];
+  };
+
+  return {
+    id: typeof details.id === 'string' ? details.id : '',
+    title: text,
+    description: descriptionLines.join('\n').trim() || undefined,
+    status: mark === undefined ? 'pending' : statusOf(SUBTASK_MARKS, mark, item.line, issues),
+    dependsOn: strings(details.dependsOn, 'dependsOn'),
+    assignee: typeof details.assignee === 'string' ? details.assignee : undefined,
+    nodeIds: strings(details.nodeIds, 'nodeIds'),
+    createdAt: typeof details.createdAt === 'string' ? details.createdAt : '',
+    updatedAt: typeof details.updatedAt === 'string' ? details.updatedAt : '',
+  };
+}
+
+function splitItem(item: ListItem, issues: Issue[]): { mark?: string; text: string; details: Record<string, any> } {
+  let text = item.text;
+  let details: Record<string, any> = {};
+
+  const comment = /\s*<!--\s*(\{.*\})\s*-->\s*$/.exec(text);
+  if (comment) {
+    text = text.slice(0, comment.index);
+    try {
+      details = JSON.parse(comment[1]);
+    } catch {
+      issues.push({ line: item.line, message: 'invalid JSON in the <!-- --> comment' });
+    }
+  }
+
+  const checkbox = /^\[(.)\]\s+(.*)$/s.exec(text);
+  return checkbox ? { mark: checkbox[1], text: checkbox[2].trim(), details } : { text: text.trim(), details };
+}
+
+function statusOf<T extends string>(marks: Record<T, string>, mark: string, line: number, issues: Issue[]): T {
+  const status = (Object.keys(marks) as T[]).find(key => marks[key] === mark.toLowerCase());
+  if (!status) {
+    issues.push({ line, message: `unknown checkbox "[${mark}]" (expected [ ], [~], [x] or [-])` });
+    return Object.keys(marks)[0] as T;
+  }
+  return status;
+}
+
+function invalid(issues: Issue[]): Error {
+  const sorted = [...issues].sort((a, b) => a.line - b.line);
+  return new Error(`Invalid guidance Markdown:\n${sorted.map(issue => `  line ${issue.line}: ${issue.message}`).join('\n')}`);
+}
+
+// Plain when unambiguous, double-quoted otherwise
+function yamlScalar(value: string): string {
+  return /^[A-Za-z0-9_./-][\w ./-]*$/.test(value) && !/^(true|false|null|~)$/.test(value) && !/\s$/.test(value)
+    ? value
+    : JSON.stringify(value);
+}
+
+function listItem(text: string): string {
+  const [first, ...rest] = text.split('\n');
+  return [`- ${first}`, ...rest.map(line => line ? `  ${line}` : '')].join('\n');
+}
+
+function indent(text: string): string {
+  return text.split('\n').map(line => line ? `  ${line}` : '').join('\n');
+}
+
+// Objective lines starting with "#" would read as headings; escaped ones get one more backslash
+function escapeHeadings(text: string): string {
+  return text.replace(/^(\\*#)/gm, '\\$1');
+}
+
+function unescapeHeadings(text: string): string {
+  return text.replace(/^\\(\\*#)/gm, '$1');
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ');
+}
+
+function jsonComment(details: Record<string, unknown>): string {
+  const defined = Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined));
+  return Object.keys(defined).length > 0 ? ` <!-- ${JSON.stringify(defined)} -->` : '';
+}
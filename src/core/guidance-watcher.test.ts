@@ -0,0 +1,69 @@
+import { jest } from '@jest/globals';
+import { mkdtempSync, promises as fs, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { GuidanceWatcher } from './guidance-watcher.js';
+import type { HybridSearch } from './hybrid-search.js';
+
+describe('GuidanceWatcher', () => {
+  let directory: string;
+  let statePath: string;
+  let watcher: GuidanceWatcher;
+
+  const hybridSearch = {
+    indexGuidance: async () => ({ added: 0, changed: 0, removed: 0, unchanged: 0, skipped: [] }),
+  } as unknown as HybridSearch;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'guidance-watcher-'));
+    statePath = path.join(directory, 'watches.json');
+    watcher = new GuidanceWatcher(hybridSearch, statePath);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    watcher.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('runs the updates of one guidance one after another', async () => {
+    const events: string[] = [];
+    const task = (name: string, delay: number) => async () => {
+      events.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      events.push(`${name} end`);
+      return name;
+    };
+
+    const results = await Promise.all([
+      watcher.enqueue('g1', task('first', 20)),
+      watcher.enqueue('g1', task('second', 0)),
+    ]);
+
+    expect(results).toEqual(['first', 'second']);
+    expect(events).toEqual(['first start', 'first end', 'second start', 'second end']);
+  });
+
+  it('keeps running queued updates after one fails', async () => {
+    const failed = watcher.enqueue('g1', async () => { throw new Error('index failed'); });
+    const next = watcher.enqueue('g1', async () => 'next');
+
+    await expect(failed).rejects.toThrow('index failed');
+    await expect(next).resolves.toBe('next');
+  });
+
+  it('keeps persisted watches that fail to resume', async () => {
+    const missing = { guidanceId: 'g1', codebasePath: path.join(directory, 'missing') };
+    await fs.writeFile(statePath, JSON.stringify([missing]));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await watcher.resume();
+
+    expect(watcher.listWatches()).toEqual([]);
+    expect(JSON.parse(await fs.readFile(statePath, 'utf-8'))).toEqual([missing]);
+
+    // Unwatching the guidance forgets the entry
+    expect(await watcher.unwatch('g1')).toBe(true);
+    expect(JSON.parse(await fs.readFile(statePath, 'utf-8'))).toEqual([]);
+  });
+});
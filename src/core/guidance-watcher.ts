@@ -0,0 +1,167 @@
+import { promises as fs, watch, FSWatcher } from 'fs';
+import path from 'path';
+import { HybridSearch } from './hybrid-search.js';
+import { ALWAYS_IGNORED } from './scan-filter.js';
+
+interface WatchEntry {
+  guidanceId: string;
+  codebasePath: string;
+}
+
+interface ActiveWatch extends WatchEntry {
+  watcher: FSWatcher;
+  pending: Set<string>;
+  timer?: NodeJS.Timeout;
+}
+
+export class GuidanceWatcher {
+  private hybridSearch: HybridSearch;
+  private statePath: string;
+  private debounceMs: number;
+  // Keyed by guidance and root, since a guidance may watch several codebase roots
+  private watches: Map<string, ActiveWatch> = new Map();
+  // Persisted watches that failed to restart; kept in the state file until watched again or unwatched
+  private unresumed: Map<string, WatchEntry> = new Map();
+  // Index updates for one guidance run one after another, whichever root or tool call they come from
+  private queues: Map<string, Promise<void>> = new Map();
+
+  constructor(hybridSearch: HybridSearch, statePath: string = './data/watches.json', debounceMs: number = 500) {
+    this.hybridSearch = hybridSearch;
+    this.statePath = statePath;
+    this.debounceMs = debounceMs;
+  }
+
+  // Restart the watches persisted by a previous run
+  async resume(): Promise<void> {
+    for (const entry of await this.loadState()) {
+      try {
+        await this.watch(entry.guidanceId, entry.codebasePath, false);
+      } catch (error) {
+        console.error(`Failed to resume watch for guidance: ${entry.guidanceId}`, error);
+        this.unresumed.set(watchKey(entry.guidanceId, path.resolve(entry.codebasePath)), entry);
+      }
+    }
+    await this.saveState();
+  }
+
+  // Run an index update after those already queued for the guidance
+  enqueue<T>(guidanceId: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.queues.get(guidanceId) || Promise.resolve()).then(task);
+    this.queues.set(guidanceId, result.then(() => undefined, () => undefined));
+    return result;
+  }
+
+  async watch(guidanceId: string, codebasePath: string, persist: boolean = true): Promise<void> {
+    const rootPath = path.resolve(codebasePath);
+    const stats = await fs.stat(rootPath);
+    if (!stats.isDirectory()) {
+      throw new Error(`Codebase path is not a directory: ${rootPath}`);
+    }
+
+    const key = watchKey(guidanceId, rootPath);
+    this.stopWatcher(key);
+
+    // Bring the index up to date before listening for further changes
+    await this.enqueue(guidanceId, () => this.hybridSearch.indexGuidance(guidanceId, rootPath));
+
+    const active: ActiveWatch = {
+      guidanceId,
+      codebasePath: rootPath,
+      pending: new Set(),
+      watcher: watch(rootPath, { recursive: true }, (_event, filename) => {
+        if (filename) this.schedule(active, path.join(rootPath, filename.toString()));
+      }),
+    };
+
+    active.watcher.on('error', error => {
+      console.error(`Watch error for guidance: ${guidanceId}`, error);
+    });
+
+    this.watches.set(key, active);
+    this.unresumed.delete(key);
+    if (persist) {
+      await this.saveState();
+    }
+  }
+
+  // Stop one root's watch, or all of the guidance's watches when no path is given
+  async unwatch(guidanceId: string, codebasePath?: string): Promise<boolean> {
+    const keys = codebasePath
+      ? [watchKey(guidanceId, path.resolve(codebasePath))]
+      : [...this.watches.values(), ...this.unresumed.values()]
+        .filter(entry => entry.guidanceId === guidanceId)
+        .map(entry => watchKey(guidanceId, path.resolve(entry.codebasePath)));
+    const stopped = keys.map(key => this.stopWatcher(key) || this.unresumed.delete(key)).some(Boolean);
+    if (stopped) {
+      await this.saveState();
+    }
+    return stopped;
+  }
+
+  listWatches(): WatchEntry[] {
+    return Array.from(this.watches.values()).map(({ guidanceId, codebasePath }) => ({ guidanceId, codebasePath }));
+  }
+
+  close(): void {
+    for (const key of [...this.watches.keys()]) {
+      this.stopWatcher(key);
+    }
+  }
+
+  private schedule(active: ActiveWatch, changedPath: string): void {
+    const relative = path.relative(active.codebasePath, changedPath);
+    if (relative.split(path.sep).some(segment => ALWAYS_IGNORED.has(segment))) return;
+
+    // Debounce bursts of edits (saves, branch switches) into one update
+    active.pending.add(changedPath);
+    if (active.timer) clearTimeout(active.timer);
+    active.timer = setTimeout(() => this.flush(active), this.debounceMs);
+  }
+
+  private flush(active: ActiveWatch): void {
+    const changedPaths = [...active.pending];
+    active.pending.clear();
+    active.timer = undefined;
+
+    this.enqueue(active.guidanceId, async () => {
+      try {
+        const summary = await this.hybridSearch.updatePaths(active.guidanceId, active.codebasePath, changedPaths);
+        // stdout carries the MCP protocol
+        console.error(
+          `Watch update for guidance ${active.guidanceId}: ` +
+          `${summary.added} added, ${summary.changed} changed, ${summary.removed} removed`
+        );
+      } catch (error) {
+        console.error(`Failed to update index for guidance: ${active.guidanceId}`, error);
+      }
+    });
+  }
+
+  private stopWatcher(key: string): boolean {
+    const active = this.watches.get(key);
+    if (!active) return false;
+
+    if (active.timer) clearTimeout(active.timer);
+    active.watcher.close();
+    this.watches.delete(key);
+    return true;
+  }
+
+  private async loadState(): Promise<WatchEntry[]> {
+    try {
+      const content = await fs.readFile(this.statePath, 'utf-8');
+      return JSON.parse(content);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private async saveState(): Promise<void> {
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+    await fs.writeFile(this.statePath, JSON.stringify([...this.listWatches(), ...this.unresumed.values()], null, 2));
+  }
+}
+
+function watchKey(guidanceId: string, rootPath: string): string {
+  return `${guidanceId}\n${rootPath}`;
+}
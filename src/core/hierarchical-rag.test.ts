@@ -0,0 +1,87 @@
+import { jest } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { HierarchicalRAG } from './hierarchical-rag.js';
+import { HierarchyStore } from './hierarchy-store.js';
+
+describe('HierarchicalRAG', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'hierarchical-rag-'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const elementIdsOf = (hierarchy: HierarchicalRAG, fileName: string) =>
+    hierarchy.getAllNodes()
+      .filter(node => node.path === path.join(directory, fileName) && node.type !== 'file')
+      .map(node => node.id.slice(node.id.indexOf('#')));
+
+  it('gives get/set accessor pairs distinct ids', async () => {
+    writeFileSync(path.join(directory, 'box.ts'), [
+      'export class Box {',
+      '  get value() { return 1; }',
+      '  set value(v: number) {}',
+      '}',
+    ].join('\n'));
+
+    const hierarchy = new HierarchicalRAG();
+    await hierarchy.buildHierarchy(directory);
+
+    expect(elementIdsOf(hierarchy, 'box.ts').sort()).toEqual(['#Box', '#Box.value', '#Box.value~2']);
+    expect(hierarchy.getChildren(hierarchy.getAllNodes().find(node => node.name === 'Box')!.id)).toHaveLength(2);
+  });
+
+  it('keeps every Java overload', async () => {
+    writeFileSync(path.join(directory, 'Printer.java'), [
+      'public class Printer {',
+      '  public void print(String text) {',
+      '  }',
+      '  public void print(int number) {',
+      '  }',
+      '  public void print() {',
+      '  }',
+      '}',
+    ].join('\n'));
+
+    const hierarchy = new HierarchicalRAG();
+    await hierarchy.buildHierarchy(directory);
+
+    const ids = elementIdsOf(hierarchy, 'Printer.java');
+    expect(ids.sort()).toEqual(['#Printer', '#Printer.print', '#Printer.print~2', '#Printer.print~3']);
+    expect(hierarchy.getAllNodes().filter(node => node.name === 'print').map(node => node.metadata.lineStart))
+      .toEqual([2, 4, 6]);
+  });
+  it('keeps the nodes of a nested root when the outer root is removed', async () => {
+    const outer = path.join(directory, 'repo');
+    const inner = path.join(outer, 'packages', 'api');
+    mkdirSync(inner, { recursive: true });
+    writeFileSync(path.join(outer, 'index.ts'), 'export const version = 1;\n');
+    writeFileSync(path.join(inner, 'server.ts'), 'export function start() {}\n');
+
+    const store = new HierarchyStore(path.join(directory, 'search.db'));
+    const hierarchy = new HierarchicalRAG('g1', store);
+    await hierarchy.buildHierarchy(inner);
+    hierarchy.persist([inner]);
+    await hierarchy.buildHierarchy(outer);
+    hierarchy.persist([outer]);
+
+    const removed = hierarchy.removeRoot(outer);
+
+    expect(removed).toContain('repo/index.ts');
+    expect(removed.some(id => id.startsWith('api'))).toBe(false);
+    expect(hierarchy.getRoots().map(root => root.rootPath)).toEqual([inner]);
+    expect(hierarchy.getNode('api/server.ts#start')).toBeDefined();
+
+    // The stored hierarchy keeps them as well
+    const reloaded = new HierarchicalRAG('g1', store);
+    expect(reloaded.getAllNodes().map(node => node.id).sort()).toEqual(['api', 'api/server.ts', 'api/server.ts#start']);
+    store.close();
+  });
+});
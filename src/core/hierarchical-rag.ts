@@ -1,110 +1,300 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { createHash } from 'crypto';
 import { glob } from 'glob';
-import { HierarchicalNode, MetadataVector } from '../types/index.js';
+import { HierarchicalNode, MetadataVector, CodeElement, CodeExtractionResult, ScanOptions, SkippedPath, Summarizer } from '../types/index.js';
+import { extractCodeElements, getLanguageForFile } from './extractors/index.js';
+import { HierarchyStore } from './hierarchy-store.js';
+import { ScanFilter } from './scan-filter.js';
+import { ExtractiveSummarizer } from './summarizer.js';
 
+const README_NAMES = ['README.md', 'README.markdown', 'README.txt', 'README', 'readme.md'];
+
+// README text passed to the summarizer
+const MAX_README_LENGTH = 4000;
+
+// The hierarchy of one guidance: one tree per registered codebase root.
+// Without a guidance ID and store it is a standalone, memory-only hierarchy.
 export class HierarchicalRAG {
   private nodes: Map<string, HierarchicalNode> = new Map();
   private embeddings: Map<string, number[]> = new Map();
+  private guidanceId?: string;
+  private store?: HierarchyStore;
+  private summarizer: Summarizer;
+  // Absolute root path -> root name, which prefixes the IDs of the root's nodes
+  private roots: Map<string, string> = new Map();
+  // Include/exclude globs and size limit each root was last built with
+  private scanOptions: Map<string, ScanOptions> = new Map();
+  private loaded = false;
 
-  constructor() {
+  constructor(guidanceId?: string, store?: HierarchyStore, summarizer: Summarizer = new ExtractiveSummarizer()) {
     this.nodes = new Map();
     this.embeddings = new Map();
+    this.guidanceId = guidanceId;
+    this.store = store;
+    this.summarizer = summarizer;
+  }
+
+  // Load the persisted roots and nodes on first use; nodes already in memory (fresher builds) are kept
+  ensureLoaded(): void {
+    if (this.loaded || !this.store || !this.guidanceId) return;
+    this.loaded = true;
+
+    for (const root of this.store.loadRoots(this.guidanceId)) {
+      if (!this.roots.has(root.rootPath)) {
+        this.roots.set(root.rootPath, root.name);
+        this.scanOptions.set(root.rootPath, root.scanOptions);
+      }
+    }
+
+    let added = false;
+    for (const node of this.store.loadNodes(this.guidanceId)) {
+      if (!this.nodes.has(node.id)) {
+        this.nodes.set(node.id, node);
+        added = true;
+      }
+    }
+
+    if (added) {
+      this.buildRelationships();
+    }
+  }
+
+  getRoots(): Array<{ rootPath: string; name: string; scanOptions: ScanOptions }> {
+    this.ensureLoaded();
+    return Array.from(this.roots, ([rootPath, name]) => ({ rootPath, name, scanOptions: this.scanOptions.get(rootPath) || {} }));
+  }
+
+  // Unregister a codebase root, returning the IDs of the nodes that were dropped with it
+  removeRoot(rootPath: string): string[] {
+    this.ensureLoaded();
+    rootPath = path.resolve(rootPath);
+    if (!this.roots.has(rootPath)) return [];
+
+    const removed = this.removeNodesUnder(rootPath);
+    this.roots.delete(rootPath);
+    this.scanOptions.delete(rootPath);
+    this.buildRelationships();
+
+    if (this.store && this.guidanceId) {
+      this.store.removeRoot(this.guidanceId, rootPath);
+      // The store deletes by path prefix, so roots nested inside are written back
+      const nested = this.nestedRoots(rootPath);
+      if (nested.length > 0) this.persist(nested);
+    }
+    return removed;
+  }
+
+  // Register a root, or replace the scan options of a registered one
+  private registerRoot(rootPath: string, scanOptions?: ScanOptions): void {
+    if (this.roots.has(rootPath) && !scanOptions) return;
+
+    if (!this.roots.has(rootPath)) {
+      // Root names are unique within the guidance: frontend, frontend-2, ...
+      const baseName = path.basename(rootPath) || 'root';
+      const taken = new Set(this.roots.values());
+      let name = baseName;
+      for (let suffix = 2; taken.has(name); suffix++) {
+        name = `${baseName}-${suffix}`;
+      }
+      this.roots.set(rootPath, name);
+    }
+    if (scanOptions) {
+      this.scanOptions.set(rootPath, scanOptions);
+    }
+
+    if (this.store && this.guidanceId) {
+      this.store.saveRoot(this.guidanceId, rootPath, this.roots.get(rootPath)!, this.scanOptions.get(rootPath));
+    }
   }
 
-  async buildHierarchy(rootPath: string): Promise<void> {
-    console.log(`Building hierarchical structure: ${rootPath}`);
+  // Write the nodes under the given scopes (and their ancestor directories) to the guidance's stored hierarchy
+  persist(scopes: string[]): void {
+    if (!this.store || !this.guidanceId) return;
+
+    const resolved = scopes.map(scope => path.resolve(scope));
+    const selected = new Map<string, HierarchicalNode>();
+
+    for (const node of this.nodes.values()) {
+      if (!resolved.some(scope => node.path === scope || node.path.startsWith(scope + path.sep))) continue;
+
+      for (let current: HierarchicalNode | undefined = node; current && !selected.has(current.id); current = this.getParent(current.id)) {
+        selected.set(current.id, current);
+      }
+    }
     
-    // Scan directory structure
-    await this.scanDirectory(rootPath, null);
+    // Ancestors of deleted paths as well, since their sizes and summaries changed
+    for (const scope of resolved) {
+      for (let current = this.getNodeByPath(path.dirname(scope)); current && !selected.has(current.id); current = this.getParent(current.id)) {
+        selected.set(current.id, current);
+      }
+    }
+
+    this.store.replaceNodes(this.guidanceId, resolved, [...selected.values()]);
+  }
+
+  // Build the tree of a codebase root, returning the paths its ignore rules and scan options skipped.
+  // Without scan options, those the root was last built with are reused.
+  async buildHierarchy(rootPath: string, scanOptions?: ScanOptions): Promise<SkippedPath[]> {
+    rootPath = path.resolve(rootPath);
+    console.error(`Building hierarchical structure: ${rootPath}`);
+    
+    this.ensureLoaded();
+    this.registerRoot(rootPath, scanOptions);
+    
+    // Drop nodes from a previous build of this root so deleted files do not linger
+    const previous = this.collectSummaries(rootPath);
+    this.removeNodesUnder(rootPath);
+    
+    // Scan directory structure below the root's own node
+    const rootNode = this.createDirectoryNode(rootPath, null);
+    rootNode.name = this.roots.get(rootPath)!;
+    this.nodes.set(rootNode.id, rootNode);
+    const skipped = await this.scanPaths(rootPath, rootPath);
     
     // Analyze file contents
-    await this.analyzeFiles();
+    await this.analyzeFiles([rootPath]);
     
     // Set hierarchical relationships
     this.buildRelationships();
+    this.updateDirectorySizes();
+    await this.summarizeNodes([rootPath], previous);
     
-    console.log(`Hierarchical structure built: ${this.nodes.size} nodes`);
+    console.error(`Hierarchical structure built: ${this.nodes.size} nodes, ${skipped.length} paths skipped`);
+    return skipped;
+  }
+
+  // Nodes under a path, except those of other registered roots nested below it
+  private removeNodesUnder(scope: string): string[] {
+    const nested = this.nestedRoots(scope);
+    const removed: string[] = [];
+    for (const [nodeId, node] of this.nodes) {
+      if (this.isWithin(node.path, scope) && !nested.some(rootPath => this.isWithin(node.path, rootPath))) {
+        this.nodes.delete(nodeId);
+        removed.push(nodeId);
+      }
+    }
+    return removed;
   }
 
-  private async scanDirectory(dirPath: string, parentId: string | null): Promise<void> {
+  // Re-scan individual files or directories after they changed on disk; deleted paths are removed
+  async refreshPaths(rootPath: string, changedPaths: string[]): Promise<SkippedPath[]> {
+    rootPath = path.resolve(rootPath);
+    const scopes: string[] = [];
+    const skipped: SkippedPath[] = [];
+    
+    this.ensureLoaded();
+    if (!this.roots.has(rootPath) || changedPaths.some(p => path.resolve(p) === rootPath)) {
+      // Changes under a root that was never built, or to the root itself: build it whole instead
+      return this.buildHierarchy(rootPath);
+    }
+    
+    const previous = new Map<string, HierarchicalNode>();
+    for (const changedPath of changedPaths.map(p => path.resolve(p))) {
+      if (!changedPath.startsWith(rootPath + path.sep)) continue;
+      
+      this.collectSummaries(changedPath, previous);
+      this.removeNodesUnder(changedPath);
+      
+      const stats = await fs.stat(changedPath).catch(() => null);
+      if (!stats) continue;
+      
+      skipped.push(...await this.scanPaths(rootPath, changedPath));
+      scopes.push(changedPath);
+    }
+    
+    await this.analyzeFiles(scopes);
+    this.buildRelationships();
+    this.updateDirectorySizes();
+    
+    // Directories above the changed paths are re-summarized as well, since their children changed
+    const parents = changedPaths.map(p => path.dirname(path.resolve(p))).filter(p => this.isWithin(p, rootPath));
+    await this.summarizeNodes([...scopes, ...parents], previous);
+    return skipped;
+  }
+
+  // Create missing directory nodes between the root and dirPath, returning the node ID of dirPath
+  private ensureDirectoryNodes(rootPath: string, dirPath: string): string | null {
+    if (dirPath === rootPath) return this.generateNodeId(rootPath);
+    if (!dirPath.startsWith(rootPath + path.sep)) return null;
+    
+    const nodeId = this.generateNodeId(dirPath);
+    if (!this.nodes.has(nodeId)) {
+      const parentId = this.ensureDirectoryNodes(rootPath, path.dirname(dirPath));
+      this.nodes.set(nodeId, this.createDirectoryNode(dirPath, parentId));
+    }
+    
+    return nodeId;
+  }
+
+  // Add nodes for the directories and code files under scope (a root, or a file or directory below it)
+  // that pass the root's ignore rules and scan options, returning what was skipped
+  private async scanPaths(rootPath: string, scope: string): Promise<SkippedPath[]> {
+    const filter = new ScanFilter(rootPath, scope, this.scanOptions.get(rootPath));
+    
     try {
-      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      const entries = await glob(filter.patterns, { cwd: rootPath, dot: true, withFileTypes: true, ignore: filter });
       
       for (const entry of entries) {
-        const fullPath = path.join(dirPath, entry.name);
-        const nodeId = this.generateNodeId(fullPath);
+        const fullPath = entry.fullpath();
+        if (fullPath === rootPath) continue;
         
         if (entry.isDirectory()) {
-          // Create directory node
-          const node: HierarchicalNode = {
-            id: nodeId,
-            type: 'directory',
-            name: entry.name,
-            path: fullPath,
-            parentId: parentId || undefined,
-            children: [],
-            metadata: {
-              size: await this.getDirectorySize(fullPath),
-            },
-          };
-          
-          this.nodes.set(nodeId, node);
-          
-          // Scan subdirectories
-          await this.scanDirectory(fullPath, nodeId);
-        } else if (this.isCodeFile(entry.name)) {
-          // Create file node
-          const node: HierarchicalNode = {
-            id: nodeId,
-            type: 'file',
-            name: entry.name,
-            path: fullPath,
-            parentId: parentId || undefined,
-            children: [],
-            metadata: {
-              size: (await fs.stat(fullPath)).size,
-              language: this.getLanguage(entry.name),
-            },
-          };
-          
-          this.nodes.set(nodeId, node);
+          this.ensureDirectoryNodes(rootPath, fullPath);
+        } else if (this.isCodeFile(entry.name) && !(await filter.checkFile(fullPath))) {
+          const parentId = this.ensureDirectoryNodes(rootPath, path.dirname(fullPath));
+          const node = await this.createFileNode(fullPath, parentId);
+          this.nodes.set(node.id, node);
         }
       }
     } catch (error) {
-      console.error(`Failed to scan directory: ${dirPath}`, error);
+      console.error(`Failed to scan: ${scope}`, error);
     }
+    
+    return filter.skipped;
+  }
+
+  private createDirectoryNode(dirPath: string, parentId: string | null): HierarchicalNode {
+    return {
+      id: this.generateNodeId(dirPath),
+      type: 'directory',
+      name: path.basename(dirPath),
+      path: dirPath,
+      parentId: parentId || undefined,
+      children: [],
+      metadata: {
+        size: 0,
+      },
+    };
   }
 
-  private async analyzeFiles(): Promise<void> {
+  private async createFileNode(filePath: string, parentId: string | null): Promise<HierarchicalNode> {
+    return {
+      id: this.generateNodeId(filePath),
+      type: 'file',
+      name: path.basename(filePath),
+      path: filePath,
+      parentId: parentId || undefined,
+      children: [],
+      metadata: {
+        size: (await fs.stat(filePath)).size,
+        language: this.getLanguage(filePath),
+      },
+    };
+  }
+
+  private async analyzeFiles(scopes: string[]): Promise<void> {
     for (const [nodeId, node] of this.nodes) {
-      if (node.type === 'file') {
+      if (node.type === 'file' && scopes.some(scope => node.path === scope || node.path.startsWith(scope + path.sep))) {
         try {
           const content = await fs.readFile(node.path, 'utf-8');
           node.content = content;
           
-          // Extract functions, classes, interfaces
-          const codeElements = this.extractCodeElements(content, node.metadata.language);
+          // Extract functions, classes, interfaces and their members
+          const { elements, imports } = this.extractCodeElements(content, node.path, node.metadata.language);
+          node.metadata.dependencies = imports.length > 0 ? imports : this.extractDependencies(content);
           
-          for (const element of codeElements) {
-            const elementId = `${nodeId}_${element.name}`;
-            const elementNode: HierarchicalNode = {
-              id: elementId,
-              type: element.type as any,
-              name: element.name,
-              path: node.path,
-              parentId: nodeId,
-              children: [],
-              content: element.content,
-              metadata: {
-                language: node.metadata.language,
-                complexity: this.calculateComplexity(element.content),
-                dependencies: this.extractDependencies(element.content),
-              },
-            };
-            
-            this.nodes.set(elementId, elementNode);
-          }
+          this.addElementNodes(node, nodeId, elements);
         } catch (error) {
           console.error(`Failed to analyze file: ${node.path}`, error);
         }
@@ -112,7 +302,50 @@ export class HierarchicalRAG {
     }
   }
 
+  private addElementNodes(fileNode: HierarchicalNode, parentId: string, elements: CodeElement[]): void {
+    const occurrences = new Map<string, number>();
+
+    for (const element of elements) {
+      // "<file>#Class" for top-level elements, "<file>#Class.method" for members; overloads and
+      // get/set accessor pairs share a name, so later ones get a "~2", "~3", ... suffix
+      const occurrence = (occurrences.get(element.name) || 0) + 1;
+      occurrences.set(element.name, occurrence);
+      const elementId = `${parentId}${parentId === fileNode.id ? '#' : '.'}${element.name}${occurrence > 1 ? `~${occurrence}` : ''}`;
+      const elementNode: HierarchicalNode = {
+        id: elementId,
+        type: element.type,
+        name: element.name,
+        path: fileNode.path,
+        parentId,
+        children: [],
+        content: element.content,
+        metadata: {
+          language: fileNode.metadata.language,
+          complexity: this.calculateComplexity(element.content),
+          dependencies: this.extractDependencies(element.content),
+          extends: element.extends,
+          implements: element.implements,
+          lineStart: element.lineStart,
+          lineEnd: element.lineEnd,
+          signature: element.signature,
+          docComment: element.docComment,
+          exported: element.exported,
+        },
+      };
+      
+      this.nodes.set(elementId, elementNode);
+      
+      // Nested elements such as class methods
+      this.addElementNodes(fileNode, elementId, element.children);
+    }
+  }
+
   private buildRelationships(): void {
+    // Rebuilt from parentId each time so repeated builds do not duplicate children
+    for (const node of this.nodes.values()) {
+      node.children = [];
+    }
+    
     for (const [nodeId, node] of this.nodes) {
       if (node.parentId) {
         const parent = this.nodes.get(node.parentId);
@@ -123,50 +356,8 @@ export class HierarchicalRAG {
     }
   }
 
-  private extractCodeElements(content: string, language?: string): Array<{
-    name: string;
-    type: string;
-    content: string;
-  }> {
-    const elements: Array<{ name: string; type: string; content: string }> = [];
-    
-    if (language === 'typescript' || language === 'javascript') {
-      // Extract TypeScript/JavaScript functions, classes, interfaces
-      const functionRegex = /(?:export\s+)?(?:async\s+)?function\s+(\w+)\s*\([^)]*\)\s*\{[^}]*\}/g;
-      const classRegex = /(?:export\s+)?class\s+(\w+)(?:\s+extends\s+\w+)?\s*\{[^}]*\}/g;
-      const interfaceRegex = /(?:export\s+)?interface\s+(\w+)\s*\{[^}]*\}/g;
-      
-      let match;
-      
-      // Extract functions
-      while ((match = functionRegex.exec(content)) !== null) {
-        elements.push({
-          name: match[1],
-          type: 'function',
-          content: match[0],
-        });
-      }
-      
-      // Extract classes
-      while ((match = classRegex.exec(content)) !== null) {
-        elements.push({
-          name: match[1],
-          type: 'class',
-          content: match[0],
-        });
-      }
-      
-      // Extract interfaces
-      while ((match = interfaceRegex.exec(content)) !== null) {
-        elements.push({
-          name: match[1],
-          type: 'interface',
-          content: match[0],
-        });
-      }
-    }
-    
-    return elements;
+  private extractCodeElements(content: string, filePath: string, language?: string): CodeExtractionResult {
+    return extractCodeElements(content, filePath, language);
   }
 
   private calculateComplexity(content: string): number {
@@ -199,61 +390,128 @@ export class HierarchicalRAG {
   }
 
   private isCodeFile(filename: string): boolean {
-    const codeExtensions = ['.ts', '.js', '.tsx', '.jsx', '.py', '.java', '.cpp', '.c', '.cs', '.go', '.rs', '.php', '.rb'];
-    return codeExtensions.some(ext => filename.endsWith(ext));
+    return getLanguageForFile(filename) !== undefined;
   }
 
   private getLanguage(filename: string): string {
-    const extension = path.extname(filename);
-    const languageMap: Record<string, string> = {
-      '.ts': 'typescript',
-      '.js': 'javascript',
-      '.tsx': 'typescript',
-      '.jsx': 'javascript',
-      '.py': 'python',
-      '.java': 'java',
-      '.cpp': 'cpp',
-      '.c': 'c',
-      '.cs': 'csharp',
-      '.go': 'go',
-      '.rs': 'rust',
-      '.php': 'php',
-      '.rb': 'ruby',
-    };
-    
-    return languageMap[extension] || 'unknown';
+    return getLanguageForFile(filename) || 'unknown';
   }
 
-  private async getDirectorySize(dirPath: string): Promise<number> {
-    try {
-      const entries = await fs.readdir(dirPath, { withFileTypes: true });
-      let size = 0;
-      
-      for (const entry of entries) {
-        const fullPath = path.join(dirPath, entry.name);
-        if (entry.isDirectory()) {
-          size += await this.getDirectorySize(fullPath);
+  // Nodes under a path before it is rebuilt, so summaries of unchanged nodes can be reused
+  private collectSummaries(scope: string, previous: Map<string, HierarchicalNode> = new Map()): Map<string, HierarchicalNode> {
+    for (const node of this.nodes.values()) {
+      if (node.summary && this.isWithin(node.path, scope)) {
+        previous.set(node.id, node);
+      }
+    }
+    return previous;
+  }
+
+  // Summarize the directories and files under the scopes and every directory above them, children first.
+  // A node keeps its summary while the summarizer and its input are unchanged.
+  private async summarizeNodes(scopes: string[], previous: Map<string, HierarchicalNode> = new Map()): Promise<void> {
+    const targets = new Map<string, HierarchicalNode>();
+    
+    for (const node of this.nodes.values()) {
+      if ((node.type === 'directory' || node.type === 'file') && scopes.some(scope => this.isWithin(node.path, scope))) {
+        targets.set(node.id, node);
+      }
+    }
+    for (const node of [...targets.values()]) {
+      for (let parent = this.getParent(node.id); parent && !targets.has(parent.id); parent = this.getParent(parent.id)) {
+        targets.set(parent.id, parent);
+      }
+    }
+    
+    const ordered = [...targets.values()].sort((a, b) => b.path.split(path.sep).length - a.path.split(path.sep).length);
+    for (const node of ordered) {
+      try {
+        // Directory children are taken by path: their insertion order depends on which paths were refreshed last
+        const children = node.type === 'file'
+          ? this.getChildren(node.id)
+          : this.getChildren(node.id)
+            .filter(child => child.type === 'directory' || child.type === 'file')
+            .sort((a, b) => a.path.localeCompare(b.path));
+        const readme = node.type === 'directory' ? await this.readReadme(node.path) : undefined;
+        
+        const hash = createHash('sha1')
+          .update(this.summarizer.name)
+          .update(node.type === 'file' ? node.content || '' : children.map(child => `${child.id}\n${child.summary || ''}`).join('\n'))
+          .update(readme || '')
+          .digest('hex');
+        
+        const prior = previous.get(node.id) || node;
+        if (prior.summary && prior.metadata.summaryHash === hash) {
+          node.summary = prior.summary;
         } else {
-          const stats = await fs.stat(fullPath);
-          size += stats.size;
+          node.summary = await this.summarizer.summarize({ node, children, readme });
         }
+        node.metadata.summaryHash = hash;
+      } catch (error) {
+        console.error(`Failed to summarize node: ${node.id}`, error);
       }
+    }
+  }
+
+  private async readReadme(dirPath: string): Promise<string | undefined> {
+    for (const name of README_NAMES) {
+      const content = await fs.readFile(path.join(dirPath, name), 'utf-8').catch(() => undefined);
+      if (content !== undefined) return content.slice(0, MAX_README_LENGTH);
+    }
+    return undefined;
+  }
+
+  private isWithin(candidate: string, scope: string): boolean {
+    return candidate === scope || candidate.startsWith(scope + path.sep);
+  }
+
+  private nestedRoots(scope: string): string[] {
+    return [...this.roots.keys()].filter(rootPath => rootPath !== scope && this.isWithin(rootPath, scope));
+  }
+
+  // Directory sizes are the total size of the scanned files below them, so skipped paths do not count
+  private updateDirectorySizes(): void {
+    const sizeOf = (node: HierarchicalNode): number => {
+      if (node.type === 'file') return node.metadata.size || 0;
+      if (node.type !== 'directory') return 0;
       
-      return size;
-    } catch (error) {
-      return 0;
+      node.metadata.size = node.children.reduce((size, childId) => {
+        const child = this.nodes.get(childId);
+        return size + (child ? sizeOf(child) : 0);
+      }, 0);
+      return node.metadata.size;
+    };
+    
+    for (const node of this.nodes.values()) {
+      if (!node.parentId) sizeOf(node);
     }
   }
 
-  private generateNodeId(path: string): string {
-    return Buffer.from(path).toString('base64').replace(/[+/=]/g, '');
+  // Stable, readable IDs: the root name followed by the POSIX path relative to the root, e.g. "backend/src/app.ts"
+  private generateNodeId(filePath: string): string {
+    let rootPath: string | undefined;
+    for (const candidate of this.roots.keys()) {
+      const contains = filePath === candidate || filePath.startsWith(candidate + path.sep);
+      // Nested roots: the innermost one owns the path
+      if (contains && (!rootPath || candidate.length > rootPath.length)) {
+        rootPath = candidate;
+      }
+    }
+
+    if (!rootPath) {
+      return filePath.split(path.sep).join('/');
+    }
+
+    const relative = path.relative(rootPath, filePath).split(path.sep).join('/');
+    return relative ? `${this.roots.get(rootPath)}/${relative}` : this.roots.get(rootPath)!;
   }
 
   // Hierarchical search method
-  async searchHierarchical(query: string, startLevel: 'directory' | 'file' | 'function' | 'class' = 'directory'): Promise<HierarchicalNode[]> {
+  async searchHierarchical(query: string, startLevel: HierarchicalNode['type'] = 'directory'): Promise<HierarchicalNode[]> {
     const results: HierarchicalNode[] = [];
     const queryLower = query.toLowerCase();
     
+    this.ensureLoaded();
     for (const [nodeId, node] of this.nodes) {
       if (node.type === startLevel) {
         if (this.matchesQuery(node, queryLower)) {
@@ -269,6 +527,7 @@ export class HierarchicalRAG {
     return (
       node.name.toLowerCase().includes(query) ||
       (node.content && node.content.toLowerCase().includes(query)) ||
+      (node.summary && node.summary.toLowerCase().includes(query)) ||
       node.path.toLowerCase().includes(query)
     );
   }
@@ -278,16 +537,37 @@ export class HierarchicalRAG {
     
     if (node.name.toLowerCase().includes(query)) score += 10;
     if (node.path.toLowerCase().includes(query)) score += 5;
+    if (node.summary && node.summary.toLowerCase().includes(query)) score += 4;
     if (node.content && node.content.toLowerCase().includes(query)) score += 3;
     
     return score;
   }
 
   getNode(id: string): HierarchicalNode | undefined {
+    this.ensureLoaded();
     return this.nodes.get(id);
   }
 
+  // The directory or file node at a path, absolute or relative to the working directory
+  getNodeByPath(nodePath: string): HierarchicalNode | undefined {
+    this.ensureLoaded();
+    const resolved = path.resolve(nodePath);
+    for (const node of this.nodes.values()) {
+      if (node.path === resolved && (node.type === 'directory' || node.type === 'file')) {
+        return node;
+      }
+    }
+    return undefined;
+  }
+
+  // Top-level nodes: the root node of each codebase root
+  getRootNodes(): HierarchicalNode[] {
+    this.ensureLoaded();
+    return Array.from(this.nodes.values()).filter(node => !node.parentId);
+  }
+
   getChildren(nodeId: string): HierarchicalNode[] {
+    this.ensureLoaded();
     const node = this.nodes.get(nodeId);
     if (!node) return [];
     
@@ -295,13 +575,36 @@ export class HierarchicalRAG {
   }
 
   getParent(nodeId: string): HierarchicalNode | undefined {
+    this.ensureLoaded();
     const node = this.nodes.get(nodeId);
     if (!node || !node.parentId) return undefined;
     
     return this.nodes.get(node.parentId);
   }
 
+  // Ancestors of a node, outermost first
+  getAncestors(nodeId: string): HierarchicalNode[] {
+    const ancestors: HierarchicalNode[] = [];
+    for (let parent = this.getParent(nodeId); parent; parent = this.getParent(parent.id)) {
+      ancestors.unshift(parent);
+    }
+    return ancestors;
+  }
+
+  getDescendants(nodeId: string): HierarchicalNode[] {
+    const descendants: HierarchicalNode[] = [];
+    const visit = (id: string) => {
+      for (const child of this.getChildren(id)) {
+        descendants.push(child);
+        visit(child.id);
+      }
+    };
+    visit(nodeId);
+    return descendants;
+  }
+
   getAllNodes(): HierarchicalNode[] {
+    this.ensureLoaded();
     return Array.from(this.nodes.values());
   }
 }
@@ -0,0 +1,69 @@
+import { jest } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { HierarchyBrowser } from './hierarchy-browser.js';
+import { HierarchyManager } from './hierarchy-manager.js';
+
+describe('HierarchyBrowser', () => {
+  let directory: string;
+  let codebase: string;
+  let browser: HierarchyBrowser;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    directory = mkdtempSync(path.join(tmpdir(), 'hierarchy-browser-'));
+    codebase = path.join(directory, 'shop');
+    mkdirSync(path.join(codebase, 'cart'), { recursive: true });
+    writeFileSync(
+      path.join(codebase, 'cart', 'cart.ts'),
+      '/** Holds items */\nexport class Cart {\n  add(item: string) {}\n  remove(item: string) {}\n}\n'
+    );
+    writeFileSync(path.join(codebase, 'index.ts'), "export { Cart } from './cart/cart';\n");
+
+    const hierarchies = new HierarchyManager();
+    await hierarchies.get('g1').buildHierarchy(codebase);
+    browser = new HierarchyBrowser(hierarchies);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('lists the codebase roots, then the children of a node with directories first', () => {
+    expect(browser.browse({ guidanceId: 'g1' })).toMatch(/^Codebase roots of g1 \(1\):\n- \[directory\] shop \(2 files, /);
+
+    const lines = browser.browse({ guidanceId: 'g1', path: codebase }).split('\n').filter(line => line.startsWith('- '));
+    expect(lines).toEqual([
+      expect.stringMatching(/^- \[directory\] shop\/cart \(1 files, \d+ bytes\)$/),
+      expect.stringMatching(/^- \[file\] shop\/index\.ts \(0 elements, \d+ bytes, typescript\)$/),
+    ]);
+  });
+
+  it('describes a node with its ancestry, metadata, members and content', () => {
+    const text = browser.describe({ guidanceId: 'g1', nodeId: 'shop/cart/cart.ts#Cart' });
+
+    expect(text).toContain('Node: shop/cart/cart.ts#Cart [class]');
+    expect(text).toContain(`Path: ${path.join(codebase, 'cart', 'cart.ts')}:2-5`);
+    expect(text).toContain('Ancestry: shop > cart > cart.ts > Cart');
+    expect(text).toContain('Signature: export class Cart');
+    expect(text).toContain('Doc: Holds items');
+    expect(text).toContain('Children:\n- [method] shop/cart/cart.ts#Cart.add (lines 3-3, typescript)\n- [method] shop/cart/cart.ts#Cart.remove');
+    expect(text).toMatch(/\n\nContent:\nexport class Cart \{/);
+  });
+
+  it('reports nodes that do not exist', () => {
+    expect(() => browser.describe({ guidanceId: 'g1', nodeId: 'shop/missing.ts' })).toThrow('Hierarchy node not found: shop/missing.ts');
+    expect(() => browser.browse({ guidanceId: 'g1', path: path.join(codebase, 'missing') })).toThrow('Hierarchy node not found');
+    expect(() => browser.describe({ guidanceId: 'g1' })).toThrow('(no node ID or path given)');
+  });
+
+  it('searches from the requested level and caps the results', async () => {
+    const methods = await browser.search({ guidanceId: 'g1', query: 'ADD', startLevel: 'method' });
+    expect(methods).toBe('Hierarchy search results (1 of 1 method nodes):\n- [method] shop/cart/cart.ts#Cart.add (lines 3-3, typescript)');
+
+    expect(await browser.search({ guidanceId: 'g1', query: 'cart', limit: 1 }))
+      .toMatch(/^Hierarchy search results \(1 of 2 directory nodes\):\n- \[directory\] shop\/cart /);
+  });
+});
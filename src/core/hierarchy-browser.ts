@@ -0,0 +1,108 @@
+import { HierarchicalNode } from '../types/index.js';
+import { HierarchicalRAG } from './hierarchical-rag.js';
+import { HierarchyManager } from './hierarchy-manager.js';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+export interface NodeLocator {
+  guidanceId: string;
+  nodeId?: string;
+  path?: string;
+}
+
+export interface HierarchySearchParams {
+  guidanceId: string;
+  query: string;
+  startLevel?: HierarchicalNode['type'];
+  limit?: number;
+}
+
+// Renders a guidance's stored hierarchy as text for the browse_hierarchy, get_node and search_hierarchy tools
+export class HierarchyBrowser {
+  private hierarchies: HierarchyManager;
+
+  constructor(hierarchies: HierarchyManager) {
+    this.hierarchies = hierarchies;
+  }
+
+  // Children of a node, or the codebase roots when no node is given; directories first
+  browse(args: NodeLocator): string {
+    const hierarchy = this.hierarchies.get(args.guidanceId);
+    const node = args.nodeId || args.path ? this.resolveNode(hierarchy, args) : undefined;
+    const children = node ? hierarchy.getChildren(node.id) : hierarchy.getRootNodes();
+
+    const heading = node
+      ? `${node.id} [${node.type}] (${children.length} children)`
+      : `Codebase roots of ${args.guidanceId} (${children.length})`;
+
+    return `${heading}:\n` +
+      children
+        .sort((a, b) => Number(b.type === 'directory') - Number(a.type === 'directory') || a.name.localeCompare(b.name))
+        .map(child => `- ${this.formatNodeSummary(hierarchy, child)}`)
+        .join('\n');
+  }
+
+  describe(args: NodeLocator): string {
+    const hierarchy = this.hierarchies.get(args.guidanceId);
+    const node = this.resolveNode(hierarchy, args);
+    const ancestry = [...hierarchy.getAncestors(node.id), node].map(ancestor => ancestor.name).join(' > ');
+    const children = hierarchy.getChildren(node.id);
+    const { metadata } = node;
+
+    const details = [
+      `Node: ${node.id} [${node.type}]`,
+      `Path: ${node.path}` + (metadata.lineStart !== undefined ? `:${metadata.lineStart}-${metadata.lineEnd}` : ''),
+      `Ancestry: ${ancestry}`,
+      node.summary ? `Summary:\n${node.summary}` : '',
+      metadata.language ? `Language: ${metadata.language}` : '',
+      metadata.size !== undefined ? `Size: ${metadata.size} bytes` : '',
+      metadata.signature ? `Signature: ${metadata.signature}` : '',
+      metadata.docComment ? `Doc: ${metadata.docComment}` : '',
+      metadata.exported !== undefined ? `Exported: ${metadata.exported}` : '',
+      metadata.complexity !== undefined ? `Complexity: ${metadata.complexity}` : '',
+      metadata.extends?.length ? `Extends: ${metadata.extends.join(', ')}` : '',
+      metadata.implements?.length ? `Implements: ${metadata.implements.join(', ')}` : '',
+      metadata.dependencies?.length ? `Dependencies: ${metadata.dependencies.join(', ')}` : '',
+      children.length > 0 ? `Children:\n${children.map(child => `- ${this.formatNodeSummary(hierarchy, child)}`).join('\n')}` : '',
+    ].filter(Boolean);
+
+    return details.join('\n') + (node.content ? `\n\nContent:\n${node.content}` : '');
+  }
+
+  async search(args: HierarchySearchParams): Promise<string> {
+    const hierarchy = this.hierarchies.get(args.guidanceId);
+    const results = await hierarchy.searchHierarchical(args.query, args.startLevel);
+    const shown = results.slice(0, args.limit ?? DEFAULT_SEARCH_LIMIT);
+
+    return `Hierarchy search results (${shown.length} of ${results.length} ${args.startLevel || 'directory'} nodes):\n` +
+      shown.map(node => `- ${this.formatNodeSummary(hierarchy, node)}`).join('\n');
+  }
+
+  private resolveNode(hierarchy: HierarchicalRAG, args: { nodeId?: string; path?: string }): HierarchicalNode {
+    const node = args.nodeId ? hierarchy.getNode(args.nodeId) : args.path ? hierarchy.getNodeByPath(args.path) : undefined;
+    if (!node) {
+      throw new Error(`Hierarchy node not found: ${args.nodeId || args.path || '(no node ID or path given)'}`);
+    }
+    return node;
+  }
+
+  // One line per node: ID, type and what lies below it
+  private formatNodeSummary(hierarchy: HierarchicalRAG, node: HierarchicalNode): string {
+    const details: string[] = [];
+
+    if (node.type === 'directory') {
+      const descendants = hierarchy.getDescendants(node.id);
+      details.push(`${descendants.filter(child => child.type === 'file').length} files`);
+    } else if (node.type === 'file') {
+      details.push(`${hierarchy.getDescendants(node.id).length} elements`);
+    } else {
+      if (node.metadata.lineStart !== undefined) details.push(`lines ${node.metadata.lineStart}-${node.metadata.lineEnd}`);
+      if (node.children.length > 0) details.push(`${node.children.length} members`);
+    }
+    if (node.metadata.size !== undefined) details.push(`${node.metadata.size} bytes`);
+    if (node.metadata.language) details.push(node.metadata.language);
+
+    return `[${node.type}] ${node.id} (${details.join(', ')})` +
+      (node.summary ? `\n  ${node.summary.split('\n')[0]}` : '');
+  }
+}
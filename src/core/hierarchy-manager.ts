@@ -0,0 +1,37 @@
+import { Summarizer } from '../types/index.js';
+import { HierarchicalRAG } from './hierarchical-rag.js';
+import { HierarchyStore } from './hierarchy-store.js';
+import { ExtractiveSummarizer } from './summarizer.js';
+
+// One isolated hierarchy per guidance, created on first use and backed by the shared store
+export class HierarchyManager {
+  private store?: HierarchyStore;
+  private summarizer: Summarizer;
+  private hierarchies: Map<string, HierarchicalRAG> = new Map();
+
+  constructor(store?: HierarchyStore, summarizer: Summarizer = new ExtractiveSummarizer()) {
+    this.store = store;
+    this.summarizer = summarizer;
+  }
+
+  get(guidanceId: string): HierarchicalRAG {
+    let hierarchy = this.hierarchies.get(guidanceId);
+    if (!hierarchy) {
+      hierarchy = new HierarchicalRAG(guidanceId, this.store, this.summarizer);
+      this.hierarchies.set(guidanceId, hierarchy);
+    }
+    return hierarchy;
+  }
+
+  // Forget the guidance's hierarchy, in memory and in the store
+  remove(guidanceId: string): void {
+    this.hierarchies.delete(guidanceId);
+    this.store?.removeGuidance(guidanceId);
+  }
+
+  // Hierarchies of every guidance known in memory or in the store
+  getAll(): Array<{ guidanceId: string; hierarchy: HierarchicalRAG }> {
+    const guidanceIds = new Set([...this.hierarchies.keys(), ...(this.store?.getGuidanceIds() || [])]);
+    return [...guidanceIds].map(guidanceId => ({ guidanceId, hierarchy: this.get(guidanceId) }));
+  }
+}
@@ -0,0 +1,71 @@
+import { jest } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { HierarchyManager } from './hierarchy-manager.js';
+import { HierarchyStore } from './hierarchy-store.js';
+
+describe('HierarchyStore', () => {
+  let directory: string;
+  let codebase: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    directory = mkdtempSync(path.join(tmpdir(), 'hierarchy-store-'));
+    codebase = path.join(directory, 'shop');
+    dbPath = path.join(directory, 'search.db');
+    mkdirSync(path.join(codebase, 'cart'), { recursive: true });
+    writeFileSync(path.join(codebase, 'cart', 'cart.ts'), 'export class Cart {\n  add(item: string) {}\n}\n');
+    writeFileSync(path.join(codebase, 'index.ts'), "export { Cart } from './cart/cart';\n");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('restores roots, nodes and their tree after a restart', async () => {
+    const store = new HierarchyStore(dbPath);
+    const built = new HierarchyManager(store).get('g1');
+    await built.buildHierarchy(codebase, { exclude: ['**/*.spec.ts'] });
+    built.persist([codebase]);
+    const nodes = built.getAllNodes().map(node => ({ ...node, children: [...node.children].sort() }));
+    store.close();
+
+    const reopened = new HierarchyStore(dbPath);
+    const restored = new HierarchyManager(reopened).get('g1');
+
+    expect(restored.getRoots()).toEqual([{ rootPath: codebase, name: 'shop', scanOptions: { exclude: ['**/*.spec.ts'] } }]);
+    expect(restored.getAllNodes().map(node => ({ ...node, children: [...node.children].sort() })))
+      .toEqual(expect.arrayContaining(nodes));
+    expect(restored.getAllNodes()).toHaveLength(nodes.length);
+    const add = restored.getAllNodes().find(node => node.name === 'add')!;
+    expect(restored.getAncestors(add.id).map(node => node.name)).toEqual(['shop', 'cart', 'cart.ts', 'Cart']);
+    expect(reopened.getGuidanceIds()).toEqual(['g1']);
+    reopened.close();
+  });
+
+  it('replaces only the nodes under a scope and keeps guidances apart', async () => {
+    const store = new HierarchyStore(dbPath);
+    const hierarchies = new HierarchyManager(store);
+    for (const guidanceId of ['g1', 'g2']) {
+      await hierarchies.get(guidanceId).buildHierarchy(codebase);
+      hierarchies.get(guidanceId).persist([codebase]);
+    }
+
+    store.replaceNodes('g1', [path.join(codebase, 'cart')], []);
+
+    expect(store.loadNodes('g1').map(node => node.name).sort()).toEqual(['index.ts', 'shop']);
+    expect(store.loadNodes('g2').some(node => node.name === 'Cart')).toBe(true);
+
+    store.removeRoot('g2', codebase);
+    expect(store.loadRoots('g2')).toEqual([]);
+    expect(store.loadNodes('g2')).toEqual([]);
+
+    hierarchies.remove('g1');
+    expect(store.getGuidanceIds()).toEqual([]);
+    expect(hierarchies.get('g1').getAllNodes()).toEqual([]);
+    store.close();
+  });
+});
@@ -0,0 +1,156 @@
+import path from 'path';
+import Database from 'better-sqlite3';
+import { HierarchicalNode, ScanOptions } from '../types/index.js';
+
+// SQLite persistence of hierarchy nodes per guidance; children are derived from parent_id when loading
+export class HierarchyStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string = './data/search.db') {
+    this.db = new Database(dbPath);
+    this.initializeDatabase();
+  }
+
+  private initializeDatabase(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS hierarchy_nodes (
+        guidance_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        parent_id TEXT,
+        type TEXT NOT NULL,
+        name TEXT NOT NULL,
+        path TEXT NOT NULL,
+        content TEXT,
+        summary TEXT,
+        metadata TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (guidance_id, id)
+      )
+    `);
+    this.ensureColumn('hierarchy_nodes', 'summary', 'TEXT');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_hierarchy_nodes_path ON hierarchy_nodes (guidance_id, path)');
+
+    // Codebase roots registered to each guidance; the name prefixes the IDs of the root's nodes
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS codebase_roots (
+        guidance_id TEXT NOT NULL,
+        root_path TEXT NOT NULL,
+        name TEXT NOT NULL,
+        scan_options TEXT,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (guidance_id, root_path)
+      )
+    `);
+    this.ensureColumn('codebase_roots', 'scan_options', 'TEXT');
+  }
+
+  private ensureColumn(table: string, column: string, definition: string): void {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some(col => col.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  // Register a root, or update the scan options of a registered one
+  saveRoot(guidanceId: string, rootPath: string, name: string, scanOptions: ScanOptions = {}): void {
+    this.db.prepare(`
+      INSERT INTO codebase_roots (guidance_id, root_path, name, scan_options, created_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (guidance_id, root_path) DO UPDATE SET scan_options = excluded.scan_options
+    `).run(guidanceId, rootPath, name, JSON.stringify(scanOptions), new Date().toISOString());
+  }
+
+  loadRoots(guidanceId: string): Array<{ rootPath: string; name: string; scanOptions: ScanOptions }> {
+    const rows = this.db.prepare(
+      'SELECT root_path, name, scan_options FROM codebase_roots WHERE guidance_id = ? ORDER BY created_at'
+    ).all(guidanceId) as any[];
+    return rows.map(row => ({
+      rootPath: row.root_path,
+      name: row.name,
+      scanOptions: row.scan_options ? JSON.parse(row.scan_options) : {},
+    }));
+  }
+
+  // Unregister a root together with its stored nodes
+  removeRoot(guidanceId: string, rootPath: string): void {
+    const remove = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM codebase_roots WHERE guidance_id = ? AND root_path = ?').run(guidanceId, rootPath);
+      this.replaceNodes(guidanceId, [rootPath], []);
+    });
+    remove();
+  }
+
+  // Delete every root and node stored for the guidance
+  removeGuidance(guidanceId: string): void {
+    const remove = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM codebase_roots WHERE guidance_id = ?').run(guidanceId);
+      this.db.prepare('DELETE FROM hierarchy_nodes WHERE guidance_id = ?').run(guidanceId);
+    });
+    remove();
+  }
+
+  // Replace the stored nodes under each scope (a file or directory path) with the given nodes
+  replaceNodes(guidanceId: string, scopes: string[], nodes: HierarchicalNode[]): void {
+    const deleteScope = this.db.prepare(`
+      DELETE FROM hierarchy_nodes
+      WHERE guidance_id = ? AND (path = ? OR substr(path, 1, length(?)) = ?)
+    `);
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO hierarchy_nodes
+      (guidance_id, id, parent_id, type, name, path, content, summary, metadata, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const replace = this.db.transaction(() => {
+      for (const scope of scopes) {
+        const prefix = scope + path.sep;
+        deleteScope.run(guidanceId, scope, prefix, prefix);
+      }
+
+      const now = new Date().toISOString();
+      for (const node of nodes) {
+        insert.run(
+          guidanceId,
+          node.id,
+          node.parentId ?? null,
+          node.type,
+          node.name,
+          node.path,
+          node.content ?? null,
+          node.summary ?? null,
+          JSON.stringify(node.metadata),
+          now
+        );
+      }
+    });
+
+    replace();
+  }
+
+  loadNodes(guidanceId: string): HierarchicalNode[] {
+    const rows = this.db.prepare('SELECT * FROM hierarchy_nodes WHERE guidance_id = ?').all(guidanceId) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      type: row.type,
+      name: row.name,
+      path: row.path,
+      parentId: row.parent_id ?? undefined,
+      children: [],
+      content: row.content ?? undefined,
+      summary: row.summary ?? undefined,
+      metadata: JSON.parse(row.metadata),
+    }));
+  }
+
+  getGuidanceIds(): string[] {
+    const rows = this.db.prepare(
+      'SELECT guidance_id FROM hierarchy_nodes UNION SELECT guidance_id FROM codebase_roots'
+    ).all() as any[];
+    return rows.map(row => row.guidance_id);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
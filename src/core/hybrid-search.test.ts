@@ -0,0 +1,436 @@
+import { jest } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { HybridSearch } from './hybrid-search.js';
+import { HierarchyManager } from './hierarchy-manager.js';
+import { HierarchyStore } from './hierarchy-store.js';
+import { LocalEmbeddingProvider } from './embedding-provider.js';
+import { VectorIndex } from './vector-index.js';
+import { EmbeddingProvider, SearchResult } from '../types/index.js';
+
+describe('HybridSearch', () => {
+  let directory: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'hybrid-search-'));
+    dbPath = path.join(directory, 'search.db');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  // Exhaustive vector search; the faiss path is covered by vector-index.test.ts
+  const open = (provider: EmbeddingProvider = new LocalEmbeddingProvider(64)) =>
+    new HybridSearch(dbPath, new HierarchyManager(), provider, 'float32', new VectorIndex(path.join(directory, 'vector-index'), null));
+
+  const columnsOf = (db: Database.Database, table: string) =>
+    (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(column => column.name);
+
+  const indexesOf = (db: Database.Database, table: string) =>
+    (db.prepare(`PRAGMA index_list(${table})`).all() as Array<{ name: string }>).map(index => index.name);
+
+  describe('schema', () => {
+    it('creates every table and index on a fresh database', () => {
+      open().close();
+
+      const db = new Database(dbPath);
+      expect(columnsOf(db, 'vectors')).toEqual(expect.arrayContaining(['node_id', 'embedding_encoding', 'content_hash']));
+      expect(columnsOf(db, 'structural_index')).toContain('path');
+      expect(columnsOf(db, 'knowledge_graph')).toContain('guidance_id');
+      expect(columnsOf(db, 'lexical_index').length).toBeGreaterThan(0);
+      expect(indexesOf(db, 'vectors'))
+        .toEqual(expect.arrayContaining(['idx_vectors_guidance_id', 'idx_vectors_type', 'idx_vectors_guidance_id_node_id']));
+      expect(indexesOf(db, 'structural_index')).toContain('idx_structural_index_hierarchy_path');
+      expect(indexesOf(db, 'knowledge_graph')).toContain('idx_knowledge_graph_source_id');
+      db.close();
+    });
+
+    it('reopens an existing database', () => {
+      open().close();
+      expect(() => open().close()).not.toThrow();
+    });
+
+    it('adds columns missing from databases created by older versions', () => {
+      const db = new Database(dbPath);
+      db.exec(`
+        CREATE TABLE vectors (
+          id TEXT PRIMARY KEY, guidance_id TEXT NOT NULL, type TEXT NOT NULL, content TEXT NOT NULL,
+          embedding BLOB NOT NULL, metadata TEXT NOT NULL, created_at TEXT NOT NULL
+        );
+        CREATE TABLE structural_index (
+          id TEXT PRIMARY KEY, guidance_id TEXT NOT NULL, node_id TEXT NOT NULL, hierarchy_path TEXT NOT NULL,
+          tags TEXT, content_hash TEXT NOT NULL, created_at TEXT NOT NULL
+        );
+        CREATE TABLE knowledge_graph (
+          id TEXT PRIMARY KEY, source_id TEXT NOT NULL, target_id TEXT NOT NULL, relation_type TEXT NOT NULL,
+          weight REAL DEFAULT 1.0, created_at TEXT NOT NULL
+        );
+      `);
+      db.prepare('INSERT INTO vectors VALUES (?, ?, ?, ?, ?, ?, ?)')
+        .run('v1', 'g1', 'code', 'content', JSON.stringify([0.6, 0.8]), '{}', new Date().toISOString());
+      db.close();
+      const log = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      open().close();
+
+      expect(log).toHaveBeenCalledWith('Migrated 1 JSON embeddings to float32 storage');
+      log.mockRestore();
+      const migrated = new Database(dbPath);
+      expect(columnsOf(migrated, 'vectors')).toEqual(expect.arrayContaining(['node_id', 'embedding_provider', 'embedding_encoding']));
+      expect(columnsOf(migrated, 'structural_index')).toContain('path');
+      expect(columnsOf(migrated, 'knowledge_graph')).toContain('guidance_id');
+      // The legacy JSON embedding is re-encoded as float32
+      expect(migrated.prepare('SELECT embedding_encoding FROM vectors WHERE id = ?').get('v1'))
+        .toEqual({ embedding_encoding: 'float32' });
+      migrated.close();
+    });
+  });
+
+  describe('search', () => {
+    let search: HybridSearch;
+    let codebase: string;
+
+    beforeEach(async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      codebase = path.join(directory, 'codebase');
+      mkdirSync(codebase);
+      writeFileSync(path.join(codebase, 'invoice.ts'), [
+        'export function parseInvoice(text: string) {',
+        '  return text.split("\\n").map(line => line.trim());',
+        '}',
+      ].join('\n'));
+      writeFileSync(path.join(codebase, 'chart.ts'), [
+        'export function renderChart(points: number[]) {',
+        '  return points.map(point => point * 2);',
+        '}',
+      ].join('\n'));
+
+      search = open();
+      await search.indexGuidance('g1', codebase);
+    });
+
+    afterEach(() => {
+      search.close();
+      jest.restoreAllMocks();
+    });
+
+    it('refuses to mix embedding providers, models or dimensions', async () => {
+      search.close();
+      const local = new LocalEmbeddingProvider(64);
+      const providers: EmbeddingProvider[] = [
+        new LocalEmbeddingProvider(32),
+        { name: 'local', model: 'hashed-tfidf-v2', dimension: 64, embed: texts => local.embed(texts) },
+        { name: 'openai', model: local.model, dimension: 64, embed: texts => local.embed(texts) },
+      ];
+
+      for (const provider of providers) {
+        const mismatched = open(provider);
+        await expect(mismatched.indexGuidance('g1', codebase)).rejects.toThrow('Re-index it with reembed: true');
+        await expect(mismatched.search({ query: 'parseInvoice', guidanceId: 'g1' })).rejects.toThrow(
+          `was indexed with local/hashed-tfidf-v1 (64 dimensions), but the current embedding provider is ` +
+          `${provider.name}/${provider.model} (${provider.dimension} dimensions)`
+        );
+        mismatched.close();
+      }
+
+      search = open();
+      expect(await search.search({ query: 'parseInvoice', guidanceId: 'g1' })).not.toEqual([]);
+    });
+
+    it('leaves guidances of another embedding model out of searches across all guidances', async () => {
+      search.close();
+      const other = new LocalEmbeddingProvider(32);
+      search = open(other);
+      const vectorHits = (results: SearchResult[]) =>
+        results.filter(result => result.metadata.relevance?.includes('vector_similarity'));
+
+      expect(search.getIncompatibleGuidances())
+        .toEqual([{ guidanceId: 'g1', indexedWith: 'local/hashed-tfidf-v1 (64 dimensions)' }]);
+      const lexicalOnly = await search.search({ query: 'parseInvoice', threshold: 0 });
+      expect(lexicalOnly.length).toBeGreaterThan(0);
+      expect(vectorHits(lexicalOnly)).toEqual([]);
+
+      await search.indexGuidance('g2', codebase);
+      expect(vectorHits(await search.search({ query: 'parseInvoice', threshold: 0 })).length).toBeGreaterThan(0);
+    });
+
+    it('drops the index of a guidance and embeds it again with reembed', async () => {
+      const document = path.join(directory, 'invoices.md');
+      writeFileSync(document, '# Invoices\n\nEach invoice is parsed line by line before it is booked.\n');
+      await search.indexGuidance('g1', codebase, [document]);
+      search.close();
+      search = open(new LocalEmbeddingProvider(32));
+
+      const summary = await search.indexGuidance('g1', codebase, undefined, undefined, true);
+
+      expect(summary.changed + summary.removed).toBe(0);
+      expect(summary.added).toBeGreaterThan(1);
+      expect(search.getIncompatibleGuidances()).toEqual([]);
+      const documents = await search.search({ query: 'invoice', guidanceId: 'g1', type: 'document', threshold: 0 });
+      expect(documents.map(result => result.metadata.source)).toContain(document);
+    });
+
+    it('embeds every registered root again with reembed, not only the given one', async () => {
+      const other = path.join(directory, 'reports');
+      mkdirSync(other);
+      writeFileSync(path.join(other, 'report.ts'), 'export function buildReport(rows: string[]) {\n  return rows.join(",");\n}\n');
+      // Registered roots are only remembered across restarts by the hierarchy store
+      const store = new HierarchyStore(dbPath);
+      const openWithStore = (provider: EmbeddingProvider) => new HybridSearch(
+        dbPath, new HierarchyManager(store), provider, 'float32', new VectorIndex(path.join(directory, 'vector-index'), null)
+      );
+      search.close();
+      search = openWithStore(new LocalEmbeddingProvider(64));
+      await search.indexGuidance('g2', [codebase, other]);
+      const countOf = () => (search['db'].prepare('SELECT COUNT(*) AS count FROM vectors WHERE guidance_id = ?').get('g2') as any).count;
+      const before = countOf();
+      search.close();
+      search = openWithStore(new LocalEmbeddingProvider(32));
+
+      const summary = await search.indexGuidance('g2', codebase, undefined, undefined, true);
+
+      expect(countOf()).toBe(before);
+      expect(summary.changed + summary.removed).toBe(0);
+      expect(search.getCodebaseRoots('g2').map(root => root.rootPath)).toEqual([codebase, other]);
+      const reports = await search.search({ query: 'buildReport', guidanceId: 'g2', threshold: 0 });
+      expect(reports[0].metadata.path).toBe(path.join(other, 'report.ts'));
+      store.close();
+    });
+
+    it('deletes everything indexed for a removed guidance', async () => {
+      search.removeGuidance('g1');
+
+      expect(await search.search({ query: 'parseInvoice', threshold: 0 })).toEqual([]);
+      expect(search.getCodebaseRoots('g1')).toEqual([]);
+      search.close();
+      const db = new Database(dbPath);
+      for (const table of ['vectors', 'structural_index', 'knowledge_graph', 'lexical_index']) {
+        expect(db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get()).toEqual({ count: 0 });
+      }
+      db.close();
+      search = open();
+    });
+
+    it('scores fused results against a result ranked first by every channel', async () => {
+      const results = await search.search({ query: 'parseInvoice', guidanceId: 'g1', threshold: 0 });
+
+      expect(results[0].metadata.path).toMatch(/invoice\.ts$/);
+      for (const result of results) {
+        expect(result.score).toBeGreaterThan(0);
+        expect(result.score).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('returns nothing for a query unrelated to anything indexed', async () => {
+      expect(await search.search({ query: 'zq', guidanceId: 'g1' })).toEqual([]);
+      expect(await search.search({ query: 'zq', guidanceId: 'g1', threshold: 0 })).toEqual([]);
+    });
+
+    it('applies the threshold to the best result as well', async () => {
+      const [best] = await search.search({ query: 'points', guidanceId: 'g1', threshold: 0 });
+
+      expect(best.score).toBeLessThan(1);
+      expect(await search.search({ query: 'points', guidanceId: 'g1', threshold: best.score + 0.01 })).toEqual([]);
+    });
+
+    it('restricts every channel to the requested type', async () => {
+      const document = path.join(directory, 'invoices.md');
+      writeFileSync(document, '# Invoices\n\nEach invoice is parsed line by line before it is booked.\n');
+      await search.indexGuidance('g1', codebase, [document]);
+
+      const code = await search.search({ query: 'invoice', guidanceId: 'g1', type: 'code', threshold: 0 });
+      const documents = await search.search({ query: 'invoice', guidanceId: 'g1', type: 'document', threshold: 0 });
+
+      expect(code.map(result => result.type)).toEqual(expect.arrayContaining(['code']));
+      expect(code.every(result => result.type === 'code' && result.metadata.path !== document)).toBe(true);
+      expect(code[0].metadata.relevance).toEqual(expect.arrayContaining(['vector_similarity', 'lexical_bm25']));
+      expect(documents.length).toBeGreaterThan(0);
+      expect(documents.every(result => result.type === 'document' && result.metadata.source === document)).toBe(true);
+      expect(documents[0].metadata.relevance).toEqual(expect.arrayContaining(['vector_similarity', 'lexical_bm25']));
+    });
+
+    it('drops graph neighbours of another type', async () => {
+      const document = path.join(directory, 'invoices.md');
+      writeFileSync(document, '# Invoices\n\nEach invoice is parsed line by line before it is booked.\n');
+      await search.indexGuidance('g1', codebase, [document]);
+      const [parser] = await search.search({ query: 'parseInvoice', guidanceId: 'g1', type: 'code', threshold: 0 });
+      const db = new Database(dbPath);
+      db.prepare('INSERT INTO knowledge_graph VALUES (?, ?, ?, ?, ?, ?, ?)')
+        .run('e1', 'g1', parser.metadata.nodeId, `doc:${document}`, 'mentions', 1, new Date().toISOString());
+      db.close();
+
+      const code = await search.search({ query: 'parseInvoice', guidanceId: 'g1', type: 'code', threshold: 0 });
+      const documents = await search.search({ query: 'booked', guidanceId: 'g1', type: 'document', threshold: 0 });
+
+      expect(code.every(result => result.type === 'code')).toBe(true);
+      expect(documents.every(result => result.type === 'document')).toBe(true);
+    });
+
+    it('removes documents that were deleted or dropped from the list', async () => {
+      const invoices = path.join(directory, 'invoices.md');
+      const refunds = path.join(directory, 'refunds.md');
+      writeFileSync(invoices, '# Invoices\n\nEach invoice is parsed line by line.\n');
+      writeFileSync(refunds, '# Refunds\n\nRefunds are booked against the original invoice.\n');
+      await search.indexGuidance('g1', codebase, [invoices, refunds]);
+      const sources = async () => (await search.search({ query: 'invoice', guidanceId: 'g1', type: 'document', threshold: 0 }))
+        .map(result => result.metadata.source);
+      expect(await sources()).toEqual(expect.arrayContaining([invoices, refunds]));
+
+      unlinkSync(refunds);
+      expect(await search.indexGuidance('g1', codebase, [invoices, refunds])).toMatchObject({ added: 0, changed: 0, removed: 1 });
+      expect(await sources()).toEqual([invoices]);
+
+      expect(await search.indexGuidance('g1', codebase, [])).toMatchObject({ removed: 1 });
+      expect(await sources()).toEqual([]);
+    });
+
+    it('keeps the old index of changed nodes and documents when embedding them fails', async () => {
+      const invoices = path.join(directory, 'invoices.md');
+      writeFileSync(invoices, '# Invoices\n\nEach invoice is parsed line by line.\n');
+      await search.indexGuidance('g1', codebase, [invoices]);
+
+      writeFileSync(path.join(codebase, 'invoice.ts'), 'export function parseReceipt(text: string) {\n  return text;\n}\n');
+      writeFileSync(invoices, '# Receipts\n\nEach receipt is parsed at once.\n');
+      const embed = jest.spyOn(search['embeddingProvider'], 'embed').mockRejectedValue(new Error('offline'));
+      await expect(search.indexGuidance('g1', codebase)).rejects.toThrow('offline');
+      await search.indexGuidance('g1', undefined, [invoices]);
+      embed.mockRestore();
+
+      const paths = async (query: string) => (await search.search({ query, guidanceId: 'g1', threshold: 0 }))
+        .map(result => result.metadata.path);
+      expect(await paths('parseInvoice')).toContain(path.join(codebase, 'invoice.ts'));
+      expect(await paths('invoice parsed line')).toContain(invoices);
+      const structural = search['db'].prepare("SELECT COUNT(*) AS count FROM structural_index WHERE node_id LIKE '%invoice.ts%'").get();
+      expect(structural).not.toEqual({ count: 0 });
+    });
+
+    it('only returns graph neighbours that no other channel found', async () => {
+      const [parser] = await search.search({ query: 'parseInvoice', guidanceId: 'g1', threshold: 0 });
+      const [chart] = await search.search({ query: 'renderChart', guidanceId: 'g1', threshold: 0 });
+      const db = new Database(dbPath);
+      db.prepare('INSERT INTO knowledge_graph VALUES (?, ?, ?, ?, ?, ?, ?)')
+        .run('e1', 'g1', parser.metadata.nodeId, chart.metadata.nodeId, 'mentions', 1, new Date().toISOString());
+      db.close();
+
+      // Three seeds, while the vector channel also returns lower-ranked hits such as renderChart
+      const results = await search.search({ query: 'parseInvoice', guidanceId: 'g1', limit: 3, threshold: 0, weights: { graph: 10 } });
+
+      const graphHits = results.filter(result => result.metadata.scores?.graph);
+      expect(graphHits.length).toBeGreaterThan(0);
+      for (const result of graphHits) {
+        expect(Object.keys(result.metadata.scores!)).toEqual(['graph']);
+      }
+    });
+  });
+
+  describe('knowledge graph', () => {
+    let search: HybridSearch;
+    let codebase: string;
+
+    beforeEach(async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      codebase = path.join(directory, 'codebase');
+      mkdirSync(path.join(codebase, 'geometry'), { recursive: true });
+      writeFileSync(path.join(codebase, 'geometry', 'shapes.ts'), [
+        'export interface Shape {',
+        '  area(): number;',
+        '}',
+        'export class Base {}',
+        'export class Square extends Base implements Shape {',
+        '  area() {',
+        '    return squareOf(2);',
+        '  }',
+        '}',
+        'export function squareOf(side: number) {',
+        '  return side * side;',
+        '}',
+      ].join('\n'));
+      writeFileSync(path.join(codebase, 'main.ts'), [
+        "import { Square } from './geometry/shapes.js';",
+        "import { readFileSync } from 'fs';",
+        'export function run() {',
+        '  return new Square().area();',
+        '}',
+      ].join('\n'));
+
+      search = open();
+      await search.indexGuidance('g1', codebase);
+    });
+
+    afterEach(() => {
+      search.close();
+      jest.restoreAllMocks();
+    });
+
+    const edgesOf = (relationType: string) =>
+      (search['db'].prepare('SELECT source_id, target_id, weight FROM knowledge_graph WHERE guidance_id = ? AND relation_type = ?')
+        .all('g1', relationType) as Array<{ source_id: string; target_id: string; weight: number }>);
+
+    const pairsOf = (relationType: string) =>
+      edgesOf(relationType).map(edge => `${edge.source_id} -> ${edge.target_id}`).sort();
+
+    it('links directories, files and declarations with typed edges', () => {
+      expect(pairsOf('contains')).toEqual(expect.arrayContaining([
+        'codebase -> codebase/geometry',
+        'codebase/geometry -> codebase/geometry/shapes.ts',
+        'codebase/geometry/shapes.ts -> codebase/geometry/shapes.ts#Square',
+        'codebase/geometry/shapes.ts#Square -> codebase/geometry/shapes.ts#Square.area',
+      ]));
+      // The package import has no file in the codebase
+      expect(pairsOf('imports')).toEqual(['codebase/main.ts -> codebase/geometry/shapes.ts']);
+      expect(pairsOf('extends')).toEqual(['codebase/geometry/shapes.ts#Square -> codebase/geometry/shapes.ts#Base']);
+      expect(pairsOf('implements')).toEqual(['codebase/geometry/shapes.ts#Square -> codebase/geometry/shapes.ts#Shape']);
+      expect(pairsOf('calls')).toEqual(expect.arrayContaining([
+        'codebase/main.ts#run -> codebase/geometry/shapes.ts#Square.area',
+        'codebase/geometry/shapes.ts#Square.area -> codebase/geometry/shapes.ts#squareOf',
+      ]));
+      expect(edgesOf('extends')[0].weight).toBe(1);
+      expect(edgesOf('calls').every(edge => edge.weight === 0.7)).toBe(true);
+    });
+
+    it('stores each similar pair once, above the similarity threshold', () => {
+      const similar = edgesOf('similar');
+
+      expect(similar.length).toBeGreaterThan(0);
+      for (const edge of similar) {
+        expect(edge.weight).toBeGreaterThan(0.7);
+        expect(edge.source_id < edge.target_id).toBe(true);
+      }
+      expect(new Set(pairsOf('similar')).size).toBe(similar.length);
+    });
+
+    it('updates the edges of a changed file', async () => {
+      writeFileSync(path.join(codebase, 'main.ts'), 'export function run() {\n  return squareOf(3);\n}\n');
+      await search.updatePaths('g1', codebase, [path.join(codebase, 'main.ts')]);
+
+      expect(pairsOf('imports')).toEqual([]);
+      expect(pairsOf('calls')).toContain('codebase/main.ts#run -> codebase/geometry/shapes.ts#squareOf');
+      expect(pairsOf('calls')).not.toContain('codebase/main.ts#run -> codebase/geometry/shapes.ts#Square.area');
+    });
+
+    it('links changed nodes to similar ones without loading every vector of the guidance', async () => {
+      const loadAll = jest.spyOn(search as any, 'getVectorsByGuidance');
+      writeFileSync(path.join(codebase, 'geometry', 'square.ts'), 'export function squareOf(side: number) {\n  return side * side;\n}\n');
+      await search.updatePaths('g1', codebase, [path.join(codebase, 'geometry', 'square.ts')]);
+
+      expect(loadAll).not.toHaveBeenCalled();
+      expect(pairsOf('similar')).toContain('codebase/geometry/shapes.ts#squareOf -> codebase/geometry/square.ts#squareOf');
+    });
+
+    it('takes the neighbours of changed nodes from the ANN index when there is one', async () => {
+      const { id } = search['db'].prepare('SELECT id FROM vectors WHERE node_id = ?').get('codebase/main.ts#run') as { id: string };
+      const lookup = jest.spyOn(search['vectorIndex'], 'search').mockReturnValue([{ id, score: 0.9 }]);
+      writeFileSync(path.join(codebase, 'geometry', 'square.ts'), 'export function squareOf(side: number) {\n  return side * side;\n}\n');
+      await search.updatePaths('g1', codebase, [path.join(codebase, 'geometry', 'square.ts')]);
+
+      expect(lookup).toHaveBeenCalled();
+      expect(edgesOf('similar')).toContainEqual(
+        { source_id: 'codebase/geometry/square.ts#squareOf', target_id: 'codebase/main.ts#run', weight: 0.9 }
+      );
+    });
+  });
+});
@@ -1,18 +1,96 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { createHash } from 'crypto';
 import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
-import { MetadataVector, SearchResult, SearchParams, HierarchicalNode } from '../types/index.js';
-import { HierarchicalRAG } from './hierarchical-rag.js';
+import {
+  MetadataVector,
+  SearchResult,
+  SearchParams,
+  HierarchicalNode,
+  EmbeddingProvider,
+  EmbeddingEncoding,
+  IndexSummary,
+  ScanOptions,
+  SearchChannel,
+  FusionStrategy,
+} from '../types/index.js';
+import { HierarchyManager } from './hierarchy-manager.js';
+import { LocalEmbeddingProvider, splitIdentifier } from './embedding-provider.js';
+import { LshIndex, cosineSimilarity } from './lsh-index.js';
+import { Chunk, chunkCode, chunkDocument } from './chunker.js';
+import { ExtractedDocument, extractDocument, pageOf } from './document-extractor.js';
+import { VectorIndex } from './vector-index.js';
+import { decodeEmbedding, encodeEmbedding } from './embedding-codec.js';
+import { IGNORE_FILES } from './scan-filter.js';
+
+// Traversal weight of each structural relation; similarity edges use the cosine score instead
+const RELATION_WEIGHTS: Record<string, number> = {
+  contains: 0.8,
+  imports: 0.9,
+  extends: 1.0,
+  implements: 0.9,
+  calls: 0.7,
+};
+
+const EMBEDDING_BATCH_SIZE = 32;
+const SIMILAR_NEIGHBOURS = 5;
+const SIMILARITY_THRESHOLD = 0.7;
+
+// BM25 column weights of lexical_index: name, path, content, terms
+const LEXICAL_WEIGHTS = [4.0, 2.0, 1.0, 1.0];
+
+// Default fusion weight of each search channel
+const CHANNEL_WEIGHTS: Record<SearchChannel, number> = {
+  vector: 1.0,
+  lexical: 1.0,
+  structural: 0.7,
+  graph: 0.5,
+};
+
+// Vector hits at or below this cosine similarity share nothing with the query and are not ranked
+const MIN_VECTOR_SIMILARITY = 0.05;
+
+// Reciprocal rank fusion constant; larger values flatten the advantage of top ranks
+const RRF_K = 60;
+
+// Vector type stored for each result type a search can be restricted to
+const STORED_TYPES: Record<SearchResult['type'], MetadataVector['type']> = {
+  code: 'codebase',
+  document: 'external_doc',
+  guidance: 'reference',
+};
+
+// Identifiers followed by '(' that are language keywords rather than calls
+const CALL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'typeof', 'super', 'new']);
+
+// A chunk of a node's summary or code to embed
+type NodeChunk = { node: HierarchicalNode; chunk: { content: string; lineStart?: number; lineEnd?: number } };
+
+// What a similarity edge needs of a vector: its graph key
+type GraphVector = Pick<MetadataVector, 'id' | 'nodeId'>;
 
 export class HybridSearch {
   private db: Database.Database;
-  private hierarchicalRAG: HierarchicalRAG;
+  private hierarchies: HierarchyManager;
+  private embeddingProvider: EmbeddingProvider;
+  private embeddingEncoding: EmbeddingEncoding;
   private embeddings: Map<string, number[]> = new Map();
+  private vectorIndex: VectorIndex;
 
-  constructor(dbPath: string = './data/search.db', hierarchicalRAG: HierarchicalRAG) {
+  constructor(
+    dbPath: string = './data/search.db',
+    hierarchies: HierarchyManager,
+    embeddingProvider: EmbeddingProvider = new LocalEmbeddingProvider(),
+    embeddingEncoding: EmbeddingEncoding = 'float32',
+    // ANN indexes live next to the database
+    vectorIndex: VectorIndex = new VectorIndex(path.join(path.dirname(dbPath), 'vector-index'))
+  ) {
     this.db = new Database(dbPath);
-    this.hierarchicalRAG = hierarchicalRAG;
+    this.hierarchies = hierarchies;
+    this.embeddingProvider = embeddingProvider;
+    this.embeddingEncoding = embeddingEncoding;
+    this.vectorIndex = vectorIndex;
     this.initializeDatabase();
   }
 
@@ -22,126 +100,566 @@ export class HybridSearch {
       CREATE TABLE IF NOT EXISTS vectors (
         id TEXT PRIMARY KEY,
         guidance_id TEXT NOT NULL,
+        node_id TEXT,
         type TEXT NOT NULL,
         content TEXT NOT NULL,
         embedding BLOB NOT NULL,
         metadata TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        INDEX(guidance_id),
-        INDEX(type)
+        embedding_provider TEXT,
+        embedding_model TEXT,
+        embedding_dimension INTEGER,
+        content_hash TEXT,
+        created_at TEXT NOT NULL
       )
     `);
 
+    // Databases created before node links and embedding providers were recorded
+    this.ensureColumn('vectors', 'node_id', 'TEXT');
+    this.ensureColumn('vectors', 'embedding_provider', 'TEXT');
+    this.ensureColumn('vectors', 'embedding_model', 'TEXT');
+    this.ensureColumn('vectors', 'embedding_dimension', 'INTEGER');
+    this.ensureColumn('vectors', 'content_hash', 'TEXT');
+    this.ensureColumn('vectors', 'embedding_encoding', 'TEXT');
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_vectors_guidance_id ON vectors (guidance_id);
+      CREATE INDEX IF NOT EXISTS idx_vectors_type ON vectors (type);
+      CREATE INDEX IF NOT EXISTS idx_vectors_guidance_id_node_id ON vectors (guidance_id, node_id);
+    `);
+
     // Structural index table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS structural_index (
         id TEXT PRIMARY KEY,
         guidance_id TEXT NOT NULL,
         node_id TEXT NOT NULL,
+        path TEXT,
         hierarchy_path TEXT NOT NULL,
         tags TEXT,
         content_hash TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        INDEX(guidance_id),
-        INDEX(hierarchy_path),
-        INDEX(tags)
+        created_at TEXT NOT NULL
       )
     `);
 
+    // Indexes written before file paths were recorded
+    this.ensureColumn('structural_index', 'path', 'TEXT');
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_structural_index_guidance_id ON structural_index (guidance_id);
+      CREATE INDEX IF NOT EXISTS idx_structural_index_hierarchy_path ON structural_index (hierarchy_path);
+      CREATE INDEX IF NOT EXISTS idx_structural_index_tags ON structural_index (tags);
+    `);
+
     // Knowledge graph table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS knowledge_graph (
         id TEXT PRIMARY KEY,
+        guidance_id TEXT,
         source_id TEXT NOT NULL,
         target_id TEXT NOT NULL,
         relation_type TEXT NOT NULL,
         weight REAL DEFAULT 1.0,
-        created_at TEXT NOT NULL,
-        INDEX(source_id),
-        INDEX(target_id),
-        INDEX(relation_type)
+        created_at TEXT NOT NULL
       )
     `);
+
+    // Graphs written before edges were scoped to a guidance
+    this.ensureColumn('knowledge_graph', 'guidance_id', 'TEXT');
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_knowledge_graph_source_id ON knowledge_graph (source_id);
+      CREATE INDEX IF NOT EXISTS idx_knowledge_graph_target_id ON knowledge_graph (target_id);
+      CREATE INDEX IF NOT EXISTS idx_knowledge_graph_relation_type ON knowledge_graph (relation_type);
+    `);
+
+    this.initializeLexicalIndex();
+    this.migrateJsonEmbeddings();
   }
 
-  async indexGuidance(guidanceId: string, codebasePath?: string, externalDocs?: string[]): Promise<void> {
-    console.log(`Starting guidance indexing: ${guidanceId}`);
+  // Rows written before binary storage hold JSON arrays (embedding_encoding IS NULL); re-encode them in place
+  private migrateJsonEmbeddings(): void {
+    const select = this.db.prepare('SELECT rowid, embedding FROM vectors WHERE embedding_encoding IS NULL LIMIT 500');
+    const update = this.db.prepare('UPDATE vectors SET embedding = ?, embedding_encoding = ? WHERE rowid = ?');
+    const migrateBatch = this.db.transaction((rows: any[]) => {
+      for (const row of rows) {
+        const embedding = decodeEmbedding(row.embedding, null);
+        update.run(encodeEmbedding(embedding, this.embeddingEncoding), this.embeddingEncoding, row.rowid);
+      }
+    });
 
-    // 1. Codebase indexing
-    if (codebasePath) {
-      await this.indexCodebase(guidanceId, codebasePath);
+    let migrated = 0;
+    for (let rows = select.all() as any[]; rows.length > 0; rows = select.all() as any[]) {
+      migrateBatch(rows);
+      migrated += rows.length;
     }
 
-    // 2. External document indexing
-    if (externalDocs && externalDocs.length > 0) {
-      await this.indexExternalDocuments(guidanceId, externalDocs);
+    if (migrated > 0) {
+      console.error(`Migrated ${migrated} JSON embeddings to ${this.embeddingEncoding} storage`);
     }
+  }
 
-    // 3. Knowledge graph construction
-    await this.buildKnowledgeGraph(guidanceId);
+  // Full-text index over vector rows (rowid = vectors.rowid); `terms` holds the words of compound identifiers
+  private initializeLexicalIndex(): void {
+    const exists = this.db.prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'lexical_index'"
+    ).get();
+    if (exists) return;
 
-    console.log(`Guidance indexing completed: ${guidanceId}`);
+    this.db.exec(`
+      CREATE VIRTUAL TABLE lexical_index USING fts5(
+        name,
+        path,
+        content,
+        terms,
+        tokenize = 'unicode61 remove_diacritics 2'
+      )
+    `);
+
+    // Databases indexed before the lexical channel existed
+    const rows = this.db.prepare('SELECT rowid, type, content, metadata FROM vectors').all() as any[];
+    const backfill = this.db.transaction(() => {
+      for (const row of rows) {
+        this.storeLexicalEntry(row.rowid, row.type, row.content, JSON.parse(row.metadata));
+      }
+    });
+    backfill();
+  }
+
+  private ensureColumn(table: string, column: string, definition: string): void {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some(col => col.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  async indexGuidance(
+    guidanceId: string,
+    codebasePaths?: string | string[],
+    externalDocs?: string[],
+    scanOptions?: ScanOptions,
+    // Drop everything indexed for the guidance first, e.g. after switching embedding providers
+    reembed: boolean = false
+  ): Promise<IndexSummary> {
+    console.error(`Starting guidance indexing: ${guidanceId}`);
+
+    const givenPaths = (typeof codebasePaths === 'string' ? [codebasePaths] : codebasePaths || []).map(root => path.resolve(root));
+    // Other registered roots are re-embedded with the scan options they were last built with
+    const otherRoots: string[] = [];
+
+    if (reembed) {
+      // Everything is cleared, so every registered root and document indexed before is embedded again
+      otherRoots.push(...this.getCodebaseRoots(guidanceId).map(root => root.rootPath).filter(root => !givenPaths.includes(root)));
+      externalDocs = externalDocs ?? this.getIndexedDocuments(guidanceId);
+      this.clearGuidanceIndex(guidanceId);
+    } else {
+      // Refuse to mix vectors from different embedding models in one guidance
+      this.assertEmbeddingCompatibility(guidanceId);
+    }
+
+    const summary: IndexSummary = { added: 0, changed: 0, removed: 0, unchanged: 0, skipped: [] };
+
+    // 1. Codebase indexing, one registered root at a time
+    for (const codebasePath of givenPaths) {
+      await this.indexCodebase(guidanceId, codebasePath, summary, scanOptions);
+    }
+    for (const codebasePath of otherRoots) {
+      await this.indexCodebase(guidanceId, codebasePath, summary);
+    }
+
+    // 2. External document indexing; a given list replaces the documents indexed before
+    if (externalDocs) {
+      await this.indexExternalDocuments(guidanceId, externalDocs, summary);
+    }
+
+    // 3. Knowledge graph construction, skipped when nothing changed
+    if (summary.added + summary.changed + summary.removed > 0) {
+      await this.buildKnowledgeGraph(guidanceId);
+    }
+
+    // 4. Persist the ANN index
+    this.syncVectorIndex(guidanceId);
+
+    console.error(
+      `Guidance indexing completed: ${guidanceId} ` +
+      `(${summary.added} added, ${summary.changed} changed, ${summary.removed} removed, ${summary.unchanged} unchanged, ` +
+      `${summary.skipped!.length} skipped)`
+    );
+    return summary;
   }
 
-  private async indexCodebase(guidanceId: string, codebasePath: string): Promise<void> {
+  private async indexCodebase(
+    guidanceId: string,
+    codebasePath: string,
+    summary: IndexSummary,
+    scanOptions?: ScanOptions
+  ): Promise<void> {
     // Analyze codebase structure using hierarchical RAG
-    await this.hierarchicalRAG.buildHierarchy(codebasePath);
+    const hierarchy = this.hierarchies.get(guidanceId);
+    summary.skipped!.push(...await hierarchy.buildHierarchy(codebasePath, scanOptions));
     
-    const nodes = this.hierarchicalRAG.getAllNodes();
+    const rootPath = path.resolve(codebasePath);
+    hierarchy.persist([rootPath]);
+    const nodes = hierarchy.getAllNodes().filter(node => this.isIndexable(node) && this.isWithinRoot(node.path, rootPath));
     
-    for (const node of nodes) {
-      if (node.content) {
-        // Generate vector embedding
-        const embedding = await this.generateEmbedding(node.content);
-        
-        // Store vector
-        const vectorId = uuidv4();
-        const vector: MetadataVector = {
-          id: vectorId,
-          guidanceId,
-          type: 'codebase',
-          content: node.content,
-          embedding,
-          metadata: {
-            source: node.path,
-            path: node.path,
-            hierarchy: this.getHierarchyPath(node),
-            tags: this.extractTags(node),
-          },
-          createdAt: new Date().toISOString(),
-        };
+    await this.syncNodes(guidanceId, nodes, this.getIndexedHashes(guidanceId, [rootPath], true), summary);
+  }
 
-        await this.storeVector(vector);
+  getCodebaseRoots(guidanceId: string): Array<{ rootPath: string; name: string; scanOptions: ScanOptions }> {
+    return this.hierarchies.get(guidanceId).getRoots();
+  }
 
-        // Store structural index
-        await this.storeStructuralIndex(guidanceId, node);
+  // Unregister a codebase root and delete everything indexed from it
+  async removeCodebaseRoot(guidanceId: string, rootPath: string): Promise<number> {
+    const hierarchy = this.hierarchies.get(guidanceId);
+    const removedIds = hierarchy.removeRoot(rootPath);
+    // Nodes still in the hierarchy belong to roots nested inside this one
+    const indexedIds = [...this.getIndexedHashes(guidanceId, [path.resolve(rootPath)]).keys()]
+      .filter(nodeId => !hierarchy.getNode(nodeId));
+    
+    this.removeIndexedNodes(guidanceId, [...new Set([...removedIds, ...indexedIds])]);
+    this.syncVectorIndex(guidanceId);
+    return removedIds.length;
+  }
+
+  // Incrementally update the index for files or directories that changed under a codebase root
+  async updatePaths(guidanceId: string, codebasePath: string, changedPaths: string[]): Promise<IndexSummary> {
+    this.assertEmbeddingCompatibility(guidanceId);
+    
+    // An edited ignore file can change what is skipped anywhere below its directory
+    const scopes = [...new Set(changedPaths.map(changedPath => {
+      const resolved = path.resolve(changedPath);
+      return IGNORE_FILES.includes(path.basename(resolved)) ? path.dirname(resolved) : resolved;
+    }))];
+    const summary: IndexSummary = { added: 0, changed: 0, removed: 0, unchanged: 0 };
+    
+    const hierarchy = this.hierarchies.get(guidanceId);
+    summary.skipped = await hierarchy.refreshPaths(codebasePath, scopes);
+    hierarchy.persist(scopes);
+    
+    const nodes = hierarchy.getAllNodes()
+      .filter(node => this.isIndexable(node) && scopes.some(scope => this.isWithinRoot(node.path, scope)));
+    const indexed = this.getIndexedHashes(guidanceId, scopes);
+    
+    // Directories above the changed paths were re-summarized
+    const ancestors = new Map<string, HierarchicalNode>();
+    for (const scope of scopes) {
+      const parent = hierarchy.getNodeByPath(path.dirname(scope));
+      for (const node of parent ? [...hierarchy.getAncestors(parent.id), parent] : []) {
+        if (this.isIndexable(node) && !scopes.some(scope => this.isWithinRoot(node.path, scope))) {
+          ancestors.set(node.id, node);
+        }
       }
     }
+    nodes.push(...ancestors.values());
+    for (const [nodeId, hashes] of this.getIndexedHashesOf(guidanceId, [...ancestors.keys()])) {
+      indexed.set(nodeId, hashes);
+    }
+    
+    // Nodes with edges into the touched ones need their outgoing edges recomputed as well
+    const touchedIds = [...new Set([...indexed.keys(), ...nodes.map(node => node.id)])];
+    const linkedIds = this.getLinkedSources(guidanceId, touchedIds);
+    
+    const pending = await this.syncNodes(guidanceId, nodes, indexed, summary);
+    
+    if (summary.added + summary.changed + summary.removed > 0) {
+      this.updateKnowledgeGraph(guidanceId, pending, linkedIds);
+    }
+    
+    this.syncVectorIndex(guidanceId);
+    
+    return summary;
   }
 
-  private async indexExternalDocuments(guidanceId: string, docPaths: string[]): Promise<void> {
-    for (const docPath of docPaths) {
-      try {
-        const content = await this.extractDocumentContent(docPath);
-        if (content) {
-          const embedding = await this.generateEmbedding(content);
-          
-          const vectorId = uuidv4();
-          const vector: MetadataVector = {
-            id: vectorId,
+  // Diff nodes against their indexed content hashes, delete stale rows and embed added/changed nodes
+  private async syncNodes(
+    guidanceId: string,
+    nodes: HierarchicalNode[],
+    indexed: Map<string, string[]>,
+    summary: IndexSummary
+  ): Promise<HierarchicalNode[]> {
+    const remaining = new Map(indexed);
+    const pending: HierarchicalNode[] = [];
+    
+    for (const node of nodes) {
+      const hashes = remaining.get(node.id);
+      remaining.delete(node.id);
+      
+      if (!hashes) {
+        summary.added++;
+        pending.push(node);
+      } else if (hashes.length !== 1 || hashes[0] !== this.hashContent(this.indexedText(node))) {
+        // Duplicate rows from older runs are treated as a change so they get cleaned up
+        summary.changed++;
+        pending.push(node);
+      } else {
+        summary.unchanged++;
+      }
+    }
+    
+    // Whatever is left in the index no longer exists in the tree
+    const removedIds = [...remaining.keys()];
+    summary.removed += removedIds.length;
+    this.removeIndexedNodes(guidanceId, removedIds);
+    
+    // Added and changed nodes are embedded before their old rows are replaced, one transaction per batch,
+    // so a failing embedding provider leaves the nodes it did not reach as they were indexed before
+    for (const batch of this.batchNodes(guidanceId, pending)) {
+      const embeddings: number[][] = [];
+      for (let i = 0; i < batch.chunks.length; i += EMBEDDING_BATCH_SIZE) {
+        const texts = batch.chunks.slice(i, i + EMBEDDING_BATCH_SIZE).map(({ chunk }) => chunk.content);
+        embeddings.push(...await this.embeddingProvider.embed(texts));
+      }
+      
+      const replace = this.db.transaction(() => {
+        this.removeIndexedNodes(guidanceId, batch.nodes.map(node => node.id));
+        
+        batch.chunks.forEach(({ node, chunk }, j) => {
+          this.storeVector({
+            id: uuidv4(),
             guidanceId,
-            type: 'external_doc',
-            content,
-            embedding,
+            nodeId: node.id,
+            type: 'codebase',
+            content: chunk.content,
+            embedding: embeddings[j],
             metadata: {
-              source: docPath,
-              path: docPath,
-              tags: this.extractDocumentTags(content),
+              source: node.path,
+              path: node.path,
+              lineStart: chunk.lineStart,
+              lineEnd: chunk.lineEnd,
+              hierarchy: this.getHierarchyPath(guidanceId, node),
+              tags: this.extractTags(node),
             },
             createdAt: new Date().toISOString(),
-          };
+          }, this.hashContent(this.indexedText(node)));
+        });
+        
+        // Store structural index
+        for (const node of batch.nodes) {
+          this.storeStructuralIndex(guidanceId, node);
+        }
+      });
+      replace();
+    }
+    
+    return pending;
+  }
 
-          await this.storeVector(vector);
+  // Whole nodes with their chunks, about EMBEDDING_BATCH_SIZE chunks per batch; a node's summary is embedded as
+  // a chunk of its own, ahead of its code. A node with more chunks than that gets a batch of its own.
+  private batchNodes(guidanceId: string, nodes: HierarchicalNode[]): Array<{ nodes: HierarchicalNode[]; chunks: NodeChunk[] }> {
+    const batches: Array<{ nodes: HierarchicalNode[]; chunks: NodeChunk[] }> = [];
+    let batch: { nodes: HierarchicalNode[]; chunks: NodeChunk[] } = { nodes: [], chunks: [] };
+    
+    for (const node of nodes) {
+      const chunks: NodeChunk[] = [
+        ...(node.summary ? [{ node, chunk: { content: node.summary } }] : []),
+        ...(node.content ? this.chunkNode(guidanceId, node).map(chunk => ({ node, chunk })) : []),
+      ];
+      if (batch.chunks.length > 0 && batch.chunks.length + chunks.length > EMBEDDING_BATCH_SIZE) {
+        batches.push(batch);
+        batch = { nodes: [], chunks: [] };
+      }
+      batch.nodes.push(node);
+      batch.chunks.push(...chunks);
+    }
+    if (batch.nodes.length > 0) batches.push(batch);
+    
+    return batches;
+  }
+
+  // A node's own text: nested declarations are embedded as separate nodes and only leave their first line here
+  private chunkNode(guidanceId: string, node: HierarchicalNode): Chunk[] {
+    const declarations = this.hierarchies.get(guidanceId).getChildren(node.id)
+      .filter(child => child.metadata.lineStart !== undefined && child.metadata.lineEnd !== undefined)
+      .map(child => ({ lineStart: child.metadata.lineStart!, lineEnd: child.metadata.lineEnd! }));
+
+    return chunkCode(node.content!, node.metadata.lineStart ?? 1, declarations);
+  }
+
+  // Directories are indexed by their summary, files and declarations by their content (and summary)
+  private isIndexable(node: HierarchicalNode): boolean {
+    return !!(node.content || node.summary);
+  }
+
+  private indexedText(node: HierarchicalNode): string {
+    return node.summary ? `${node.summary}\n${node.content || ''}` : node.content || '';
+  }
+
+  private isWithinRoot(filePath: string, rootPath: string): boolean {
+    return filePath === rootPath || filePath.startsWith(rootPath + path.sep);
+  }
+
+  private hashContent(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+  }
+
+  // node_id -> content hashes of its structural_index rows under the given files or directories
+  private getIndexedHashes(guidanceId: string, scopes: string[], includeUnscoped: boolean = false): Map<string, string[]> {
+    const stmt = this.db.prepare(`
+      SELECT node_id, content_hash FROM structural_index
+      WHERE guidance_id = ? AND (path = ? OR path LIKE ?)
+    `);
+    const rows = scopes.flatMap(scope => stmt.all(guidanceId, scope, `${scope}${path.sep}%`) as any[]);
+
+    // Rows written before paths were recorded are included in full re-indexes so they are cleaned up
+    if (includeUnscoped) {
+      rows.push(...this.db.prepare(
+        'SELECT node_id, content_hash FROM structural_index WHERE guidance_id = ? AND path IS NULL'
+      ).all(guidanceId) as any[]);
+    }
+
+    const hashes = new Map<string, string[]>();
+    for (const row of rows) {
+      hashes.set(row.node_id, [...(hashes.get(row.node_id) || []), row.content_hash]);
+    }
+    return hashes;
+  }
+
+  private getIndexedHashesOf(guidanceId: string, nodeIds: string[]): Map<string, string[]> {
+    const stmt = this.db.prepare('SELECT content_hash FROM structural_index WHERE guidance_id = ? AND node_id = ?');
+    const hashes = new Map<string, string[]>();
+    for (const nodeId of nodeIds) {
+      const rows = stmt.all(guidanceId, nodeId) as any[];
+      if (rows.length > 0) hashes.set(nodeId, rows.map(row => row.content_hash));
+    }
+    return hashes;
+  }
+
+  private getLinkedSources(guidanceId: string, targetIds: string[]): string[] {
+    const stmt = this.db.prepare('SELECT source_id FROM knowledge_graph WHERE guidance_id = ? AND target_id = ?');
+    const sources = new Set<string>();
+
+    for (const targetId of targetIds) {
+      for (const row of stmt.all(guidanceId, targetId) as any[]) {
+        sources.add(row.source_id);
+      }
+    }
+    return [...sources];
+  }
+
+  // Delete vectors, structural rows and graph edges of the given nodes
+  private removeIndexedNodes(guidanceId: string, nodeIds: string[]): void {
+    const selectVectorIds = this.db.prepare('SELECT id FROM vectors WHERE guidance_id = ? AND node_id = ?');
+    const vectorIds = nodeIds.flatMap(id => (selectVectorIds.all(guidanceId, id) as any[]).map(row => row.id as string));
+
+    const remove = this.db.transaction((ids: string[]) => {
+      const deleteLexical = this.db.prepare(
+        'DELETE FROM lexical_index WHERE rowid IN (SELECT rowid FROM vectors WHERE guidance_id = ? AND node_id = ?)'
+      );
+      const deleteVectors = this.db.prepare('DELETE FROM vectors WHERE guidance_id = ? AND node_id = ?');
+      const deleteStructural = this.db.prepare('DELETE FROM structural_index WHERE guidance_id = ? AND node_id = ?');
+      const deleteEdges = this.db.prepare('DELETE FROM knowledge_graph WHERE guidance_id = ? AND (source_id = ? OR target_id = ?)');
+
+      for (const id of ids) {
+        deleteLexical.run(guidanceId, id);
+        deleteVectors.run(guidanceId, id);
+        deleteStructural.run(guidanceId, id);
+        deleteEdges.run(guidanceId, id, id);
+      }
+    });
+
+    remove(nodeIds);
+    this.vectorIndex.remove(guidanceId, vectorIds);
+  }
+
+  private getIndexedDocuments(guidanceId: string): string[] {
+    return (this.db.prepare(
+      "SELECT DISTINCT node_id FROM vectors WHERE guidance_id = ? AND type = 'external_doc'"
+    ).all(guidanceId) as any[]).map(row => (row.node_id as string).replace(/^doc:/, ''));
+  }
+
+  // Delete every vector, structural row, graph edge and lexical entry of the guidance, and its ANN index
+  clearGuidanceIndex(guidanceId: string): void {
+    const clear = this.db.transaction(() => {
+      this.db.prepare(
+        'DELETE FROM lexical_index WHERE rowid IN (SELECT rowid FROM vectors WHERE guidance_id = ?)'
+      ).run(guidanceId);
+      this.db.prepare('DELETE FROM vectors WHERE guidance_id = ?').run(guidanceId);
+      this.db.prepare('DELETE FROM structural_index WHERE guidance_id = ?').run(guidanceId);
+      this.db.prepare('DELETE FROM knowledge_graph WHERE guidance_id = ?').run(guidanceId);
+    });
+
+    clear();
+    this.vectorIndex.drop(guidanceId);
+  }
+
+  // Delete everything indexed for a deleted guidance, including its hierarchy and codebase roots
+  removeGuidance(guidanceId: string): void {
+    this.clearGuidanceIndex(guidanceId);
+    this.hierarchies.remove(guidanceId);
+  }
+
+  private async indexExternalDocuments(guidanceId: string, docPaths: string[], summary: IndexSummary): Promise<void> {
+    // Documents indexed before that are no longer listed or no longer exist are removed
+    const listedKeys = new Set<string>();
+    for (const docPath of docPaths) {
+      if (await fs.stat(docPath).catch(() => null)) {
+        listedKeys.add(`doc:${path.resolve(docPath)}`);
+      }
+    }
+    const staleKeys = (this.db.prepare(
+      "SELECT DISTINCT node_id FROM vectors WHERE guidance_id = ? AND type = 'external_doc'"
+    ).all(guidanceId) as any[]).map(row => row.node_id as string).filter(key => !listedKeys.has(key));
+    if (staleKeys.length > 0) {
+      this.removeIndexedNodes(guidanceId, staleKeys);
+      summary.removed += staleKeys.length;
+    }
+
+    for (const docPath of docPaths) {
+      try {
+        const document = await this.extractDocumentContent(docPath);
+        if (document) {
+          const content = document.content;
+          // Documents are keyed by their resolved path, so re-indexing replaces instead of duplicating
+          const docKey = `doc:${path.resolve(docPath)}`;
+          const contentHash = this.hashContent(content);
+          const existing = this.db.prepare(
+            'SELECT content_hash FROM vectors WHERE guidance_id = ? AND node_id = ?'
+          ).all(guidanceId, docKey) as any[];
+          
+          if (existing.length > 0 && existing.every(row => row.content_hash === contentHash)) {
+            summary.unchanged++;
+            continue;
+          }
+          
+          // Split into heading sections or token windows, one vector per chunk
+          const chunks = chunkDocument(content, document.markdown);
+          const tags = this.extractDocumentTags(content);
+          
+          // Embedded before the old version is removed, so a failing provider leaves it searchable
+          const embeddings: number[][] = [];
+          for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+            embeddings.push(...await this.embeddingProvider.embed(chunks.slice(i, i + EMBEDDING_BATCH_SIZE).map(chunk => chunk.content)));
+          }
+          
+          const replace = this.db.transaction(() => {
+            this.removeIndexedNodes(guidanceId, [docKey]);
+            
+            chunks.forEach((chunk, j) => {
+              this.storeVector({
+                id: uuidv4(),
+                guidanceId,
+                nodeId: docKey,
+                type: 'external_doc',
+                content: chunk.content,
+                embedding: embeddings[j],
+                metadata: {
+                  source: docPath,
+                  path: docPath,
+                  lineStart: document.sourceLines ? chunk.lineStart : undefined,
+                  lineEnd: document.sourceLines ? chunk.lineEnd : undefined,
+                  page: document.mimeType === 'application/pdf' ? pageOf(chunk.hierarchy) : undefined,
+                  hierarchy: chunk.hierarchy,
+                  tags,
+                },
+                createdAt: new Date().toISOString(),
+              }, contentHash);
+            });
+          });
+          replace();
+          
+          if (existing.length > 0) {
+            summary.changed++;
+          } else {
+            summary.added++;
+          }
         }
       } catch (error) {
         console.error(`Failed to index external document: ${docPath}`, error);
@@ -149,21 +667,9 @@ export class HybridSearch {
     }
   }
 
-  private async extractDocumentContent(filePath: string): Promise<string | null> {
-    const ext = path.extname(filePath).toLowerCase();
-    
+  private async extractDocumentContent(filePath: string): Promise<ExtractedDocument | null> {
     try {
-      switch (ext) {
-        case '.md':
-        case '.txt':
-          return await fs.readFile(filePath, 'utf-8');
-        case '.json':
-          const jsonContent = await fs.readFile(filePath, 'utf-8');
-          return JSON.stringify(JSON.parse(jsonContent), null, 2);
-        default:
-          console.warn(`Unsupported file format: ${ext}`);
-          return null;
-      }
+      return await extractDocument(filePath);
     } catch (error) {
       console.error(`Failed to extract document content: ${filePath}`, error);
       return null;
@@ -171,61 +677,140 @@ export class HybridSearch {
   }
 
   private async generateEmbedding(text: string): Promise<number[]> {
-    // Simple hash-based embedding (in practice, use OpenAI API etc.)
-    // In actual implementation, use OpenAI's text-embedding-ada-002 etc.
-    const hash = this.simpleHash(text);
-    const embedding = new Array(1536).fill(0);
-    
-    for (let i = 0; i < Math.min(hash.length, 1536); i++) {
-      embedding[i] = (hash.charCodeAt(i % hash.length) - 128) / 128;
-    }
-    
+    const [embedding] = await this.embeddingProvider.embed([text]);
     return embedding;
   }
 
-  private simpleHash(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // 32bit integer로 변환
+  // Guidances with vectors from another embedding provider, model or dimension than the current one
+  getIncompatibleGuidances(guidanceId?: string): Array<{ guidanceId: string; indexedWith: string }> {
+    let sql = `
+      SELECT DISTINCT guidance_id, embedding_provider, embedding_model, embedding_dimension
+      FROM vectors
+      WHERE (embedding_provider IS NOT ? OR embedding_model IS NOT ? OR embedding_dimension IS NOT ?)
+    `;
+    const params: any[] = [this.embeddingProvider.name, this.embeddingProvider.model, this.embeddingProvider.dimension];
+
+    if (guidanceId) {
+      sql += ' AND guidance_id = ?';
+      params.push(guidanceId);
+    }
+
+    const incompatible = new Map<string, string>();
+    for (const row of this.db.prepare(sql).all(...params) as any[]) {
+      if (incompatible.has(row.guidance_id)) continue;
+      incompatible.set(row.guidance_id, row.embedding_provider
+        ? `${row.embedding_provider}/${row.embedding_model} (${row.embedding_dimension} dimensions)`
+        : 'an unrecorded legacy embedding');
+    }
+    return [...incompatible].map(([id, indexedWith]) => ({ guidanceId: id, indexedWith }));
+  }
+
+  private assertEmbeddingCompatibility(guidanceId: string): void {
+    const [mismatch] = this.getIncompatibleGuidances(guidanceId);
+    if (mismatch) {
+      throw new Error(
+        `Guidance ${mismatch.guidanceId} was indexed with ${mismatch.indexedWith}, but the current embedding provider is ` +
+        `${this.embeddingProvider.name}/${this.embeddingProvider.model} (${this.embeddingProvider.dimension} dimensions). ` +
+        `Re-index it with reembed: true before mixing embedding models.`
+      );
     }
-    return Math.abs(hash).toString(36);
   }
 
-  private async storeVector(vector: MetadataVector): Promise<void> {
+  // contentHash is the hash of the whole node or document the vector was chunked from
+  private storeVector(vector: MetadataVector, contentHash: string): void {
     const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO vectors 
-      (id, guidance_id, type, content, embedding, metadata, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      (id, guidance_id, node_id, type, content, embedding, embedding_encoding, metadata, embedding_provider, embedding_model, embedding_dimension, content_hash, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    stmt.run(
+    const info = stmt.run(
       vector.id,
       vector.guidanceId,
+      vector.nodeId ?? null,
       vector.type,
       vector.content,
-      JSON.stringify(vector.embedding),
+      encodeEmbedding(vector.embedding, this.embeddingEncoding),
+      this.embeddingEncoding,
       JSON.stringify(vector.metadata),
+      this.embeddingProvider.name,
+      this.embeddingProvider.model,
+      this.embeddingProvider.dimension,
+      contentHash,
       vector.createdAt
     );
+
+    this.storeLexicalEntry(info.lastInsertRowid, vector.type, vector.content, vector.metadata);
+    this.vectorIndex.add(vector.guidanceId, [{ id: vector.id, embedding: vector.embedding }]);
+  }
+
+  private readEmbedding(row: { embedding: Buffer | string; embedding_encoding: EmbeddingEncoding | null }): number[] {
+    return decodeEmbedding(row.embedding, row.embedding_encoding);
+  }
+
+  // Save the guidance's ANN index, rebuilding it from the vectors table when it drifted or holds too many removals
+  private syncVectorIndex(guidanceId: string): void {
+    if (!this.vectorIndex.available) return;
+
+    const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM vectors WHERE guidance_id = ?').get(guidanceId) as any;
+    if (this.vectorIndex.size(guidanceId) !== count || this.vectorIndex.needsCompaction(guidanceId)) {
+      this.rebuildGuidanceIndex(guidanceId);
+    } else {
+      this.vectorIndex.save(guidanceId);
+    }
+  }
+
+  // Rebuild ANN indexes from the vectors table, for one guidance or all of them
+  async rebuildVectorIndex(guidanceId?: string): Promise<Array<{ guidanceId: string; vectors: number }>> {
+    if (!this.vectorIndex.available) {
+      throw new Error('Vector index is unavailable: faiss-node could not be loaded');
+    }
+
+    const guidanceIds = guidanceId
+      ? [guidanceId]
+      : (this.db.prepare('SELECT DISTINCT guidance_id FROM vectors').all() as any[]).map(row => row.guidance_id as string);
+
+    return guidanceIds.map(id => ({ guidanceId: id, vectors: this.rebuildGuidanceIndex(id) }));
+  }
+
+  private rebuildGuidanceIndex(guidanceId: string): number {
+    const rows = this.db.prepare('SELECT id, embedding, embedding_encoding FROM vectors WHERE guidance_id = ?').all(guidanceId) as any[];
+    this.vectorIndex.rebuild(guidanceId, rows.map(row => ({ id: row.id, embedding: this.readEmbedding(row) })));
+    return rows.length;
   }
 
-  private async storeStructuralIndex(guidanceId: string, node: HierarchicalNode): Promise<void> {
+  private storeLexicalEntry(rowid: number | bigint, type: string, content: string, metadata: MetadataVector['metadata']): void {
+    const hierarchy = metadata.hierarchy || [];
+    // Code chunks are named after their node; document chunks after their heading path
+    const name = type === 'codebase' ? hierarchy[hierarchy.length - 1] || '' : hierarchy.join(' ');
+    const terms = new Set<string>();
+
+    for (const identifier of `${name} ${metadata.path || ''} ${content}`.match(/[A-Za-z][A-Za-z0-9]*/g) || []) {
+      const words = splitIdentifier(identifier);
+      if (words.length > 1) words.forEach(word => terms.add(word));
+    }
+
+    this.db.prepare(
+      'INSERT OR REPLACE INTO lexical_index (rowid, name, path, content, terms) VALUES (?, ?, ?, ?, ?)'
+    ).run(rowid, name, metadata.path || metadata.source, content, [...terms].join(' '));
+  }
+
+  private storeStructuralIndex(guidanceId: string, node: HierarchicalNode): void {
     const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO structural_index
-      (id, guidance_id, node_id, hierarchy_path, tags, content_hash, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      (id, guidance_id, node_id, path, hierarchy_path, tags, content_hash, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    const hierarchyPath = this.getHierarchyPath(node).join('/');
+    const hierarchyPath = this.getHierarchyPath(guidanceId, node).join('/');
     const tags = (this.extractTags(node) || []).join(',');
-    const contentHash = this.simpleHash(node.content || '');
+    const contentHash = this.hashContent(this.indexedText(node));
 
     stmt.run(
       uuidv4(),
       guidanceId,
       node.id,
+      node.path,
       hierarchyPath,
       tags,
       contentHash,
@@ -233,18 +818,32 @@ export class HybridSearch {
     );
   }
 
-  private getHierarchyPath(node: HierarchicalNode): string[] {
+  private getHierarchyPath(guidanceId: string, node: HierarchicalNode): string[] {
+    const hierarchy = this.hierarchies.get(guidanceId);
     const path: string[] = [];
     let currentNode: HierarchicalNode | undefined = node;
     
     while (currentNode) {
       path.unshift(currentNode.name);
-      currentNode = this.hierarchicalRAG.getParent(currentNode.id);
+      currentNode = hierarchy.getParent(currentNode.id);
     }
     
     return path;
   }
 
+  // Look a node up in one guidance's hierarchy, or in every hierarchy when no guidance is given
+  private findNode(nodeId: string, guidanceId?: string): { node: HierarchicalNode; guidanceId: string } | undefined {
+    const candidates = guidanceId
+      ? [{ guidanceId, hierarchy: this.hierarchies.get(guidanceId) }]
+      : this.hierarchies.getAll();
+
+    for (const candidate of candidates) {
+      const node = candidate.hierarchy.getNode(nodeId);
+      if (node) return { node, guidanceId: candidate.guidanceId };
+    }
+    return undefined;
+  }
+
   private extractTags(node: HierarchicalNode): string[] {
     const tags: string[] = [];
     
@@ -288,59 +887,278 @@ export class HybridSearch {
   }
 
   private async buildKnowledgeGraph(guidanceId: string): Promise<void> {
-    // Build relationships based on similarity between vectors
     const vectors = this.getVectorsByGuidance(guidanceId);
-    
-    for (let i = 0; i < vectors.length; i++) {
-      for (let j = i + 1; j < vectors.length; j++) {
-        const similarity = this.calculateSimilarity(vectors[i].embedding, vectors[j].embedding);
-        
-        if (similarity > 0.7) { // Threshold
-          await this.addRelation(vectors[i].id, vectors[j].id, 'similar', similarity);
+    const nodes = this.getGuidanceNodes(guidanceId, vectors.map(vector => vector.nodeId));
+
+    const rebuild = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM knowledge_graph WHERE guidance_id = ?').run(guidanceId);
+      this.addStructuralRelations(guidanceId, nodes);
+      this.addSimilarityRelations(guidanceId, vectors);
+    });
+
+    rebuild();
+  }
+
+  // Hierarchy nodes referenced by the guidance's vectors, plus their ancestors
+  private getGuidanceNodes(guidanceId: string, nodeIds: Array<string | undefined>): HierarchicalNode[] {
+    const hierarchy = this.hierarchies.get(guidanceId);
+    const nodes = new Map<string, HierarchicalNode>();
+
+    for (const nodeId of nodeIds) {
+      let node = nodeId ? hierarchy.getNode(nodeId) : undefined;
+      while (node && !nodes.has(node.id)) {
+        nodes.set(node.id, node);
+        node = hierarchy.getParent(node.id);
+      }
+    }
+
+    return Array.from(nodes.values());
+  }
+
+  // Incremental counterpart of buildKnowledgeGraph: recompute edges of changed nodes and of nodes linking to them.
+  // Only the vectors of changed nodes are loaded; their neighbours come from the ANN index
+  private updateKnowledgeGraph(guidanceId: string, changedNodes: HierarchicalNode[], linkedIds: string[]): void {
+    const indexedIds = (this.db.prepare(
+      'SELECT DISTINCT node_id FROM vectors WHERE guidance_id = ? AND node_id IS NOT NULL'
+    ).all(guidanceId) as any[]).map(row => row.node_id as string);
+    const nodes = this.getGuidanceNodes(guidanceId, indexedIds);
+    const changedIds = new Set(changedNodes.map(node => node.id));
+    const sourceIds = new Set([
+      ...changedIds,
+      ...linkedIds,
+      ...changedNodes.map(node => node.parentId).filter((id): id is string => !!id),
+    ]);
+
+    const changed = this.getVectorsOfNodes(guidanceId, [...changedIds]);
+    const neighbours = this.findSimilarVectors(guidanceId, changed);
+
+    const update = this.db.transaction(() => {
+      this.addStructuralRelations(guidanceId, nodes, nodes.filter(node => sourceIds.has(node.id)));
+      for (const vector of changed) {
+        for (const { other, score } of neighbours.get(vector.id)!) {
+          this.addSimilarRelation(guidanceId, vector, other, score);
+        }
+      }
+    });
+
+    update();
+  }
+
+  private addStructuralRelations(guidanceId: string, nodes: HierarchicalNode[], sources: HierarchicalNode[] = nodes): void {
+    const filesByPath = new Map<string, HierarchicalNode>();
+    const typesByName = new Map<string, HierarchicalNode[]>();
+    const functionsByName = new Map<string, HierarchicalNode[]>();
+
+    for (const node of nodes) {
+      if (node.type === 'file') {
+        filesByPath.set(node.path, node);
+      } else if (node.type === 'class' || node.type === 'interface' || node.type === 'struct') {
+        typesByName.set(node.name, [...(typesByName.get(node.name) || []), node]);
+      } else if (node.type === 'function' || node.type === 'method') {
+        functionsByName.set(node.name, [...(functionsByName.get(node.name) || []), node]);
+      }
+    }
+
+    for (const node of sources) {
+      // contains: directory -> file -> code element
+      for (const childId of node.children) {
+        this.addRelation(guidanceId, node.id, childId, 'contains', RELATION_WEIGHTS.contains);
+      }
+
+      // imports: file -> imported file
+      if (node.type === 'file') {
+        for (const specifier of node.metadata.dependencies || []) {
+          const target = this.resolveImport(node.path, specifier, filesByPath);
+          if (target && target.id !== node.id) {
+            this.addRelation(guidanceId, node.id, target.id, 'imports', RELATION_WEIGHTS.imports);
+          }
+        }
+        continue;
+      }
+
+      // extends / implements: type -> base type
+      for (const relation of ['extends', 'implements'] as const) {
+        for (const baseName of node.metadata[relation] || []) {
+          const target = this.pickByProximity(typesByName.get(baseName.split('.').pop()!), node);
+          if (target && target.id !== node.id) {
+            this.addRelation(guidanceId, node.id, target.id, relation, RELATION_WEIGHTS[relation]);
+          }
+        }
+      }
+
+      // calls: code element -> called function
+      for (const calleeName of this.extractCalls(node.content || '')) {
+        const target = this.pickByProximity(functionsByName.get(calleeName), node);
+        if (target && target.id !== node.id) {
+          this.addRelation(guidanceId, node.id, target.id, 'calls', RELATION_WEIGHTS.calls);
+        }
+      }
+    }
+  }
+
+  private resolveImport(fromPath: string, specifier: string, filesByPath: Map<string, HierarchicalNode>): HierarchicalNode | undefined {
+    // Package imports are outside the codebase
+    if (!specifier.startsWith('.')) return undefined;
+
+    const base = path.resolve(path.dirname(fromPath), specifier);
+    // ESM TypeScript imports reference the compiled .js file
+    const withoutJs = base.replace(/\.jsx?$/, '');
+    const candidates = [
+      base,
+      ...['.ts', '.tsx', '.js', '.jsx'].map(ext => withoutJs + ext),
+      ...['index.ts', 'index.tsx', 'index.js'].map(file => path.join(base, file)),
+    ];
+
+    for (const candidate of candidates) {
+      const file = filesByPath.get(candidate);
+      if (file) return file;
+    }
+    return undefined;
+  }
+
+  // Prefer a candidate declared in the same file, otherwise only an unambiguous match
+  private pickByProximity(candidates: HierarchicalNode[] | undefined, from: HierarchicalNode): HierarchicalNode | undefined {
+    if (!candidates || candidates.length === 0) return undefined;
+
+    const sameFile = candidates.find(candidate => candidate.path === from.path);
+    if (sameFile) return sameFile;
+
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  private extractCalls(content: string): Set<string> {
+    const calls = new Set<string>();
+    const callRegex = /([A-Za-z_$][\w$]*)\s*\(/g;
+    let match;
+
+    while ((match = callRegex.exec(content)) !== null) {
+      if (!CALL_KEYWORDS.has(match[1])) {
+        calls.add(match[1]);
+      }
+    }
+
+    return calls;
+  }
+
+  // Top-k neighbours above the similarity threshold of a handful of changed vectors, from the ANN index,
+  // or when it is unavailable by streaming the guidance's vectors once
+  private findSimilarVectors(
+    guidanceId: string,
+    changed: MetadataVector[]
+  ): Map<string, Array<{ other: GraphVector; score: number }>> {
+    const neighbours = new Map(changed.map(vector => [vector.id, [] as Array<{ other: GraphVector; score: number }>]));
+    const keepTop = (candidates: Array<{ other: GraphVector; score: number }>) => candidates
+      .filter(({ score }) => score > SIMILARITY_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, SIMILAR_NEIGHBOURS);
+
+    const rowStmt = this.db.prepare('SELECT id, node_id FROM vectors WHERE id = ?');
+    const approximate = changed.map(vector => this.vectorIndex.search(guidanceId, vector.embedding, SIMILAR_NEIGHBOURS + 1));
+    if (approximate.every(hits => hits !== null)) {
+      changed.forEach((vector, i) => neighbours.set(vector.id, keepTop(approximate[i]!.flatMap(hit => {
+        const row = hit.id !== vector.id ? rowStmt.get(hit.id) as any : undefined;
+        return row ? [{ other: { id: row.id, nodeId: row.node_id ?? undefined }, score: hit.score }] : [];
+      }))));
+      return neighbours;
+    }
+
+    const rows = this.db.prepare(
+      'SELECT id, node_id, embedding, embedding_encoding FROM vectors WHERE guidance_id = ?'
+    ).iterate(guidanceId) as IterableIterator<any>;
+    for (const row of rows) {
+      const embedding = this.readEmbedding(row);
+      for (const vector of changed) {
+        if (row.id === vector.id) continue;
+
+        const candidates = neighbours.get(vector.id)!;
+        candidates.push({ other: { id: row.id, nodeId: row.node_id ?? undefined }, score: this.calculateSimilarity(vector.embedding, embedding) });
+        // Prune as we go so memory stays bounded by the number of changed vectors
+        if (candidates.length > SIMILAR_NEIGHBOURS * 4) {
+          neighbours.set(vector.id, keepTop(candidates));
         }
       }
     }
+
+    for (const [id, candidates] of neighbours) {
+      neighbours.set(id, keepTop(candidates));
+    }
+    return neighbours;
+  }
+
+  private addSimilarityRelations(guidanceId: string, vectors: MetadataVector[]): void {
+    if (vectors.length === 0) return;
+
+    // Nearest-neighbour lookup instead of comparing every pair
+    const index = new LshIndex(vectors[0].embedding.length);
+    for (const vector of vectors) {
+      index.add(vector.id, vector.embedding);
+    }
+
+    const vectorsById = new Map(vectors.map(vector => [vector.id, vector]));
+    for (const vector of vectors) {
+      for (const neighbour of index.query(vector.embedding, SIMILAR_NEIGHBOURS, vector.id)) {
+        if (neighbour.score <= SIMILARITY_THRESHOLD) break;
+
+        this.addSimilarRelation(guidanceId, vector, vectorsById.get(neighbour.id)!, neighbour.score);
+      }
+    }
+  }
+
+  private addSimilarRelation(guidanceId: string, vector: GraphVector, other: GraphVector, score: number): void {
+    const sourceKey = this.getGraphKey(vector);
+    const targetKey = this.getGraphKey(other);
+    if (sourceKey === targetKey) return;
+
+    // Similarity is symmetric, so store each pair once
+    const [first, second] = sourceKey < targetKey ? [sourceKey, targetKey] : [targetKey, sourceKey];
+    this.addRelation(guidanceId, first, second, 'similar', score);
   }
 
   private getVectorsByGuidance(guidanceId: string): MetadataVector[] {
-    const stmt = this.db.prepare('SELECT * FROM vectors WHERE guidance_id = ?');
-    const rows = stmt.all(guidanceId) as any[];
-    
-    return rows.map(row => ({
+    const rows = this.db.prepare('SELECT * FROM vectors WHERE guidance_id = ?').all(guidanceId) as any[];
+    return rows.map(row => this.toVector(row));
+  }
+
+  private getVectorsOfNodes(guidanceId: string, nodeIds: string[]): MetadataVector[] {
+    const stmt = this.db.prepare('SELECT * FROM vectors WHERE guidance_id = ? AND node_id = ?');
+    return nodeIds.flatMap(nodeId => (stmt.all(guidanceId, nodeId) as any[]).map(row => this.toVector(row)));
+  }
+
+  private toVector(row: any): MetadataVector {
+    return {
       id: row.id,
       guidanceId: row.guidance_id,
+      nodeId: row.node_id ?? undefined,
       type: row.type as any,
       content: row.content,
-      embedding: JSON.parse(row.embedding),
+      embedding: this.readEmbedding(row),
       metadata: JSON.parse(row.metadata),
       createdAt: row.created_at,
-    }));
+    };
+  }
+
+  // Graph edges link hierarchy nodes where a vector has one, and the vector itself otherwise
+  private getGraphKey(vector: GraphVector): string {
+    return vector.nodeId || vector.id;
   }
 
   private calculateSimilarity(embedding1: number[], embedding2: number[]): number {
-    // 코사인 유사도 계산
-    let dotProduct = 0;
-    let norm1 = 0;
-    let norm2 = 0;
-    
-    for (let i = 0; i < embedding1.length; i++) {
-      dotProduct += embedding1[i] * embedding2[i];
-      norm1 += embedding1[i] * embedding1[i];
-      norm2 += embedding2[i] * embedding2[i];
-    }
-    
-    return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
+    return cosineSimilarity(embedding1, embedding2);
   }
 
-  private async addRelation(sourceId: string, targetId: string, relationType: string, weight: number): Promise<void> {
+  private addRelation(guidanceId: string, sourceId: string, targetId: string, relationType: string, weight: number): void {
     const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO knowledge_graph
-      (id, source_id, target_id, relation_type, weight, created_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      (id, guidance_id, source_id, target_id, relation_type, weight, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
 
+    // Deterministic ID so the same edge is never stored twice
+    const edgeId = createHash('sha1').update(`${guidanceId}:${sourceId}:${relationType}:${targetId}`).digest('hex');
+
     stmt.run(
-      uuidv4(),
+      edgeId,
+      guidanceId,
       sourceId,
       targetId,
       relationType,
@@ -351,30 +1169,118 @@ export class HybridSearch {
 
   // 하이브리드 검색 메서드
   async search(params: SearchParams): Promise<SearchResult[]> {
-    const { query, guidanceId, type = 'all', limit = 10, threshold = 0.5 } = params;
+    const { query, guidanceId, type = 'all', limit = 10, threshold = 0.1, fusion = 'rrf', weights = {} } = params;
+    const storedType = type === 'all' ? undefined : STORED_TYPES[type];
     
     // 1. Vector search (semantic search)
-    const vectorResults = await this.vectorSearch(query, guidanceId, type, limit * 2);
+    const vectorResults = await this.vectorSearch(query, guidanceId, storedType, limit * 2);
+    
+    // 2. Lexical search (BM25 over chunk text, names and paths)
+    const lexicalResults = this.lexicalSearch(query, guidanceId, storedType, limit * 2);
     
-    // 2. Structural search
-    const structuralResults = await this.structuralSearch(query, guidanceId, type, limit * 2);
+    // 3. Structural search
+    const structuralResults = await this.structuralSearch(query, guidanceId, storedType, limit * 2);
     
-    // 3. Knowledge graph search
-    const graphResults = await this.graphSearch(query, guidanceId, limit);
+    // 4. Knowledge graph search, seeded with the best hits of the other channels
+    const graphResults = await this.graphSearch(
+      [...vectorResults, ...lexicalResults, ...structuralResults],
+      guidanceId,
+      storedType,
+      limit
+    );
     
-    // 4. Result integration and ranking
-    const combinedResults = this.combineResults(vectorResults, structuralResults, graphResults, query);
+    // 5. Result integration and ranking
+    const combinedResults = this.combineResults(
+      { vector: vectorResults, lexical: lexicalResults, structural: structuralResults, graph: graphResults },
+      fusion,
+      { ...CHANNEL_WEIGHTS, ...weights }
+    );
     
-    // 5. Threshold filtering and limiting
+    // 6. Threshold filtering and limiting
     return combinedResults
       .filter(result => result.score >= threshold)
       .slice(0, limit);
   }
 
-  private async vectorSearch(query: string, guidanceId?: string, type?: string, limit?: number): Promise<SearchResult[]> {
+  // `type` is the stored vector type to keep; undefined keeps every type
+  private async vectorSearch(query: string, guidanceId?: string, type?: MetadataVector['type'], limit: number = 10): Promise<SearchResult[]> {
+    // A search across all guidances leaves out those embedded with another model; see getIncompatibleGuidances
+    let excluded: string[] = [];
+    if (guidanceId) {
+      this.assertEmbeddingCompatibility(guidanceId);
+    } else {
+      excluded = this.getIncompatibleGuidances().map(incompatible => incompatible.guidanceId);
+    }
+
     const queryEmbedding = await this.generateEmbedding(query);
-    const results: SearchResult[] = [];
+    const rows = (this.approximateNeighbours(queryEmbedding, guidanceId, type, limit, excluded)
+      ?? this.exhaustiveNeighbours(queryEmbedding, guidanceId, type, limit, excluded))
+      .filter(({ score }) => score > MIN_VECTOR_SIMILARITY);
     
+    return rows.map(({ row, score }) => {
+      const metadata = JSON.parse(row.metadata);
+      return {
+        id: row.id,
+        type: resultType(row.type),
+        content: row.content,
+        score,
+        metadata: {
+          source: metadata.source,
+          path: metadata.path,
+          hierarchy: metadata.hierarchy,
+          lineStart: metadata.lineStart,
+          lineEnd: metadata.lineEnd,
+          page: metadata.page,
+          relevance: ['vector_similarity'],
+          nodeId: row.node_id ?? undefined,
+        },
+      };
+    });
+  }
+
+  // Query the per-guidance ANN indexes, which indexing keeps in sync with the vectors table;
+  // null when any searched guidance has no usable index
+  private approximateNeighbours(
+    queryEmbedding: number[],
+    guidanceId: string | undefined,
+    type: MetadataVector['type'] | undefined,
+    limit: number,
+    excluded: string[]
+  ): Array<{ row: any; score: number }> | null {
+    if (!this.vectorIndex.available) return null;
+
+    const guidanceIds = guidanceId
+      ? [guidanceId]
+      : (this.db.prepare('SELECT DISTINCT guidance_id FROM vectors').all() as any[])
+        .map(row => row.guidance_id as string)
+        .filter(id => !excluded.includes(id));
+    const filtered = !!type;
+    const rowStmt = this.db.prepare('SELECT * FROM vectors WHERE id = ?');
+    const results: Array<{ row: any; score: number }> = [];
+
+    for (const id of guidanceIds) {
+      // Over-fetch when a type filter will drop some of the neighbours
+      const neighbours = this.vectorIndex.search(id, queryEmbedding, filtered ? limit * 4 : limit);
+      if (!neighbours) return null;
+
+      for (const neighbour of neighbours) {
+        const row = rowStmt.get(neighbour.id) as any;
+        if (row && (!filtered || row.type === type)) {
+          results.push({ row, score: neighbour.score });
+        }
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private exhaustiveNeighbours(
+    queryEmbedding: number[],
+    guidanceId: string | undefined,
+    type: MetadataVector['type'] | undefined,
+    limit: number,
+    excluded: string[]
+  ): Array<{ row: any; score: number }> {
     let sql = 'SELECT * FROM vectors WHERE 1=1';
     const params: any[] = [];
     
@@ -383,36 +1289,96 @@ export class HybridSearch {
       params.push(guidanceId);
     }
     
-    if (type && type !== 'all') {
+    if (excluded.length > 0) {
+      sql += ` AND guidance_id NOT IN (${excluded.map(() => '?').join(', ')})`;
+      params.push(...excluded);
+    }
+    
+    if (type) {
       sql += ' AND type = ?';
       params.push(type);
     }
     
-    const stmt = this.db.prepare(sql);
-    const rows = stmt.all(...params) as any[];
+    const rows = this.db.prepare(sql).all(...params) as any[];
     
-    for (const row of rows) {
-      const embedding = JSON.parse(row.embedding);
-      const similarity = this.calculateSimilarity(queryEmbedding, embedding);
-      
-      results.push({
+    return rows
+      .map(row => ({ row, score: this.calculateSimilarity(queryEmbedding, this.readEmbedding(row)) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private lexicalSearch(query: string, guidanceId?: string, type?: MetadataVector['type'], limit: number = 10): SearchResult[] {
+    const matchQuery = this.buildLexicalQuery(query);
+    if (!matchQuery) return [];
+
+    let sql = `
+      SELECT v.*, bm25(lexical_index, ${LEXICAL_WEIGHTS.join(', ')}) AS rank
+      FROM lexical_index JOIN vectors v ON v.rowid = lexical_index.rowid
+      WHERE lexical_index MATCH ?
+    `;
+    const params: any[] = [matchQuery];
+
+    if (guidanceId) {
+      sql += ' AND v.guidance_id = ?';
+      params.push(guidanceId);
+    }
+
+    if (type) {
+      sql += ' AND v.type = ?';
+      params.push(type);
+    }
+
+    sql += ' ORDER BY rank LIMIT ?';
+    params.push(limit);
+
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    // bm25() is negative with lower meaning better, and its scale depends on corpus size: score relative to the best hit
+    const best = rows.length > 0 ? rows[0].rank : 0;
+
+    return rows.map(row => {
+      const metadata = JSON.parse(row.metadata);
+
+      return {
         id: row.id,
-        type: row.type as any,
+        type: resultType(row.type),
         content: row.content,
-        score: similarity,
+        score: best < 0 ? row.rank / best : 1,
         metadata: {
-          source: JSON.parse(row.metadata).source,
-          path: JSON.parse(row.metadata).path,
-          hierarchy: JSON.parse(row.metadata).hierarchy,
-          relevance: ['vector_similarity'],
+          source: metadata.source,
+          path: metadata.path,
+          hierarchy: metadata.hierarchy,
+          lineStart: metadata.lineStart,
+          lineEnd: metadata.lineEnd,
+          page: metadata.page,
+          relevance: ['lexical_bm25'],
+          nodeId: row.node_id ?? undefined,
         },
-      });
+      };
+    });
+  }
+
+  // Any query word, as typed or split into identifier parts ("getHierarchyPath" also matches "hierarchy path")
+  private buildLexicalQuery(query: string): string | null {
+    const terms = new Set<string>();
+
+    for (const word of query.match(/[\p{L}\p{N}]+/gu) || []) {
+      terms.add(word.toLowerCase());
+      splitIdentifier(word).forEach(part => terms.add(part));
     }
-    
-    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+
+    if (terms.size === 0) return null;
+    return [...terms].map(term => `"${term}"`).join(' OR ');
   }
 
-  private async structuralSearch(query: string, guidanceId?: string, type?: string, limit?: number): Promise<SearchResult[]> {
+  private async structuralSearch(
+    query: string,
+    guidanceId?: string,
+    type?: MetadataVector['type'],
+    limit?: number
+  ): Promise<SearchResult[]> {
+    // The structural index only holds code nodes
+    if (type && type !== 'codebase') return [];
+
     const results: SearchResult[] = [];
     const queryLower = query.toLowerCase();
     
@@ -431,20 +1397,21 @@ export class HybridSearch {
     const rows = stmt.all(...params) as any[];
     
     for (const row of rows) {
-      const node = this.hierarchicalRAG.getNode(row.node_id);
+      const node = this.hierarchies.get(row.guidance_id).getNode(row.node_id);
       if (node) {
         const score = this.calculateStructuralScore(node, queryLower);
         
         results.push({
           id: row.id,
           type: 'code',
-          content: node.content || '',
+          content: node.content || node.summary || '',
           score,
           metadata: {
             source: node.path,
             path: node.path,
-            hierarchy: this.getHierarchyPath(node),
+            hierarchy: this.getHierarchyPath(row.guidance_id, node),
             relevance: ['structural_match'],
+            nodeId: node.id,
           },
         });
       }
@@ -453,14 +1420,133 @@ export class HybridSearch {
     return results.sort((a, b) => b.score - a.score).slice(0, limit);
   }
 
-  private async graphSearch(query: string, guidanceId?: string, limit?: number): Promise<SearchResult[]> {
-    // Search related nodes through knowledge graph
+  private async graphSearch(
+    seeds: SearchResult[],
+    guidanceId?: string,
+    type?: MetadataVector['type'],
+    limit: number = 10
+  ): Promise<SearchResult[]> {
+    // Weighted BFS over knowledge_graph edges: each hop multiplies the score by the edge weight and a decay factor.
+    // Paths may pass through nodes of any type, but only neighbours of the requested type are returned.
+    const maxDepth = 2;
+    const decay = 0.5;
+    // Node IDs are only unique within a guidance, so edges are scoped to it when one is given
+    const edgeStmt = this.db.prepare(`
+      SELECT source_id, target_id, relation_type, weight FROM knowledge_graph
+      WHERE (source_id = ? OR target_id = ?) AND (? IS NULL OR guidance_id = ?)
+    `);
+
+    // Hits below the seed cutoff were found by the other channels as well, so they are not graph results
+    const seedKeys = new Set(seeds.map(seed => seed.metadata.nodeId || seed.id));
+    const visited = new Map<string, { score: number; relation: string; path: string[] }>();
+    let frontier = new Map<string, { score: number; relation: string; path: string[] }>();
+
+    for (const seed of [...seeds].sort((a, b) => b.score - a.score)) {
+      const key = seed.metadata.nodeId || seed.id;
+      if (visited.has(key)) continue;
+      if (visited.size >= limit) break;
+
+      const entry = { score: seed.score, relation: 'seed', path: [key] };
+      visited.set(key, entry);
+      frontier.set(key, entry);
+    }
+
+    for (let depth = 0; depth < maxDepth && frontier.size > 0; depth++) {
+      const next = new Map<string, { score: number; relation: string; path: string[] }>();
+
+      for (const [key, entry] of frontier) {
+        const edges = edgeStmt.all(key, key, guidanceId ?? null, guidanceId ?? null) as any[];
+
+        for (const edge of edges) {
+          const neighbourKey = edge.source_id === key ? edge.target_id : edge.source_id;
+          const score = entry.score * (edge.weight ?? 1) * decay;
+          const known = visited.get(neighbourKey) || next.get(neighbourKey);
+
+          if (!known || known.score < score) {
+            next.set(neighbourKey, { score, relation: edge.relation_type, path: [...entry.path, neighbourKey] });
+          }
+        }
+      }
+
+      for (const [key, entry] of next) {
+        visited.set(key, entry);
+      }
+      frontier = next;
+    }
+
+    // Only return neighbours the other channels did not already find
     const results: SearchResult[] = [];
-    
-    // Implementation omitted (complex graph traversal logic)
-    // In practice, graph database or complex query logic is needed
-    
-    return results;
+    for (const [key, entry] of visited) {
+      if (seedKeys.has(key)) continue;
+
+      const result = this.resolveGraphNode(key, guidanceId, type);
+      if (result) {
+        result.score = entry.score;
+        result.metadata.relevance = [`graph:${entry.relation}`];
+        result.metadata.graphPath = entry.path.map(pathKey => this.getGraphNodeLabel(pathKey, guidanceId));
+        results.push(result);
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  // Null when the node is gone or is not of the given stored type
+  private resolveGraphNode(key: string, guidanceId?: string, type?: MetadataVector['type']): SearchResult | null {
+    // Separate lookups so each uses an index: vector ids are the primary key, node ids are indexed per guidance
+    const scope = guidanceId ? ' AND guidance_id = ?' : '';
+    const params = guidanceId ? [guidanceId] : [];
+    const row = (
+      this.db.prepare(`SELECT * FROM vectors WHERE id = ?${scope}`).get(key, ...params) ??
+      this.db.prepare(`SELECT * FROM vectors WHERE node_id = ?${scope} LIMIT 1`).get(key, ...params)
+    ) as any;
+    if (row && type && row.type !== type) return null;
+    if (row) {
+      const metadata = JSON.parse(row.metadata);
+      return {
+        id: row.id,
+        type: resultType(row.type),
+        content: row.content,
+        score: 0,
+        metadata: {
+          source: metadata.source,
+          path: metadata.path,
+          hierarchy: metadata.hierarchy,
+          lineStart: metadata.lineStart,
+          lineEnd: metadata.lineEnd,
+          page: metadata.page,
+          nodeId: row.node_id ?? undefined,
+        },
+      };
+    }
+
+    // Hierarchy nodes without vectors are code
+    const found = type && type !== 'codebase' ? undefined : this.findNode(key, guidanceId);
+    if (!found) return null;
+    const { node } = found;
+
+    return {
+      id: node.id,
+      type: 'code',
+      content: node.content || node.summary || '',
+      score: 0,
+      metadata: {
+        source: node.path,
+        path: node.path,
+        hierarchy: this.getHierarchyPath(found.guidanceId, node),
+        nodeId: node.id,
+      },
+    };
+  }
+
+  private getGraphNodeLabel(key: string, guidanceId?: string): string {
+    const found = this.findNode(key, guidanceId);
+    if (found) {
+      return this.getHierarchyPath(found.guidanceId, found.node).join('/');
+    }
+
+    const row = this.db.prepare('SELECT metadata FROM vectors WHERE id = ?').get(key) as any;
+    return row ? JSON.parse(row.metadata).source : key;
   }
 
   private calculateStructuralScore(node: HierarchicalNode, query: string): number {
@@ -473,51 +1559,68 @@ export class HybridSearch {
     return score / 18; // Normalization
   }
 
+  // Fuse per-channel rankings into one list. Results are unified by node (or by vector when there is none),
+  // and the fused score is scaled so a result ranked first by every channel would score 1. Scaling by the best
+  // result found instead would give even a weak best match a score of 1 and defeat the search threshold.
   private combineResults(
-    vectorResults: SearchResult[],
-    structuralResults: SearchResult[],
-    graphResults: SearchResult[],
-    query: string
+    channels: Record<SearchChannel, SearchResult[]>,
+    fusion: FusionStrategy,
+    weights: Record<SearchChannel, number>
   ): SearchResult[] {
-    const combined = new Map<string, SearchResult>();
-    
-    // Vector search results (weight 0.4)
-    for (const result of vectorResults) {
-      const existing = combined.get(result.id);
-      if (existing) {
-        existing.score = Math.max(existing.score, result.score * 0.4);
-        existing.metadata.relevance = [...new Set([...(existing.metadata.relevance || []), ...(result.metadata.relevance || [])])];
-      } else {
-        combined.set(result.id, { ...result, score: result.score * 0.4 });
-      }
-    }
-    
-    // Structural search results (weight 0.3)
-    for (const result of structuralResults) {
-      const existing = combined.get(result.id);
-      if (existing) {
-        existing.score = Math.max(existing.score, result.score * 0.3);
-        existing.metadata.relevance = [...new Set([...(existing.metadata.relevance || []), ...(result.metadata.relevance || [])])];
-      } else {
-        combined.set(result.id, { ...result, score: result.score * 0.3 });
-      }
-    }
-    
-    // Graph search results (weight 0.3)
-    for (const result of graphResults) {
-      const existing = combined.get(result.id);
-      if (existing) {
-        existing.score = Math.max(existing.score, result.score * 0.3);
-        existing.metadata.relevance = [...new Set([...(existing.metadata.relevance || []), ...(result.metadata.relevance || [])])];
-      } else {
-        combined.set(result.id, { ...result, score: result.score * 0.3 });
-      }
+    const combined = new Map<string, { result: SearchResult; total: number }>();
+
+    for (const channel of Object.keys(channels) as SearchChannel[]) {
+      // RRF rewards rank alone, so a hit the channel did not score at all must not be ranked
+      const ranked = this.uniqueByKey(channels[channel].filter(result => result.score > 0).sort((a, b) => b.score - a.score));
+      const maxScore = ranked.length > 0 ? ranked[0].score : 0;
+
+      ranked.forEach((result, index) => {
+        const rank = index + 1;
+        const contribution = fusion === 'rrf'
+          ? weights[channel] / (RRF_K + rank)
+          : weights[channel] * (maxScore > 0 ? result.score / maxScore : 0);
+
+        const key = result.metadata.nodeId || result.id;
+        let entry = combined.get(key);
+        if (!entry) {
+          // The first channel to find a result supplies its content (chunk-level channels come first)
+          entry = { result: { ...result, metadata: { ...result.metadata, relevance: [], scores: {} } }, total: 0 };
+          combined.set(key, entry);
+        }
+
+        entry.total += contribution;
+        entry.result.metadata.scores![channel] = { rank, score: result.score, contribution };
+        entry.result.metadata.relevance = [...new Set([...entry.result.metadata.relevance!, ...(result.metadata.relevance || [])])];
+        entry.result.metadata.graphPath ??= result.metadata.graphPath;
+      });
     }
-    
-    return Array.from(combined.values()).sort((a, b) => b.score - a.score);
+
+    const attainable = (Object.keys(channels) as SearchChannel[])
+      .reduce((sum, channel) => sum + Math.max(0, weights[channel]) * (fusion === 'rrf' ? 1 / (RRF_K + 1) : 1), 0);
+
+    return Array.from(combined.values())
+      .map(({ result, total }) => ({ ...result, score: attainable > 0 ? total / attainable : 0 }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Keep the best-ranked result per node so several chunks of one node count once per channel
+  private uniqueByKey(results: SearchResult[]): SearchResult[] {
+    const seen = new Set<string>();
+    return results.filter(result => {
+      const key = result.metadata.nodeId || result.id;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
   }
 
   close(): void {
     this.db.close();
   }
 }
+
+// Result type of a stored vector type
+function resultType(storedType: MetadataVector['type']): SearchResult['type'] {
+  const entry = Object.entries(STORED_TYPES).find(([, stored]) => stored === storedType);
+  return (entry?.[0] as SearchResult['type'] | undefined) ?? 'code';
+}
@@ -0,0 +1,64 @@
+import { LshIndex, cosineSimilarity } from './lsh-index.js';
+
+describe('LshIndex', () => {
+  // Deterministic vectors in a few clusters, so every vector has close neighbours
+  const makeVectors = (count: number, dimension: number) => {
+    let state = 7;
+    const random = () => (state = (state * 16807) % 2147483647) / 2147483647;
+    const centres = Array.from({ length: 5 }, () => Array.from({ length: dimension }, () => random() * 2 - 1));
+    return Array.from({ length: count }, (_, i) => ({
+      id: `v${i}`,
+      vector: centres[i % centres.length].map(value => value + (random() - 0.5) * 0.3),
+    }));
+  };
+
+  it('finds the exact nearest neighbours of clustered vectors', () => {
+    const vectors = makeVectors(200, 32);
+    const index = new LshIndex(32);
+    for (const { id, vector } of vectors) {
+      index.add(id, vector);
+    }
+
+    let found = 0;
+    for (const { id, vector } of vectors) {
+      const exact = vectors
+        .filter(other => other.id !== id)
+        .map(other => ({ id: other.id, score: cosineSimilarity(vector, other.vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 5)
+        .map(neighbour => neighbour.id);
+      const approximate = index.query(vector, 5, id);
+
+      expect(approximate.map(neighbour => neighbour.id)).not.toContain(id);
+      expect(approximate.map(neighbour => neighbour.score)).toEqual([...approximate.map(neighbour => neighbour.score)].sort((a, b) => b - a));
+      found += approximate.filter(neighbour => exact.includes(neighbour.id)).length;
+    }
+
+    expect(found / (vectors.length * 5)).toBeGreaterThan(0.9);
+  });
+
+  it('hashes the same vectors into the same buckets for the same seed', () => {
+    const vectors = makeVectors(50, 16);
+    const first = new LshIndex(16, 4, 8);
+    const second = new LshIndex(16, 4, 8);
+    for (const { id, vector } of vectors) {
+      first.add(id, vector);
+      second.add(id, vector);
+    }
+
+    expect(second.query(vectors[0].vector, 10)).toEqual(first.query(vectors[0].vector, 10));
+  });
+
+  it('rejects vectors of another dimension', () => {
+    expect(() => new LshIndex(3).add('v', [1, 0])).toThrow('Vector v has 2 dimensions, expected 3');
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('compares directions and treats zero vectors as unrelated', () => {
+    expect(cosineSimilarity([1, 0], [3, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 2])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 1], [-1, -1])).toBeCloseTo(-1);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
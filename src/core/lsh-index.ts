@@ -0,0 +1,98 @@
+// Approximate nearest-neighbour lookup using random-hyperplane locality-sensitive hashing.
+// Vectors that share a bucket in any table become candidates, and only candidates are compared exactly.
+export class LshIndex {
+  private dimension: number;
+  private hyperplanes: Float64Array[][];
+  private tables: Map<string, string[]>[];
+  private vectors: Map<string, number[]> = new Map();
+
+  constructor(dimension: number, tableCount: number = 16, bitsPerTable: number = 10, seed: number = 42) {
+    this.dimension = dimension;
+    const random = this.createRandom(seed);
+
+    this.hyperplanes = Array.from({ length: tableCount }, () =>
+      Array.from({ length: bitsPerTable }, () => {
+        const plane = new Float64Array(dimension);
+        for (let i = 0; i < dimension; i++) {
+          plane[i] = random() * 2 - 1;
+        }
+        return plane;
+      })
+    );
+    this.tables = Array.from({ length: tableCount }, () => new Map());
+  }
+
+  add(id: string, vector: number[]): void {
+    if (vector.length !== this.dimension) {
+      throw new Error(`Vector ${id} has ${vector.length} dimensions, expected ${this.dimension}`);
+    }
+
+    this.vectors.set(id, vector);
+    this.hyperplanes.forEach((planes, tableIndex) => {
+      const signature = this.signature(vector, planes);
+      const bucket = this.tables[tableIndex].get(signature);
+      if (bucket) {
+        bucket.push(id);
+      } else {
+        this.tables[tableIndex].set(signature, [id]);
+      }
+    });
+  }
+
+  query(vector: number[], k: number, excludeId?: string): Array<{ id: string; score: number }> {
+    const candidates = new Set<string>();
+
+    this.hyperplanes.forEach((planes, tableIndex) => {
+      const bucket = this.tables[tableIndex].get(this.signature(vector, planes));
+      for (const id of bucket || []) {
+        if (id !== excludeId) candidates.add(id);
+      }
+    });
+
+    const results: Array<{ id: string; score: number }> = [];
+    for (const id of candidates) {
+      results.push({ id, score: cosineSimilarity(vector, this.vectors.get(id)!) });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  private signature(vector: number[], planes: Float64Array[]): string {
+    let signature = '';
+    for (const plane of planes) {
+      let dot = 0;
+      for (let i = 0; i < this.dimension; i++) {
+        dot += vector[i] * plane[i];
+      }
+      signature += dot >= 0 ? '1' : '0';
+    }
+    return signature;
+  }
+
+  // Seeded PRNG (mulberry32) so the same vectors always land in the same buckets
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
+
+export function cosineSimilarity(embedding1: number[], embedding2: number[]): number {
+  let dotProduct = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+
+  for (let i = 0; i < embedding1.length; i++) {
+    dotProduct += embedding1[i] * embedding2[i];
+    norm1 += embedding1[i] * embedding1[i];
+    norm2 += embedding2[i] * embedding2[i];
+  }
+
+  if (norm1 === 0 || norm2 === 0) return 0;
+  return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
+}
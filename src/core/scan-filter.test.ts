@@ -0,0 +1,99 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { glob } from 'glob';
+import { ScanOptions } from '../types/index.js';
+import { ScanFilter } from './scan-filter.js';
+
+describe('ScanFilter', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(tmpdir(), 'scan-filter-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const write = (relativePath: string, content: string | Buffer = 'export {};\n') => {
+    mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+    writeFileSync(path.join(root, relativePath), content);
+  };
+
+  // Walk the root as HierarchicalRAG does: root-relative files that pass the path rules and the file checks
+  const scan = async (options: ScanOptions = {}, scope: string = root) => {
+    const filter = new ScanFilter(root, scope, options);
+    const entries = await glob(filter.patterns, { cwd: root, dot: true, withFileTypes: true, ignore: filter });
+    const files: string[] = [];
+    for (const entry of entries.filter(entry => entry.isFile())) {
+      if (!(await filter.checkFile(entry.fullpath()))) {
+        files.push(path.relative(root, entry.fullpath()).split(path.sep).join('/'));
+      }
+    }
+    const skipped = filter.skipped.map(({ path: skippedPath, reason }) => [path.relative(root, skippedPath).split(path.sep).join('/'), reason]);
+    return { files: files.sort(), skipped: skipped.sort() };
+  };
+
+  it('honours nested ignore files, negation and directory-only rules', async () => {
+    write('.gitignore', '*.log\nbuild/\n/secret.ts\n');
+    write('.taskguideignore', 'fixtures\n');
+    write('app.ts');
+    write('secret.ts');
+    write('debug.log');
+    write('build/out.ts');
+    write('src/build.ts');
+    write('src/secret.ts');
+    write('src/.gitignore', 'generated/*\n!generated/keep.ts\n');
+    write('src/generated/skip.ts');
+    write('src/generated/keep.ts');
+    write('test/fixtures/sample.ts');
+    write('node_modules/lib/index.ts');
+
+    const { files, skipped } = await scan();
+
+    expect(files).toEqual([
+      '.gitignore', '.taskguideignore', 'app.ts', 'src/.gitignore', 'src/build.ts', 'src/generated/keep.ts', 'src/secret.ts',
+    ]);
+    expect(skipped).toEqual([
+      ['build', 'ignored'],
+      ['debug.log', 'ignored'],
+      ['node_modules', 'ignored'],
+      ['secret.ts', 'ignored'],
+      ['src/generated/skip.ts', 'ignored'],
+      ['test/fixtures', 'ignored'],
+    ]);
+  });
+
+  it('applies include and exclude globs', async () => {
+    write('src/app.ts');
+    write('src/app.spec.ts');
+    write('src/legacy/old.ts');
+    write('docs/readme.ts');
+
+    const { files, skipped } = await scan({ include: ['src/**'], exclude: ['**/*.spec.ts', 'src/legacy'] });
+
+    expect(files).toEqual(['src/app.ts']);
+    expect(skipped).toEqual([['src/app.spec.ts', 'excluded'], ['src/legacy', 'excluded']]);
+  });
+
+  it('skips files over the size limit and binary files', async () => {
+    write('small.ts');
+    write('large.ts', 'x'.repeat(200));
+    write('image.ts', Buffer.from([0x89, 0x50, 0x00, 0x47]));
+
+    const { files, skipped } = await scan({ maxFileSize: 100 });
+
+    expect(files).toEqual(['small.ts']);
+    expect(skipped).toEqual([['image.ts', 'binary'], ['large.ts', 'too-large']]);
+  });
+
+  it('limits the walk to a scope below the root', async () => {
+    write('.gitignore', '*.gen.ts\n');
+    write('a/one.ts');
+    write('a/one.gen.ts');
+    write('b/two.ts');
+
+    expect((await scan({}, path.join(root, 'a'))).files).toEqual(['a/one.ts']);
+  });
+});
@@ -0,0 +1,181 @@
+import { existsSync, readFileSync, promises as fs } from 'fs';
+import path from 'path';
+import { escape, Ignore, IgnoreLike, Path } from 'glob';
+import { ScanOptions, SkippedPath, SkipReason } from '../types/index.js';
+
+// Ignore files honoured in every scanned directory, with .gitignore syntax
+export const IGNORE_FILES = ['.gitignore', '.taskguideignore'];
+
+// Never scanned, whatever the ignore files say
+export const ALWAYS_IGNORED = new Set(['.git', 'node_modules']);
+
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+// Bytes sniffed for NUL characters when deciding whether a file is binary
+const BINARY_SNIFF_BYTES = 8000;
+
+interface IgnoreRule {
+  matcher: Ignore;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+// Decides which paths below a codebase root are scanned; passed to glob as its `ignore` option so ignored
+// directories are never walked. Patterns and ignore rules are relative to the root, which must be glob's cwd.
+export class ScanFilter implements IgnoreLike {
+  readonly patterns: string[];
+  private rootPath: string;
+  private scope: string;
+  private exclude: Ignore | null;
+  private maxFileSize: number;
+  // Ignore rules per directory, read when the walk first needs them
+  private rules: Map<string, IgnoreRule[]> = new Map();
+  private verdicts: Map<string, SkipReason | null> = new Map();
+  private skippedPaths: Map<string, SkipReason> = new Map();
+
+  // `scope` restricts the walk to one file or directory below the root
+  constructor(rootPath: string, scope: string = rootPath, options: ScanOptions = {}) {
+    this.rootPath = path.resolve(rootPath);
+    this.scope = path.resolve(scope);
+    this.patterns = options.include?.length ? options.include : ['**'];
+    this.exclude = options.exclude?.length ? new Ignore(options.exclude, {}) : null;
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  }
+
+  get skipped(): SkippedPath[] {
+    return Array.from(this.skippedPaths, ([skippedPath, reason]) => ({ path: skippedPath, reason }));
+  }
+
+  ignored(p: Path): boolean {
+    return !isWithin(p.fullpath(), this.scope) || this.check(p) !== null;
+  }
+
+  childrenIgnored(p: Path): boolean {
+    // Directories above the scope are only walked on the way down to it
+    if (!isWithin(p.fullpath(), this.scope) && !isWithin(this.scope, p.fullpath())) return true;
+    return this.check(p) !== null;
+  }
+
+  // Size and content checks for a file that passed the path rules
+  async checkFile(filePath: string): Promise<SkipReason | null> {
+    const stats = await fs.stat(filePath);
+    let reason: SkipReason | null = null;
+
+    if (stats.size > this.maxFileSize) {
+      reason = 'too-large';
+    } else if (await isBinaryFile(filePath)) {
+      reason = 'binary';
+    }
+
+    if (reason) this.skippedPaths.set(filePath, reason);
+    return reason;
+  }
+
+  private check(p: Path): SkipReason | null {
+    const fullPath = p.fullpath();
+    if (fullPath === this.rootPath) return null;
+    if (this.verdicts.has(fullPath)) return this.verdicts.get(fullPath)!;
+
+    let reason: SkipReason | null = null;
+    if (ALWAYS_IGNORED.has(p.name) || this.matchesIgnoreRules(p)) {
+      reason = 'ignored';
+    } else if (this.exclude && (this.exclude.ignored(p) || this.exclude.childrenIgnored(p))) {
+      reason = 'excluded';
+    }
+
+    this.verdicts.set(fullPath, reason);
+    if (reason) this.skippedPaths.set(fullPath, reason);
+    return reason;
+  }
+
+  // Rules of every ignore file from the root down to the path's directory; the last matching rule wins
+  private matchesIgnoreRules(p: Path): boolean {
+    let ignored = false;
+
+    for (const directory of this.directoriesAbove(p.fullpath())) {
+      for (const rule of this.loadRules(directory)) {
+        if (rule.directoryOnly && !p.isDirectory()) continue;
+        if (rule.matcher.ignored(p)) {
+          ignored = !rule.negated;
+        }
+      }
+    }
+
+    return ignored;
+  }
+
+  private directoriesAbove(fullPath: string): string[] {
+    const directories: string[] = [];
+    for (let directory = path.dirname(fullPath); isWithin(directory, this.rootPath); directory = path.dirname(directory)) {
+      directories.unshift(directory);
+      if (directory === this.rootPath) break;
+    }
+    return directories;
+  }
+
+  private loadRules(directory: string): IgnoreRule[] {
+    let rules = this.rules.get(directory);
+    if (rules) return rules;
+
+    const prefix = path.relative(this.rootPath, directory).split(path.sep).join('/');
+    rules = [];
+    for (const fileName of IGNORE_FILES) {
+      const filePath = path.join(directory, fileName);
+      if (!existsSync(filePath)) continue;
+
+      try {
+        rules.push(...parseIgnoreFile(readFileSync(filePath, 'utf-8'), prefix));
+      } catch (error) {
+        console.error(`Failed to read ignore file: ${filePath}`, error);
+      }
+    }
+
+    this.rules.set(directory, rules);
+    return rules;
+  }
+}
+
+// Translate .gitignore lines into root-relative glob patterns; `prefix` is the ignore file's directory
+function parseIgnoreFile(content: string, prefix: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    if (line.startsWith('\\')) line = line.slice(1);
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // A slash at the start or in the middle anchors the pattern to the ignore file's directory
+    const anchored = line.includes('/');
+    const pattern = anchored ? line.replace(/^\//, '') : `**/${line}`;
+
+    rules.push({
+      matcher: new Ignore([prefix ? `${escape(prefix)}/${pattern}` : pattern], {}),
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+async function isBinaryFile(filePath: string): Promise<boolean> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(BINARY_SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, BINARY_SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead).includes(0);
+  } finally {
+    await handle.close();
+  }
+}
+
+function isWithin(candidate: string, directory: string): boolean {
+  return candidate === directory || candidate.startsWith(directory + path.sep);
+}
@@ -0,0 +1,178 @@
+import { jest } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { HierarchicalRAG } from './hierarchical-rag.js';
+import { createSummarizer, ExtractiveSummarizer, OpenAISummarizer } from './summarizer.js';
+import { HierarchicalNode, SummaryInput } from '../types/index.js';
+
+describe('summaries', () => {
+  let directory: string;
+  let codebase: string;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    directory = mkdtempSync(path.join(tmpdir(), 'summarizer-'));
+    codebase = path.join(directory, 'shop');
+    mkdirSync(path.join(codebase, 'cart'), { recursive: true });
+    mkdirSync(path.join(codebase, 'util'), { recursive: true });
+    writeFileSync(path.join(codebase, 'README.md'), '# Shop\n\nA small web shop with a cart and checkout.\n');
+    writeFileSync(path.join(codebase, 'cart', 'cart.ts'), [
+      '// Copyright 2024 Shop Inc.',
+      '',
+      '/**',
+      ' * Shopping cart state.',
+      ' */',
+      '',
+      '/** Holds the chosen items. Not persisted. */',
+      'export class Cart {}',
+      'function hidden() {}',
+      'export const emptyCart = new Cart();',
+      '',
+    ].join('\n'));
+    writeFileSync(path.join(codebase, 'util', 'format.py'), '"""Formatting helpers."""\n\ndef _price(value):\n    return value\n');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const summaryOf = (hierarchy: HierarchicalRAG, nodeId: string) => hierarchy.getNode(nodeId)!.summary;
+
+  describe('ExtractiveSummarizer', () => {
+    it('summarizes files by their leading comment and declarations', async () => {
+      const hierarchy = new HierarchicalRAG();
+      await hierarchy.buildHierarchy(codebase);
+
+      // The license header is skipped, and only exported declarations are listed when there are any
+      expect(summaryOf(hierarchy, 'shop/cart/cart.ts'))
+        .toBe('cart.ts (typescript): Shopping cart state.\nExports: class Cart - Holds the chosen items.; variable emptyCart');
+      expect(summaryOf(hierarchy, 'shop/util/format.py')).toBe('format.py (python): Formatting helpers.\nDeclares: function _price');
+    });
+
+    it('summarizes directories by their README and the summaries of their children', async () => {
+      const hierarchy = new HierarchicalRAG();
+      await hierarchy.buildHierarchy(codebase);
+
+      expect(summaryOf(hierarchy, 'shop/cart')).toBe('cart/\nContains 1 files (typescript) and 0 directories\n- cart.ts: Shopping cart state.');
+      expect(summaryOf(hierarchy, 'shop')!.split('\n').sort()).toEqual([
+        '- cart/: Contains 1 files (typescript) and 0 directories',
+        '- util/: Contains 1 files (python) and 0 directories',
+        'Contains 0 files and 2 directories',
+        'shop/: A small web shop with a cart and checkout.',
+      ]);
+    });
+
+    it('lists at most twelve entries', async () => {
+      const node = { id: 'many', name: 'many', type: 'directory', path: '/many', children: [], metadata: {} } as HierarchicalNode;
+      const children = Array.from({ length: 15 }, (_, i) => ({
+        id: `many/f${i}.ts`, name: `f${String(i).padStart(2, '0')}.ts`, type: 'file', path: `/many/f${i}.ts`, children: [],
+        metadata: { language: 'typescript' },
+      }) as HierarchicalNode);
+
+      const lines = (await new ExtractiveSummarizer().summarize({ node, children })).split('\n');
+
+      expect(lines).toHaveLength(2 + 12 + 1);
+      expect(lines[lines.length - 1]).toBe('… and 3 more');
+    });
+  });
+
+  describe('refreshing', () => {
+    // Counts summaries actually generated, as opposed to reused
+    class CountingSummarizer extends ExtractiveSummarizer {
+      summarized: string[] = [];
+
+      async summarize(input: SummaryInput): Promise<string> {
+        this.summarized.push(input.node.id);
+        return super.summarize(input);
+      }
+    }
+
+    it('regenerates only the changed file and the directories above it', async () => {
+      const summarizer = new CountingSummarizer();
+      const hierarchy = new HierarchicalRAG(undefined, undefined, summarizer);
+      await hierarchy.buildHierarchy(codebase);
+      expect(summarizer.summarized.sort()).toEqual(['shop', 'shop/cart', 'shop/cart/cart.ts', 'shop/util', 'shop/util/format.py']);
+      const utilSummary = summaryOf(hierarchy, 'shop/util');
+
+      summarizer.summarized = [];
+      writeFileSync(path.join(codebase, 'cart', 'cart.ts'), '// Cart totals.\nexport function total() { return 0; }\n');
+      await hierarchy.refreshPaths(codebase, [path.join(codebase, 'cart', 'cart.ts')]);
+
+      expect(summarizer.summarized.sort()).toEqual(['shop', 'shop/cart', 'shop/cart/cart.ts']);
+      expect(summaryOf(hierarchy, 'shop/cart/cart.ts')).toBe('cart.ts (typescript): Cart totals.\nExports: function total');
+      expect(summaryOf(hierarchy, 'shop/cart')).toContain('- cart.ts: Cart totals.');
+      expect(summaryOf(hierarchy, 'shop/util')).toBe(utilSummary);
+    });
+
+    it('reuses summaries when a refreshed file did not change', async () => {
+      const summarizer = new CountingSummarizer();
+      const hierarchy = new HierarchicalRAG(undefined, undefined, summarizer);
+      await hierarchy.buildHierarchy(codebase);
+
+      summarizer.summarized = [];
+      await hierarchy.refreshPaths(codebase, [path.join(codebase, 'cart', 'cart.ts')]);
+
+      expect(summarizer.summarized).toEqual([]);
+      expect(summaryOf(hierarchy, 'shop/cart/cart.ts')).toMatch(/^cart\.ts \(typescript\): Shopping cart state\./);
+    });
+
+    it('reuses directory summaries after a refresh reorders their children', async () => {
+      const summarizer = new CountingSummarizer();
+      const hierarchy = new HierarchicalRAG(undefined, undefined, summarizer);
+      await hierarchy.buildHierarchy(codebase);
+
+      // Refreshing a directory moves it after its siblings; one of the two differs from the scan order
+      for (const changed of ['cart', 'util']) {
+        await hierarchy.refreshPaths(codebase, [path.join(codebase, changed)]);
+        summarizer.summarized = [];
+        await hierarchy.buildHierarchy(codebase);
+
+        expect(summarizer.summarized).toEqual([]);
+      }
+    });
+
+    it('regenerates every summary when the summarizer changes', async () => {
+      const hierarchy = new HierarchicalRAG();
+      await hierarchy.buildHierarchy(codebase);
+      const summarizer = new CountingSummarizer();
+      Object.defineProperty(summarizer, 'name', { value: 'counting' });
+      hierarchy['summarizer'] = summarizer;
+
+      await hierarchy.buildHierarchy(codebase);
+
+      expect(summarizer.summarized).toHaveLength(5);
+    });
+  });
+
+  describe('OpenAISummarizer', () => {
+    const input = (): SummaryInput => ({
+      node: { id: 'shop/cart/cart.ts', name: 'cart.ts', type: 'file', path: '/shop/cart/cart.ts', children: [], content: '// Cart state.\n', metadata: { language: 'typescript' } },
+      children: [],
+    });
+
+    it('returns the model reply and falls back to the extractive summary when the request fails', async () => {
+      const summarizer = new OpenAISummarizer({ model: 'small-model' });
+      const create = jest.spyOn(summarizer['client'].chat.completions, 'create')
+        .mockResolvedValueOnce({ choices: [{ message: { content: '  Keeps the cart.  ' } }] } as never)
+        .mockRejectedValueOnce(new Error('offline'));
+
+      expect(summarizer.name).toBe('openai:small-model');
+      expect(await summarizer.summarize(input())).toBe('Keeps the cart.');
+      const [request] = create.mock.calls[0] as unknown as [{ model: string; messages: Array<{ content: string }> }];
+      expect(request.model).toBe('small-model');
+      expect(request.messages[1].content).toContain('Outline:\ncart.ts (typescript): Cart state.');
+
+      expect(await summarizer.summarize(input())).toBe('cart.ts (typescript): Cart state.');
+    });
+  });
+
+  describe('createSummarizer', () => {
+    it('selects the summarizer from the environment', () => {
+      expect(createSummarizer({}).name).toBe('extractive');
+      expect(createSummarizer({ TASK_GUIDE_SUMMARIZER: 'openai', TASK_GUIDE_SUMMARY_MODEL: 'local' }).name).toBe('openai:local');
+      expect(() => createSummarizer({ TASK_GUIDE_SUMMARIZER: 'abstractive' })).toThrow('Unknown summarizer: abstractive');
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import OpenAI from 'openai';
+import { HierarchicalNode, Summarizer, SummaryInput } from '../types/index.js';
+
+// Named symbols and child entries listed in an extractive summary
+const MAX_LISTED = 12;
+
+const MAX_EXCERPT_LENGTH = 300;
+
+const SUMMARY_PROMPT =
+  'Summarize the purpose of the given source directory or file in two or three sentences for a developer ' +
+  'navigating the codebase. Name its key responsibilities and main symbols. Reply with the summary only.';
+
+// Summaries assembled from what the code already says: leading comments, declared symbols, README excerpts
+// and the summaries of child nodes
+export class ExtractiveSummarizer implements Summarizer {
+  readonly name = 'extractive';
+
+  async summarize(input: SummaryInput): Promise<string> {
+    return input.node.type === 'directory' ? this.summarizeDirectory(input) : this.summarizeFile(input);
+  }
+
+  private summarizeFile({ node, children }: SummaryInput): string {
+    const lines = [`${node.name} (${node.metadata.language || 'unknown'})`];
+
+    const comment = leadingComment(node.content || '', node.metadata.language);
+    if (comment) lines[0] += `: ${excerpt(comment)}`;
+
+    // Non-exported declarations only matter when the file exports nothing
+    const exported = children.filter(child => child.metadata.exported !== false);
+    const symbols = (exported.length > 0 ? exported : children).map(child => {
+      const doc = child.metadata.docComment ? ` - ${firstSentence(child.metadata.docComment)}` : '';
+      return `${child.type} ${child.name}${doc}`;
+    });
+    if (symbols.length > 0) {
+      lines.push(`${exported.length > 0 ? 'Exports' : 'Declares'}: ${listed(symbols).join('; ')}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private summarizeDirectory({ node, children, readme }: SummaryInput): string {
+    const files = children.filter(child => child.type === 'file');
+    const directories = children.filter(child => child.type === 'directory');
+    const languages = [...new Set(files.map(file => file.metadata.language).filter(Boolean))];
+
+    const lines = [`${node.name}/` + (readme ? `: ${excerpt(readme)}` : '')];
+    lines.push(
+      `Contains ${files.length} files` + (languages.length > 0 ? ` (${languages.join(', ')})` : '') +
+      ` and ${directories.length} directories`
+    );
+
+    const entries = [...directories, ...files].map(child => {
+      const name = child.type === 'directory' ? `${child.name}/` : child.name;
+      const description = describe(child, name);
+      return description ? `- ${name}: ${excerpt(description, 160)}` : `- ${name}`;
+    });
+    lines.push(...listed(entries));
+
+    return lines.join('\n');
+  }
+}
+
+// Summaries written by a chat model behind an OpenAI-compatible endpoint (e.g. a local stand-in server).
+// The extractive summary is given to the model as material and returned as-is when the request fails.
+export class OpenAISummarizer implements Summarizer {
+  readonly name: string;
+  private model: string;
+  private client: OpenAI;
+  private fallback = new ExtractiveSummarizer();
+
+  constructor(options: { model?: string; baseURL?: string; apiKey?: string } = {}) {
+    this.model = options.model || 'gpt-4o-mini';
+    this.name = `openai:${this.model}`;
+    this.client = new OpenAI({
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL,
+    });
+  }
+
+  async summarize(input: SummaryInput): Promise<string> {
+    const material = await this.fallback.summarize(input);
+
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        temperature: 0,
+        max_tokens: 200,
+        messages: [
+          { role: 'system', content: SUMMARY_PROMPT },
+          { role: 'user', content: this.buildPrompt(input, material) },
+        ],
+      });
+      return response.choices[0]?.message?.content?.trim() || material;
+    } catch (error) {
+      console.error(`Failed to summarize ${input.node.id}, using the extractive summary`, error);
+      return material;
+    }
+  }
+
+  private buildPrompt({ node, readme }: SummaryInput, material: string): string {
+    const parts = [`${node.type === 'directory' ? 'Directory' : 'File'}: ${node.id}`, `Outline:\n${material}`];
+    if (readme) parts.push(`README:\n${readme.slice(0, 2000)}`);
+    if (node.type === 'file' && node.content) parts.push(`Source (beginning):\n${node.content.slice(0, 4000)}`);
+    return parts.join('\n\n');
+  }
+}
+
+// Select the summarizer from environment variables
+export function createSummarizer(env: NodeJS.ProcessEnv = process.env): Summarizer {
+  const summarizer = env.TASK_GUIDE_SUMMARIZER || 'extractive';
+
+  switch (summarizer) {
+    case 'extractive':
+      return new ExtractiveSummarizer();
+    case 'openai':
+      return new OpenAISummarizer({
+        model: env.TASK_GUIDE_SUMMARY_MODEL,
+        baseURL: env.OPENAI_BASE_URL,
+        apiKey: env.OPENAI_API_KEY,
+      });
+    default:
+      throw new Error(`Unknown summarizer: ${summarizer}`);
+  }
+}
+
+// The file's opening comment block or docstring, skipping license headers
+function leadingComment(content: string, language?: string): string | undefined {
+  const lines = content.replace(/^#!.*\n/, '').split('\n');
+  let index = 0;
+
+  while (index < lines.length) {
+    while (index < lines.length && !lines[index].trim()) index++;
+    const line = lines[index]?.trim() || '';
+    const comment: string[] = [];
+
+    if (line.startsWith('/*')) {
+      for (; index < lines.length; index++) {
+        comment.push(lines[index].trim().replace(/^\/\*+|\*+\/$|^\*+/g, '').trim());
+        if (lines[index].includes('*/')) break;
+      }
+      index++;
+    } else if (line.startsWith('//') || (line.startsWith('#') && language === 'python')) {
+      const marker = line.startsWith('//') ? '//' : '#';
+      for (; index < lines.length && lines[index].trim().startsWith(marker); index++) {
+        comment.push(lines[index].trim().replace(/^(\/\/+|#+)/, '').trim());
+      }
+    } else if (language === 'python' && /^("""|''')/.test(line)) {
+      const quote = line.slice(0, 3);
+      const rest = line.slice(3);
+      if (rest.includes(quote)) {
+        comment.push(rest.slice(0, rest.indexOf(quote)));
+      } else {
+        comment.push(rest);
+        for (index++; index < lines.length && !lines[index].includes(quote); index++) {
+          comment.push(lines[index].trim());
+        }
+        comment.push((lines[index] || '').slice(0, (lines[index] || '').indexOf(quote)).trim());
+      }
+      index++;
+    } else {
+      return undefined;
+    }
+
+    const text = comment.filter(Boolean).join(' ');
+    if (text && !/copyright|license|spdx/i.test(text)) return text;
+  }
+
+  return undefined;
+}
+
+// One line about a child node, from its summary without the leading name
+function describe(child: HierarchicalNode, name: string): string {
+  if (!child.summary) return '';
+
+  const [first, ...rest] = child.summary.split('\n');
+  if (!first.startsWith(name)) return firstSentence(child.summary);
+
+  const separator = first.indexOf(': ');
+  return separator >= 0 ? first.slice(separator + 2) : rest[0] || '';
+}
+
+function firstSentence(text: string): string {
+  const match = /^(.+?[.!?])(\s|$)/.exec(text.replace(/\s+/g, ' ').trim());
+  return match ? match[1] : text.replace(/\s+/g, ' ').trim();
+}
+
+function excerpt(text: string, maxLength: number = MAX_EXCERPT_LENGTH): string {
+  const flat = text.replace(/^#+\s.*$/gm, '').replace(/\s+/g, ' ').trim();
+  return flat.length > maxLength ? `${flat.slice(0, maxLength - 1).trimEnd()}…` : flat;
+}
+
+function listed(entries: string[]): string[] {
+  return entries.length > MAX_LISTED
+    ? [...entries.slice(0, MAX_LISTED), `… and ${entries.length - MAX_LISTED} more`]
+    : entries;
+}
@@ -0,0 +1,234 @@
+import { jest } from '@jest/globals';
+import { createRequire } from 'module';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FaissModule, VectorIndex } from './vector-index.js';
+import { HybridSearch } from './hybrid-search.js';
+import { HierarchyManager } from './hierarchy-manager.js';
+import { LocalEmbeddingProvider } from './embedding-provider.js';
+
+// Exact inner-product search with the faiss Index interface, standing in for the native binding
+class FakeIndex {
+  private vectors: number[][] = [];
+
+  constructor(private dimension: number) {}
+
+  static fromFactory(dimension: number): FakeIndex {
+    return new FakeIndex(dimension);
+  }
+
+  static read(file: string): FakeIndex {
+    const { dimension, vectors } = JSON.parse(readFileSync(file, 'utf-8'));
+    const index = new FakeIndex(dimension);
+    index.vectors = vectors;
+    return index;
+  }
+
+  ntotal(): number {
+    return this.vectors.length;
+  }
+
+  add(values: number[]): void {
+    for (let i = 0; i < values.length; i += this.dimension) {
+      this.vectors.push(values.slice(i, i + this.dimension));
+    }
+  }
+
+  search(query: number[], k: number): { labels: number[]; distances: number[] } {
+    const ranked = this.vectors
+      .map((vector, label) => ({ label, distance: vector.reduce((sum, value, i) => sum + value * query[i], 0) }))
+      .sort((a, b) => b.distance - a.distance)
+      .slice(0, k);
+    return { labels: ranked.map(entry => entry.label), distances: ranked.map(entry => entry.distance) };
+  }
+
+  write(file: string): void {
+    writeFileSync(file, JSON.stringify({ dimension: this.dimension, vectors: this.vectors }));
+  }
+}
+
+const fakeFaiss = { Index: FakeIndex } as unknown as FaissModule;
+
+function loadNativeFaiss(): FaissModule | null {
+  try {
+    return createRequire(import.meta.url)('faiss-node') as FaissModule;
+  } catch {
+    return null;
+  }
+}
+
+describe('VectorIndex', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'vector-index-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const entries = [
+    { id: 'x', embedding: [1, 0, 0] },
+    { id: 'y', embedding: [0, 2, 0] },
+    { id: 'xy', embedding: [1, 1, 0] },
+    { id: 'z', embedding: [0, 0, 3] },
+    { id: 'yz', embedding: [0, 1, 1] },
+  ];
+
+  it('is unavailable without faiss', () => {
+    const index = new VectorIndex(directory, null);
+    index.add('g1', entries);
+
+    expect(index.available).toBe(false);
+    expect(index.size('g1')).toBe(-1);
+    expect(index.search('g1', [1, 0, 0], 2)).toBeNull();
+  });
+
+  describe('with faiss', () => {
+    let index: VectorIndex;
+
+    beforeEach(() => {
+      index = new VectorIndex(directory, fakeFaiss);
+      index.add('g1', entries);
+    });
+
+    it('finds the nearest vectors by cosine similarity', () => {
+      const results = index.search('g1', [2, 0, 0], 2)!;
+
+      expect(results.map(result => result.id)).toEqual(['x', 'xy']);
+      expect(results[0].score).toBeCloseTo(1);
+      expect(results[1].score).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('has no usable index for another dimension or guidance', () => {
+      expect(index.search('g1', [1, 0], 2)).toBeNull();
+      expect(index.search('g2', [1, 0, 0], 2)).toBeNull();
+    });
+
+    it('skips removed vectors and compacts once tombstones pass a fifth of the index', () => {
+      index.remove('g1', ['x']);
+      expect(index.size('g1')).toBe(4);
+      expect(index.needsCompaction('g1')).toBe(false);
+      expect(index.search('g1', [1, 0, 0], 2)!.map(result => result.id)).toEqual(['xy', 'y']);
+
+      index.remove('g1', ['xy']);
+      expect(index.needsCompaction('g1')).toBe(true);
+
+      index.rebuild('g1', entries.filter(entry => entry.id !== 'x' && entry.id !== 'xy'));
+      expect(index.size('g1')).toBe(3);
+      expect(index.needsCompaction('g1')).toBe(false);
+    });
+
+    it('replaces a vector that is added again', () => {
+      index.add('g1', [{ id: 'x', embedding: [0, 0, 1] }]);
+
+      expect(index.size('g1')).toBe(5);
+      expect(index.search('g1', [1, 0, 0], 1)!.map(result => result.id)).toEqual(['xy']);
+      expect(index.search('g1', [0, 0, 1], 2)!.map(result => result.id).sort()).toEqual(['x', 'z']);
+    });
+
+    it('persists the index and its removed labels', () => {
+      index.remove('g1', ['z']);
+      index.save('g1');
+
+      const reopened = new VectorIndex(directory, fakeFaiss);
+      expect(reopened.size('g1')).toBe(4);
+      expect(reopened.search('g1', [0, 0, 1], 1)!.map(result => result.id)).toEqual(['yz']);
+
+      reopened.drop('g1');
+      expect(new VectorIndex(directory, fakeFaiss).size('g1')).toBe(-1);
+    });
+  });
+
+  const native = loadNativeFaiss();
+  (native ? it : it.skip)('searches with the native binding', () => {
+    const index = new VectorIndex(directory, native);
+    index.add('g1', entries);
+
+    expect(index.search('g1', [1, 0, 0], 1)!.map(result => result.id)).toEqual(['x']);
+  });
+});
+
+describe('HybridSearch with a vector index', () => {
+  let directory: string;
+  let codebase: string;
+  let vectorIndex: VectorIndex;
+  let search: HybridSearch;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    directory = mkdtempSync(path.join(tmpdir(), 'vector-index-'));
+    codebase = path.join(directory, 'codebase');
+    mkdirSync(codebase);
+    for (const name of ['invoice', 'chart', 'report', 'ledger', 'refund']) {
+      writeFileSync(path.join(codebase, `${name}.ts`), `export function ${name}Total(values: number[]) {\n  return values.length;\n}\n`);
+    }
+
+    vectorIndex = new VectorIndex(path.join(directory, 'vector-index'), fakeFaiss);
+    search = new HybridSearch(
+      path.join(directory, 'search.db'), new HierarchyManager(), new LocalEmbeddingProvider(64), 'float32', vectorIndex
+    );
+    await search.indexGuidance('g1', codebase);
+  });
+
+  afterEach(() => {
+    search.close();
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  const vectorCount = () => {
+    const db = search['db'];
+    return (db.prepare('SELECT COUNT(*) AS count FROM vectors WHERE guidance_id = ?').get('g1') as { count: number }).count;
+  };
+
+  it('searches the index instead of scanning every vector', async () => {
+    const indexSearch = jest.spyOn(vectorIndex, 'search');
+
+    const results = await search.search({ query: 'ledgerTotal', guidanceId: 'g1', threshold: 0 });
+
+    expect(indexSearch).toHaveBeenCalled();
+    expect(results[0].metadata.path).toMatch(/ledger\.ts$/);
+    expect(existsSync(path.join(directory, 'vector-index', 'g1.faiss'))).toBe(true);
+  });
+
+  it('keeps the index in sync as files are removed, compacting it when needed', async () => {
+    const indexed = vectorCount();
+    expect(vectorIndex.size('g1')).toBe(indexed);
+
+    unlinkSync(path.join(codebase, 'refund.ts'));
+    await search.updatePaths('g1', codebase, [path.join(codebase, 'refund.ts')]);
+    expect(vectorIndex.size('g1')).toBe(vectorCount());
+    expect(vectorCount()).toBeLessThan(indexed);
+
+    for (const name of ['chart', 'report', 'ledger']) {
+      unlinkSync(path.join(codebase, `${name}.ts`));
+    }
+    await search.updatePaths('g1', codebase, ['chart', 'report', 'ledger'].map(name => path.join(codebase, `${name}.ts`)));
+    expect(vectorIndex.size('g1')).toBe(vectorCount());
+    expect(vectorIndex.needsCompaction('g1')).toBe(false);
+
+    const results = await search.search({ query: 'ledgerTotal', guidanceId: 'g1', threshold: 0 });
+    expect(results.some(result => result.metadata.path?.endsWith('ledger.ts'))).toBe(false);
+  });
+
+  it('rebuilds a lost index from the stored vectors', async () => {
+    vectorIndex.drop('g1');
+
+    expect(await search.rebuildVectorIndex()).toEqual([{ guidanceId: 'g1', vectors: vectorCount() }]);
+    expect(vectorIndex.size('g1')).toBe(vectorCount());
+  });
+
+  it('refuses to rebuild without faiss', async () => {
+    const exhaustive = new HybridSearch(
+      path.join(directory, 'search.db'), new HierarchyManager(), new LocalEmbeddingProvider(64), 'float32',
+      new VectorIndex(path.join(directory, 'vector-index'), null)
+    );
+
+    await expect(exhaustive.rebuildVectorIndex('g1')).rejects.toThrow('faiss-node could not be loaded');
+    expect((await exhaustive.search({ query: 'ledgerTotal', guidanceId: 'g1', threshold: 0 }))[0].metadata.path).toMatch(/ledger\.ts$/);
+    exhaustive.close();
+  });
+});
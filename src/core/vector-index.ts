@@ -0,0 +1,200 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+import type { Index } from 'faiss-node';
+
+// HNSW graph with 32 links per node over inner products of unit vectors (= cosine)
+const INDEX_DESCRIPTOR = 'HNSW32,Flat';
+const METRIC_INNER_PRODUCT = 0;
+
+// HNSW cannot delete: removed vectors are tombstoned until they make up this share of the index
+const MAX_TOMBSTONE_RATIO = 0.2;
+
+interface GuidanceIndex {
+  index: Index;
+  dimension: number;
+  // Vector id per faiss label; null once removed
+  labels: Array<string | null>;
+  positions: Map<string, number>;
+  tombstones: number;
+  dirty: boolean;
+}
+
+export type FaissModule = typeof import('faiss-node');
+
+// Per-guidance approximate nearest-neighbour indexes, persisted as <guidance>.faiss plus a label map
+export class VectorIndex {
+  private directory: string;
+  private faiss: FaissModule | null;
+  private indexes: Map<string, GuidanceIndex | null> = new Map();
+
+  // `faiss` defaults to the native binding, or null when it cannot be loaded
+  constructor(directory: string, faiss: FaissModule | null = loadFaiss()) {
+    this.directory = directory;
+    this.faiss = faiss;
+  }
+
+  // False when the native faiss binding is unavailable; callers then search exhaustively
+  get available(): boolean {
+    return this.faiss !== null;
+  }
+
+  // Number of live vectors, or -1 when there is no usable index for the guidance
+  size(guidanceId: string): number {
+    const entry = this.load(guidanceId);
+    return entry ? entry.labels.length - entry.tombstones : -1;
+  }
+
+  add(guidanceId: string, entries: Array<{ id: string; embedding: number[] }>): void {
+    if (!this.faiss || entries.length === 0) return;
+
+    let entry = this.load(guidanceId);
+    if (!entry || entry.dimension !== entries[0].embedding.length) {
+      entry = this.create(guidanceId, entries[0].embedding.length);
+    }
+
+    // Re-adding an id replaces the old vector
+    this.remove(guidanceId, entries.map(item => item.id));
+
+    entry.index.add(entries.flatMap(item => normalize(item.embedding)));
+    for (const item of entries) {
+      entry.positions.set(item.id, entry.labels.length);
+      entry.labels.push(item.id);
+    }
+    entry.dirty = true;
+  }
+
+  remove(guidanceId: string, ids: string[]): void {
+    const entry = this.load(guidanceId);
+    if (!entry) return;
+
+    for (const id of ids) {
+      const position = entry.positions.get(id);
+      if (position === undefined) continue;
+
+      entry.labels[position] = null;
+      entry.positions.delete(id);
+      entry.tombstones++;
+      entry.dirty = true;
+    }
+  }
+
+  // Nearest vectors by cosine similarity, or null when the guidance has no usable index
+  search(guidanceId: string, embedding: number[], k: number): Array<{ id: string; score: number }> | null {
+    const entry = this.load(guidanceId);
+    if (!entry || entry.dimension !== embedding.length) return null;
+
+    const live = entry.labels.length - entry.tombstones;
+    if (live === 0) return [];
+
+    // Over-fetch so tombstoned labels do not crowd out live results
+    const fetch = Math.min(entry.labels.length, k + entry.tombstones);
+    const { labels, distances } = entry.index.search(normalize(embedding), fetch);
+    const results: Array<{ id: string; score: number }> = [];
+
+    for (let i = 0; i < labels.length && results.length < k; i++) {
+      const id = labels[i] >= 0 ? entry.labels[labels[i]] : null;
+      if (id) results.push({ id, score: distances[i] });
+    }
+
+    return results;
+  }
+
+  needsCompaction(guidanceId: string): boolean {
+    const entry = this.load(guidanceId);
+    return !!entry && entry.tombstones > entry.labels.length * MAX_TOMBSTONE_RATIO;
+  }
+
+  // Replace the guidance's index with exactly the given vectors
+  rebuild(guidanceId: string, entries: Array<{ id: string; embedding: number[] }>): void {
+    if (!this.faiss) return;
+
+    this.drop(guidanceId);
+    if (entries.length === 0) return;
+
+    this.create(guidanceId, entries[0].embedding.length);
+    this.add(guidanceId, entries);
+    this.save(guidanceId);
+  }
+
+  save(guidanceId: string): void {
+    const entry = this.indexes.get(guidanceId);
+    if (!entry || !entry.dirty) return;
+
+    mkdirSync(this.directory, { recursive: true });
+    entry.index.write(this.indexPath(guidanceId));
+    writeFileSync(this.labelsPath(guidanceId), JSON.stringify({ dimension: entry.dimension, labels: entry.labels }));
+    entry.dirty = false;
+  }
+
+  drop(guidanceId: string): void {
+    this.indexes.set(guidanceId, null);
+    rmSync(this.indexPath(guidanceId), { force: true });
+    rmSync(this.labelsPath(guidanceId), { force: true });
+  }
+
+  private create(guidanceId: string, dimension: number): GuidanceIndex {
+    const entry: GuidanceIndex = {
+      index: this.faiss!.Index.fromFactory(dimension, INDEX_DESCRIPTOR, METRIC_INNER_PRODUCT),
+      dimension,
+      labels: [],
+      positions: new Map(),
+      tombstones: 0,
+      dirty: true,
+    };
+    this.indexes.set(guidanceId, entry);
+    return entry;
+  }
+
+  private load(guidanceId: string): GuidanceIndex | null {
+    if (!this.faiss) return null;
+    if (this.indexes.has(guidanceId)) return this.indexes.get(guidanceId)!;
+
+    let entry: GuidanceIndex | null = null;
+    try {
+      if (existsSync(this.indexPath(guidanceId)) && existsSync(this.labelsPath(guidanceId))) {
+        const { dimension, labels } = JSON.parse(readFileSync(this.labelsPath(guidanceId), 'utf-8'));
+        const index = this.faiss.Index.read(this.indexPath(guidanceId));
+
+        if (index.ntotal() === labels.length) {
+          const positions = new Map<string, number>();
+          labels.forEach((id: string | null, position: number) => id && positions.set(id, position));
+          entry = { index, dimension, labels, positions, tombstones: labels.length - positions.size, dirty: false };
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to load vector index for guidance: ${guidanceId}`, error);
+    }
+
+    this.indexes.set(guidanceId, entry);
+    return entry;
+  }
+
+  private indexPath(guidanceId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(guidanceId)}.faiss`);
+  }
+
+  private labelsPath(guidanceId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(guidanceId)}.labels.json`);
+  }
+}
+
+// Loaded once per process, so the fallback is reported once rather than for every index
+let faissModule: FaissModule | null | undefined;
+
+function loadFaiss(): FaissModule | null {
+  if (faissModule === undefined) {
+    try {
+      faissModule = createRequire(import.meta.url)('faiss-node') as FaissModule;
+    } catch (error) {
+      console.warn('faiss-node is unavailable, falling back to exhaustive vector search');
+      faissModule = null;
+    }
+  }
+  return faissModule;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
@@ -1,21 +1,50 @@
 #!/usr/bin/env node
 
+import { promises as fs } from 'fs';
+import path from 'path';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { GuidanceManager } from './core/guidance-manager.js';
+import { GuidanceManager, getCriteriaProgress, isFinished } from './core/guidance-manager.js';
 import { HierarchicalRAG } from './core/hierarchical-rag.js';
+import { HierarchyStore } from './core/hierarchy-store.js';
+import { HierarchyManager } from './core/hierarchy-manager.js';
 import { HybridSearch } from './core/hybrid-search.js';
-import { CreateGuidanceParams, UpdateGuidanceParams, SearchParams } from './types/index.js';
+import { createEmbeddingProvider } from './core/embedding-provider.js';
+import { embeddingEncodingFromEnv } from './core/embedding-codec.js';
+import { createSummarizer } from './core/summarizer.js';
+import { GuidanceWatcher } from './core/guidance-watcher.js';
+import { ContextAssembler } from './core/context-assembler.js';
+import { HierarchyBrowser, HierarchySearchParams, NodeLocator } from './core/hierarchy-browser.js';
+import {
+  CreateGuidanceParams,
+  UpdateGuidanceParams,
+  GuidanceView,
+  CompletionCriterion,
+  CriterionStatus,
+  Subtask,
+  AddSubtaskParams,
+  UpdateSubtaskParams,
+  CriteriaProgress,
+  ListGuidancesParams,
+  SearchParams,
+  SearchResult,
+  TaskContextParams,
+  ScanOptions,
+  SkippedPath,
+} from './types/index.js';
 
 class TaskGuideMCPServer {
   private server: Server;
   private guidanceManager: GuidanceManager;
-  private hierarchicalRAG: HierarchicalRAG;
+  private hierarchies: HierarchyManager;
   private hybridSearch: HybridSearch;
+  private guidanceWatcher: GuidanceWatcher;
+  private contextAssembler: ContextAssembler;
+  private hierarchyBrowser: HierarchyBrowser;
 
   constructor() {
     this.server = new Server(
@@ -31,8 +60,16 @@ class TaskGuideMCPServer {
     );
 
     this.guidanceManager = new GuidanceManager();
-    this.hierarchicalRAG = new HierarchicalRAG();
-    this.hybridSearch = new HybridSearch('./data/search.db', this.hierarchicalRAG);
+    this.hierarchies = new HierarchyManager(new HierarchyStore('./data/search.db'), createSummarizer());
+    this.hybridSearch = new HybridSearch(
+      './data/search.db',
+      this.hierarchies,
+      createEmbeddingProvider(),
+      embeddingEncodingFromEnv()
+    );
+    this.guidanceWatcher = new GuidanceWatcher(this.hybridSearch, './data/watches.json');
+    this.contextAssembler = new ContextAssembler(this.guidanceManager, this.hybridSearch, this.hierarchies);
+    this.hierarchyBrowser = new HierarchyBrowser(this.hierarchies);
 
     this.setupHandlers();
   }
@@ -68,8 +105,21 @@ class TaskGuideMCPServer {
                 },
                 completionCriteria: {
                   type: 'array',
-                  items: { type: 'string' },
-                  description: 'Completion criteria',
+                  items: {
+                    oneOf: [
+                      { type: 'string' },
+                      {
+                        type: 'object',
+                        properties: {
+                          id: { type: 'string' },
+                          description: { type: 'string' },
+                          status: { type: 'string', enum: ['pending', 'in_progress', 'met', 'waived'] },
+                        },
+                        required: ['description'],
+                      },
+                    ],
+                  },
+                  description: 'Completion criteria, as plain strings or objects with a status (pending by default)',
                 },
                 tags: {
                   type: 'array',
@@ -81,8 +131,16 @@ class TaskGuideMCPServer {
                   enum: ['low', 'medium', 'high'],
                   description: 'Priority (optional)',
                 },
+                parentId: {
+                  type: 'string',
+                  description: 'Guidance or template to inherit technical constraints, work rules and completion criteria from (optional)',
+                },
+                template: {
+                  type: 'boolean',
+                  description: 'Create a reusable template for other guidances to inherit from (optional)',
+                },
               },
-              required: ['title', 'objective', 'technicalConstraints', 'workRules', 'completionCriteria'],
+              required: ['title', 'objective'],
             },
           },
           {
@@ -115,8 +173,21 @@ class TaskGuideMCPServer {
                 },
                 completionCriteria: {
                   type: 'array',
-                  items: { type: 'string' },
-                  description: 'Completion criteria (optional)',
+                  items: {
+                    oneOf: [
+                      { type: 'string' },
+                      {
+                        type: 'object',
+                        properties: {
+                          id: { type: 'string' },
+                          description: { type: 'string' },
+                          status: { type: 'string', enum: ['pending', 'in_progress', 'met', 'waived'] },
+                        },
+                        required: ['description'],
+                      },
+                    ],
+                  },
+                  description: 'Completion criteria (optional); criteria that already exist keep their status unless one is given',
                 },
                 tags: {
                   type: 'array',
@@ -128,16 +199,65 @@ class TaskGuideMCPServer {
                   enum: ['low', 'medium', 'high'],
                   description: 'Priority (optional)',
                 },
+                parentId: {
+                  type: 'string',
+                  description: 'New parent guidance or template; an empty string removes the parent (optional)',
+                },
+                template: {
+                  type: 'boolean',
+                  description: 'Mark or unmark the guidance as a template (optional)',
+                },
               },
               required: ['id'],
             },
           },
           {
         name: 'list_guidances',
-        description: 'Lists all task guidances',
+        description: 'Lists task guidances, filtered, sorted and paginated; pass nextCursor back as cursor for the next page',
             inputSchema: {
               type: 'object',
-              properties: {},
+              properties: {
+                tags: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Only guidances with all of these tags (optional)',
+                },
+                priority: {
+                  type: 'string',
+                  enum: ['low', 'medium', 'high'],
+                  description: 'Only guidances with this priority (optional)',
+                },
+                text: {
+                  type: 'string',
+                  description: 'Words that must all appear in the title or objective, case-insensitive (optional)',
+                },
+                updatedSince: {
+                  type: 'string',
+                  description: 'Only guidances updated at or after this ISO timestamp (optional)',
+                },
+                template: {
+                  type: 'boolean',
+                  description: 'true: only templates; false: only guidances that are not templates (optional)',
+                },
+                sortBy: {
+                  type: 'string',
+                  enum: ['updatedAt', 'createdAt', 'title', 'priority'],
+                  description: 'Sort field (optional, default: updatedAt)',
+                },
+                order: {
+                  type: 'string',
+                  enum: ['asc', 'desc'],
+                  description: 'Sort order (optional, default: asc for title, desc otherwise)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Page size (optional, default: 20, max: 100)',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor of the previous page (optional)',
+                },
+              },
             },
           },
           {
@@ -150,11 +270,253 @@ class TaskGuideMCPServer {
                   type: 'string',
                   description: '가이드 ID',
                 },
+                view: {
+                  type: 'string',
+                  enum: ['resolved', 'local'],
+                  description: 'resolved: with constraints, rules and criteria inherited from parents merged in (default); local: only what the guidance itself defines',
+                },
+              },
+              required: ['id'],
+            },
+          },
+          {
+        name: 'mark_criterion',
+        description: 'Records the status of a completion criterion of a guidance, with evidence such as changed files, passing tests or notes',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guidanceId: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+                criterionId: {
+                  type: 'string',
+                  description: 'Criterion ID as shown by get_guidance',
+                },
+                status: {
+                  type: 'string',
+                  enum: ['pending', 'in_progress', 'met', 'waived'],
+                  description: 'New status',
+                },
+                files: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Files that show the criterion is met (optional, added to earlier evidence)',
+                },
+                tests: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Tests that show the criterion is met (optional, added to earlier evidence)',
+                },
+                notes: {
+                  type: 'string',
+                  description: 'Notes, e.g. why a criterion is waived (optional)',
+                },
+              },
+              required: ['guidanceId', 'criterionId', 'status'],
+            },
+          },
+          {
+        name: 'add_subtask',
+        description: 'Adds a subtask to the ordered subtask list of a guidance',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guidanceId: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+                title: {
+                  type: 'string',
+                  description: 'Subtask title',
+                },
+                description: {
+                  type: 'string',
+                  description: 'What the subtask involves (optional)',
+                },
+                dependsOn: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'IDs of subtasks that must be done or skipped first (optional)',
+                },
+                assignee: {
+                  type: 'string',
+                  description: 'Agent or person working on the subtask (optional)',
+                },
+                nodeIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Hierarchy nodes the subtask is about, e.g. "backend/src/app.ts#App.render" (optional)',
+                },
+                position: {
+                  type: 'number',
+                  description: '1-based position in the subtask list (optional, default: last)',
+                },
+              },
+              required: ['guidanceId', 'title'],
+            },
+          },
+          {
+        name: 'update_subtask',
+        description: 'Updates the status, details, dependencies, assignee, linked nodes or position of a subtask',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guidanceId: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+                subtaskId: {
+                  type: 'string',
+                  description: 'Subtask ID, e.g. "t3"',
+                },
+                title: {
+                  type: 'string',
+                  description: 'Subtask title (optional)',
+                },
+                status: {
+                  type: 'string',
+                  enum: ['pending', 'in_progress', 'done', 'skipped'],
+                  description: 'Status (optional)',
+                },
+                description: {
+                  type: 'string',
+                  description: 'What the subtask involves (optional)',
+                },
+                dependsOn: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'IDs of subtasks that must be done or skipped first (optional)',
+                },
+                assignee: {
+                  type: 'string',
+                  description: 'Agent or person working on the subtask (optional; an empty string clears it)',
+                },
+                nodeIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Hierarchy nodes the subtask is about, e.g. "backend/src/app.ts#App.render" (optional)',
+                },
+                position: {
+                  type: 'number',
+                  description: '1-based position in the subtask list (optional, default: unchanged)',
+                },
+              },
+              required: ['guidanceId', 'subtaskId'],
+            },
+          },
+          {
+        name: 'next_subtask',
+        description: 'Returns the next subtask whose dependencies are done, with a context bundle scoped to it: its linked nodes first, then the code and documents most relevant to it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guidanceId: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+                assignee: {
+                  type: 'string',
+                  description: 'Skip subtasks assigned to someone else (optional)',
+                },
+                tokenBudget: {
+                  type: 'number',
+                  description: 'Approximate size of the context bundle in tokens (optional, default: 4000)',
+                },
+              },
+              required: ['guidanceId'],
+            },
+          },
+          {
+        name: 'list_guidance_versions',
+        description: 'Lists the stored versions of a guidance; every update and rollback creates a new version',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+              },
+              required: ['id'],
+            },
+          },
+          {
+        name: 'diff_guidance',
+        description: 'Shows field-level changes of a guidance between two versions: title, objective, priority, and added or removed constraints, rules, criteria and tags',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+                fromVersion: {
+                  type: 'string',
+                  description: 'Version to compare from, e.g. "1.0.0"',
+                },
+                toVersion: {
+                  type: 'string',
+                  description: 'Version to compare to (default: current version)',
+                },
+              },
+              required: ['id', 'fromVersion'],
+            },
+          },
+          {
+        name: 'rollback_guidance',
+        description: 'Restores the content of an earlier version of a guidance as a new version',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+                version: {
+                  type: 'string',
+                  description: 'Version to restore',
+                },
+              },
+              required: ['id', 'version'],
+            },
+          },
+          {
+        name: 'export_guidance',
+        description: 'Exports a guidance as Markdown with YAML front matter (metadata) and sections for the objective, constraints, rules, criteria and subtasks, for review in pull requests',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+                filePath: {
+                  type: 'string',
+                  description: 'File to write the Markdown to (optional; without it the Markdown is returned)',
+                },
               },
               required: ['id'],
             },
           },
           {
+        name: 'import_guidance',
+        description: 'Imports a guidance from Markdown written by export_guidance. A guidance whose ID exists is updated as a new version; otherwise one is created. Validation errors give the offending line',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Markdown file to import (either this or markdown)',
+                },
+                markdown: {
+                  type: 'string',
+                  description: 'Markdown to import (either this or filePath)',
+                },
+              },
+            },
+          },
+          {
         name: 'delete_guidance',
         description: 'Deletes a task guidance',
             inputSchema: {
@@ -170,7 +532,7 @@ class TaskGuideMCPServer {
           },
           {
         name: 'index_guidance',
-        description: 'Indexes codebase and documents for a guidance',
+        description: 'Indexes codebase and documents for a guidance. Codebase paths are registered as roots of the guidance; with no paths or documents, all registered roots are re-indexed. Scan filters are remembered per root until new ones are given',
             inputSchema: {
               type: 'object',
               properties: {
@@ -182,68 +544,298 @@ class TaskGuideMCPServer {
                   type: 'string',
                   description: 'Codebase path (optional)',
                 },
+                codebasePaths: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Several codebase roots, e.g. a frontend and a backend repository (optional)',
+                },
                 externalDocs: {
                   type: 'array',
                   items: { type: 'string' },
-                  description: 'External document paths (optional)',
+                  description: 'External document paths (optional); documents indexed before and missing from the list are removed',
+                },
+                include: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Glob patterns of files to scan, relative to the codebase root (optional, default: all)',
+                },
+                exclude: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Glob patterns of files and directories to skip, on top of .gitignore and .taskguideignore (optional)',
+                },
+                maxFileSize: {
+                  type: 'number',
+                  description: 'Files larger than this many bytes are skipped (optional, default: 1048576)',
+                },
+                reembed: {
+                  type: 'boolean',
+                  description: 'Drop everything indexed for the guidance and embed all its registered roots and documents again, e.g. after changing the embedding provider (optional, default: false)',
                 },
               },
               required: ['guidanceId'],
             },
           },
           {
-        name: 'search',
-        description: 'Performs hybrid search',
+        name: 'watch_guidance',
+        description: 'Keeps a guidance index up to date as files in its codebase change',
             inputSchema: {
               type: 'object',
               properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search query',
-                },
                 guidanceId: {
                   type: 'string',
-                  description: 'Limit search to specific guide ID (optional)',
+                  description: 'Guide ID',
                 },
-                type: {
+                codebasePath: {
                   type: 'string',
-                  enum: ['code', 'document', 'guidance', 'all'],
-                  description: 'Search type (optional)',
+                  description: 'Codebase path to watch (optional, default: all registered roots)',
                 },
-                limit: {
-                  type: 'number',
-                  description: 'Result limit (optional, default: 10)',
+              },
+              required: ['guidanceId'],
+            },
+          },
+          {
+        name: 'unwatch_guidance',
+        description: 'Stops watching the codebase of a guidance',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guidanceId: {
+                  type: 'string',
+                  description: 'Guide ID',
                 },
-                threshold: {
-                  type: 'number',
-                  description: 'Similarity threshold (optional, default: 0.5)',
+                codebasePath: {
+                  type: 'string',
+                  description: 'Codebase root to stop watching (optional, default: all)',
                 },
               },
-              required: ['query'],
+              required: ['guidanceId'],
             },
           },
           {
-        name: 'build_hierarchy',
-        description: 'Builds hierarchical structure of codebase',
+        name: 'list_codebase_roots',
+        description: 'Lists the codebase roots registered to a guidance',
             inputSchema: {
               type: 'object',
               properties: {
-                rootPath: {
+                guidanceId: {
                   type: 'string',
-                  description: 'Root path',
+                  description: 'Guide ID',
                 },
               },
-              required: ['rootPath'],
+              required: ['guidanceId'],
             },
           },
-        ],
-      };
-    });
-
-    // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
+          {
+        name: 'remove_codebase_root',
+        description: 'Unregisters a codebase root from a guidance and deletes its index entries',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guidanceId: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+                codebasePath: {
+                  type: 'string',
+                  description: 'Codebase root path',
+                },
+              },
+              required: ['guidanceId', 'codebasePath'],
+            },
+          },
+          {
+        name: 'search',
+        description: 'Performs hybrid search',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: 'Search query',
+                },
+                guidanceId: {
+                  type: 'string',
+                  description: 'Limit search to specific guide ID (optional)',
+                },
+                type: {
+                  type: 'string',
+                  enum: ['code', 'document', 'guidance', 'all'],
+                  description: 'Search type (optional)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Result limit (optional, default: 10)',
+                },
+                threshold: {
+                  type: 'number',
+                  description: 'Minimum fused score, where 1 means ranked first by every channel (optional, default: 0.1)',
+                },
+                fusion: {
+                  type: 'string',
+                  enum: ['rrf', 'weighted'],
+                  description: 'Fusion strategy: reciprocal rank fusion or weighted sum of normalized scores (optional, default: rrf)',
+                },
+                weights: {
+                  type: 'object',
+                  properties: {
+                    vector: { type: 'number' },
+                    lexical: { type: 'number' },
+                    structural: { type: 'number' },
+                    graph: { type: 'number' },
+                  },
+                  description: 'Per-channel fusion weights (optional, default: vector 1, lexical 1, structural 0.7, graph 0.5)',
+                },
+              },
+              required: ['query'],
+            },
+          },
+          {
+        name: 'get_task_context',
+        description: 'Assembles one context bundle for a task: the guidance followed by the most relevant directory summaries, file outlines, code and document chunks, trimmed to a token budget with citations',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guidanceId: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+                query: {
+                  type: 'string',
+                  description: 'What the task is about',
+                },
+                tokenBudget: {
+                  type: 'number',
+                  description: 'Approximate size of the bundle in tokens (optional, default: 4000)',
+                },
+              },
+              required: ['guidanceId', 'query'],
+            },
+          },
+          {
+        name: 'build_hierarchy',
+        description: 'Builds hierarchical structure of codebase',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                rootPath: {
+                  type: 'string',
+                  description: 'Root path',
+                },
+                guidanceId: {
+                  type: 'string',
+                  description: 'Guide ID to register and index the root with (optional; without it the structure is not kept)',
+                },
+                include: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Glob patterns of files to scan, relative to the codebase root (optional, default: all)',
+                },
+                exclude: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Glob patterns of files and directories to skip, on top of .gitignore and .taskguideignore (optional)',
+                },
+                maxFileSize: {
+                  type: 'number',
+                  description: 'Files larger than this many bytes are skipped (optional, default: 1048576)',
+                },
+              },
+              required: ['rootPath'],
+            },
+          },
+          {
+        name: 'browse_hierarchy',
+        description: 'Lists the children of a hierarchy node (or of the codebase roots) with sizes, languages and element counts',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guidanceId: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+                nodeId: {
+                  type: 'string',
+                  description: 'Node ID, e.g. "backend/src" (optional; without it and a path, the codebase roots are listed)',
+                },
+                path: {
+                  type: 'string',
+                  description: 'File or directory path, instead of a node ID (optional)',
+                },
+              },
+              required: ['guidanceId'],
+            },
+          },
+          {
+        name: 'get_node',
+        description: 'Retrieves a hierarchy node with its full content, metadata, ancestry and children',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guidanceId: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+                nodeId: {
+                  type: 'string',
+                  description: 'Node ID, e.g. "backend/src/app.ts#App.render"',
+                },
+                path: {
+                  type: 'string',
+                  description: 'File or directory path, instead of a node ID (optional)',
+                },
+              },
+              required: ['guidanceId'],
+            },
+          },
+          {
+        name: 'search_hierarchy',
+        description: 'Searches hierarchy nodes of one level by name, path and content, to zoom from directories to files to functions',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guidanceId: {
+                  type: 'string',
+                  description: 'Guide ID',
+                },
+                query: {
+                  type: 'string',
+                  description: 'Search query',
+                },
+                startLevel: {
+                  type: 'string',
+                  enum: ['directory', 'file', 'class', 'interface', 'struct', 'type', 'enum', 'function', 'method', 'variable'],
+                  description: 'Node type to search (optional, default: directory)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of results (optional, default: 20)',
+                },
+              },
+              required: ['guidanceId', 'query'],
+            },
+          },
+          {
+        name: 'rebuild_vector_index',
+        description: 'Rebuilds the approximate nearest-neighbour vector index from stored embeddings',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guidanceId: {
+                  type: 'string',
+                  description: 'Guide ID (optional, default: all guides)',
+                },
+              },
+            },
+          },
+        ],
+      };
+    });
+
+    // Handle tool execution
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
       try {
         switch (name) {
           case 'create_guidance':
@@ -253,26 +845,88 @@ class TaskGuideMCPServer {
             return await this.handleUpdateGuidance(args as unknown as UpdateGuidanceParams);
 
           case 'list_guidances':
-            return await this.handleListGuidances();
+            return await this.handleListGuidances(args as unknown as ListGuidancesParams);
 
           case 'get_guidance':
-            return await this.handleGetGuidance(args as { id: string });
+            return await this.handleGetGuidance(args as { id: string; view?: GuidanceView });
+
+          case 'mark_criterion':
+            return await this.handleMarkCriterion(args as unknown as {
+              guidanceId: string;
+              criterionId: string;
+              status: CriterionStatus;
+              files?: string[];
+              tests?: string[];
+              notes?: string;
+            });
+
+          case 'add_subtask':
+            return await this.handleAddSubtask(args as unknown as AddSubtaskParams);
+
+          case 'update_subtask':
+            return await this.handleUpdateSubtask(args as unknown as UpdateSubtaskParams);
+
+          case 'next_subtask':
+            return await this.handleNextSubtask(args as { guidanceId: string; assignee?: string; tokenBudget?: number });
+
+          case 'list_guidance_versions':
+            return await this.handleListGuidanceVersions(args as { id: string });
+
+          case 'diff_guidance':
+            return await this.handleDiffGuidance(args as { id: string; fromVersion: string; toVersion?: string });
+
+          case 'rollback_guidance':
+            return await this.handleRollbackGuidance(args as { id: string; version: string });
+
+          case 'export_guidance':
+            return await this.handleExportGuidance(args as { id: string; filePath?: string });
+
+          case 'import_guidance':
+            return await this.handleImportGuidance(args as { filePath?: string; markdown?: string });
 
           case 'delete_guidance':
             return await this.handleDeleteGuidance(args as { id: string });
 
           case 'index_guidance':
-            return await this.handleIndexGuidance(args as {
+            return await this.handleIndexGuidance(args as unknown as {
               guidanceId: string;
               codebasePath?: string;
+              codebasePaths?: string[];
               externalDocs?: string[];
-            });
+            } & ScanOptions);
+
+          case 'watch_guidance':
+            return await this.handleWatchGuidance(args as { guidanceId: string; codebasePath?: string });
+
+          case 'unwatch_guidance':
+            return await this.handleUnwatchGuidance(args as { guidanceId: string; codebasePath?: string });
+
+          case 'list_codebase_roots':
+            return await this.handleListCodebaseRoots(args as { guidanceId: string });
+
+          case 'remove_codebase_root':
+            return await this.handleRemoveCodebaseRoot(args as { guidanceId: string; codebasePath: string });
 
           case 'search':
             return await this.handleSearch(args as unknown as SearchParams);
 
+          case 'get_task_context':
+            return await this.handleGetTaskContext(args as unknown as TaskContextParams);
+
           case 'build_hierarchy':
-            return await this.handleBuildHierarchy(args as { rootPath: string });
+            return await this.handleBuildHierarchy(args as unknown as { rootPath: string; guidanceId?: string } & ScanOptions);
+
+          case 'browse_hierarchy':
+            return await this.handleBrowseHierarchy(args as unknown as NodeLocator);
+
+          case 'get_node':
+            return await this.handleGetNode(args as unknown as NodeLocator);
+
+          case 'search_hierarchy':
+            return await this.handleSearchHierarchy(args as unknown as HierarchySearchParams);
+
+          case 'rebuild_vector_index':
+            return await this.handleRebuildVectorIndex(args as { guidanceId?: string });
 
           default:
             throw new Error(`Unknown tool: ${name}`);
@@ -291,7 +945,6 @@ class TaskGuideMCPServer {
   }
 
   private async handleCreateGuidance(args: CreateGuidanceParams) {
-    await this.guidanceManager.initialize();
     const guidance = await this.guidanceManager.createGuidance(args);
 
     return {
@@ -317,26 +970,32 @@ class TaskGuideMCPServer {
     };
   }
 
-  private async handleListGuidances() {
-    const guidances = await this.guidanceManager.listGuidances();
+  private async handleListGuidances(args: ListGuidancesParams) {
+    const page = await this.guidanceManager.listGuidances(args || {});
 
     return {
       content: [
         {
           type: 'text',
-          text: `Total ${guidances.length} guidances found:\n\n${guidances
+          text: `${page.total} guidances found, showing ${page.items.length}:\n\n${page.items
             .map(
               (g) =>
-                `- ${g.title} (ID: ${g.id})\n  Objective: ${g.objective}\n  Priority: ${g.metadata.priority}\n  Updated: ${g.metadata.updatedAt}`
+                `- ${g.title} (ID: ${g.id})${g.template ? ' [template]' : ''}${g.parentId ? `\n  Parent: ${g.parentId}` : ''}\n  Objective: ${g.objective}\n  Priority: ${g.priority}\n  Progress: ${this.formatProgress(g.progress)}` +
+                (g.subtasks.total > 0 ? `\n  Subtasks: ${g.subtasks.finished}/${g.subtasks.total} finished` : '') +
+                (g.tags.length > 0 ? `\n  Tags: ${g.tags.join(', ')}` : '') +
+                `\n  Updated: ${g.updatedAt}`
             )
-            .join('\n\n')}`,
+            .join('\n\n')}` +
+            (page.nextCursor ? `\n\nMore results: cursor ${page.nextCursor}` : ''),
         },
       ],
     };
   }
 
-  private async handleGetGuidance(args: { id: string }) {
-    const guidance = await this.guidanceManager.getGuidance(args.id);
+  private async handleGetGuidance(args: { id: string; view?: GuidanceView }) {
+    const guidance = args.view === 'local'
+      ? await this.guidanceManager.getGuidance(args.id)
+      : await this.guidanceManager.resolveGuidance(args.id);
 
     if (!guidance) {
       return {
@@ -353,7 +1012,228 @@ class TaskGuideMCPServer {
       content: [
         {
           type: 'text',
-          text: `Guidance information:\n\n${JSON.stringify(guidance, null, 2)}`,
+          text: `Guidance information (${args.view === 'local' ? 'local' : 'resolved'} view):\n` +
+            `Progress: ${this.formatProgress(guidance.completionCriteria)}\n` +
+            (guidance.subtasks.length > 0
+              ? `Subtasks: ${guidance.subtasks.filter(isFinished).length}/${guidance.subtasks.length} finished\n`
+              : '') +
+            `\n${JSON.stringify(guidance, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleMarkCriterion(args: {
+    guidanceId: string;
+    criterionId: string;
+    status: CriterionStatus;
+    files?: string[];
+    tests?: string[];
+    notes?: string;
+  }) {
+    const hasEvidence = args.files || args.tests || args.notes !== undefined;
+    const criterion = await this.guidanceManager.markCriterion({
+      guidanceId: args.guidanceId,
+      criterionId: args.criterionId,
+      status: args.status,
+      evidence: hasEvidence ? { files: args.files, tests: args.tests, notes: args.notes } : undefined,
+    });
+    const guidance = await this.guidanceManager.resolveGuidance(args.guidanceId);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Criterion ${criterion.id} marked ${criterion.status}: ${criterion.description}\n` +
+            `Progress: ${this.formatProgress(guidance?.completionCriteria || [])}\n\n${JSON.stringify(criterion, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleAddSubtask(args: AddSubtaskParams) {
+    this.checkNodeIds(args.guidanceId, args.nodeIds);
+    const subtask = await this.guidanceManager.addSubtask(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Subtask added: ${this.formatSubtask(subtask)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleUpdateSubtask(args: UpdateSubtaskParams) {
+    this.checkNodeIds(args.guidanceId, args.nodeIds);
+    const subtask = await this.guidanceManager.updateSubtask(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Subtask updated: ${this.formatSubtask(subtask)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleNextSubtask(args: { guidanceId: string; assignee?: string; tokenBudget?: number }) {
+    const subtask = await this.guidanceManager.getNextSubtask(args.guidanceId, args.assignee);
+
+    if (!subtask) {
+      const guidance = await this.guidanceManager.getGuidance(args.guidanceId);
+      const open = (guidance?.subtasks || []).filter(entry => !isFinished(entry));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: open.length === 0
+              ? `No open subtasks in guidance ${args.guidanceId}`
+              : `No unblocked subtask${args.assignee ? ` for ${args.assignee}` : ''}; open subtasks:\n` +
+                open.map(entry => `- ${this.formatSubtask(entry)}`).join('\n'),
+          },
+        ],
+      };
+    }
+
+    const context = await this.contextAssembler.assemble({
+      guidanceId: args.guidanceId,
+      query: [subtask.title, subtask.description].filter(Boolean).join('\n'),
+      tokenBudget: args.tokenBudget,
+      nodeIds: subtask.nodeIds,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Next subtask: ${this.formatSubtask(subtask)}` +
+            (subtask.description ? `\n${subtask.description}` : '') +
+            `\n\n${context.text}\n\n---\n` +
+            `Tokens: ~${context.tokensUsed} of ${context.tokenBudget}, ${context.items.length} items` +
+            (context.omitted > 0 ? `, ${context.omitted} omitted to fit the budget` : ''),
+        },
+      ],
+    };
+  }
+
+  // Linked nodes must exist in the guidance's hierarchy
+  private checkNodeIds(guidanceId: string, nodeIds?: string[]): void {
+    const hierarchy = this.hierarchies.get(guidanceId);
+    const unknown = (nodeIds || []).filter(nodeId => !hierarchy.getNode(nodeId));
+    if (unknown.length > 0) {
+      throw new Error(`Nodes not found in the hierarchy of guidance ${guidanceId}: ${unknown.join(', ')}`);
+    }
+  }
+
+  private formatSubtask(subtask: Subtask): string {
+    const details: string[] = [subtask.status];
+    if (subtask.assignee) details.push(`assignee: ${subtask.assignee}`);
+    if (subtask.dependsOn.length > 0) details.push(`after ${subtask.dependsOn.join(', ')}`);
+    if (subtask.nodeIds.length > 0) details.push(`nodes: ${subtask.nodeIds.join(', ')}`);
+    return `${subtask.id} ${subtask.title} (${details.join('; ')})`;
+  }
+
+  // e.g. "2/5 met, 1 waived, 1 in progress, 1 pending"
+  private formatProgress(criteria: CompletionCriterion[] | CriteriaProgress): string {
+    const progress = Array.isArray(criteria) ? getCriteriaProgress(criteria) : criteria;
+    if (progress.total === 0) return 'no criteria';
+
+    const parts = [`${progress.met}/${progress.total} met`];
+    if (progress.waived > 0) parts.push(`${progress.waived} waived`);
+    if (progress.inProgress > 0) parts.push(`${progress.inProgress} in progress`);
+    if (progress.pending > 0) parts.push(`${progress.pending} pending`);
+    return parts.join(', ');
+  }
+
+  private async handleListGuidanceVersions(args: { id: string }) {
+    const versions = await this.guidanceManager.listVersions(args.id);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Versions of ${args.id}:\n${versions
+            .map(v => `- ${v.version} (${v.updatedAt}): ${v.title}${v.restoredFrom ? ` [restored from ${v.restoredFrom}]` : ''}`)
+            .join('\n')}`,
+        },
+      ],
+    };
+  }
+
+  private async handleDiffGuidance(args: { id: string; fromVersion: string; toVersion?: string }) {
+    const diff = await this.guidanceManager.diffGuidance(args.id, args.fromVersion, args.toVersion);
+
+    const lines = diff.changes.flatMap(change => {
+      if (change.added || change.removed) {
+        return [
+          `${change.field}:`,
+          ...(change.removed || []).map(entry => `  - ${entry}`),
+          ...(change.added || []).map(entry => `  + ${entry}`),
+        ];
+      }
+      return [`${change.field}: ${JSON.stringify(change.from)} -> ${JSON.stringify(change.to)}`];
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Changes of ${diff.guidanceId} from ${diff.fromVersion} to ${diff.toVersion}:\n` +
+            (lines.length > 0 ? lines.join('\n') : '(no changes)'),
+        },
+      ],
+    };
+  }
+
+  private async handleRollbackGuidance(args: { id: string; version: string }) {
+    const guidance = await this.guidanceManager.rollbackGuidance(args.id, args.version);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Guidance rolled back to ${args.version} as version ${guidance.metadata.version}:\n\n${JSON.stringify(guidance, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleExportGuidance(args: { id: string; filePath?: string }) {
+    const markdown = await this.guidanceManager.exportGuidance(args.id);
+
+    if (args.filePath) {
+      const filePath = path.resolve(args.filePath);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, markdown);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: args.filePath ? `Guidance ${args.id} exported to ${path.resolve(args.filePath)}` : markdown,
+        },
+      ],
+    };
+  }
+
+  private async handleImportGuidance(args: { filePath?: string; markdown?: string }) {
+    if (!args.filePath && args.markdown === undefined) {
+      throw new Error('Either filePath or markdown is required');
+    }
+
+    const markdown = args.filePath ? await fs.readFile(path.resolve(args.filePath), 'utf-8') : args.markdown!;
+    const { guidance, created, changed } = await this.guidanceManager.importGuidance(markdown);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${created ? 'Guidance created' : changed ? `Guidance updated to version ${guidance.metadata.version}` : `Guidance unchanged at version ${guidance.metadata.version}`} from Markdown:\n\n` +
+            JSON.stringify(guidance, null, 2),
         },
       ],
     };
@@ -361,6 +1241,11 @@ class TaskGuideMCPServer {
 
   private async handleDeleteGuidance(args: { id: string }) {
     const success = await this.guidanceManager.deleteGuidance(args.id);
+    if (success) {
+      // Stop re-indexing the guidance and drop its index once queued updates have finished
+      await this.guidanceWatcher.unwatch(args.id);
+      await this.guidanceWatcher.enqueue(args.id, async () => this.hybridSearch.removeGuidance(args.id));
+    }
 
     return {
       content: [
@@ -377,19 +1262,127 @@ class TaskGuideMCPServer {
   private async handleIndexGuidance(args: {
     guidanceId: string;
     codebasePath?: string;
+    codebasePaths?: string[];
     externalDocs?: string[];
-  }) {
-    await this.hybridSearch.indexGuidance(
+    reembed?: boolean;
+  } & ScanOptions) {
+    let codebasePaths = [...(args.codebasePath ? [args.codebasePath] : []), ...(args.codebasePaths || [])];
+    if (codebasePaths.length === 0 && !args.externalDocs?.length) {
+      codebasePaths = this.hybridSearch.getCodebaseRoots(args.guidanceId).map(root => root.rootPath);
+    }
+
+    const summary = await this.guidanceWatcher.enqueue(args.guidanceId, () => this.hybridSearch.indexGuidance(
+      args.guidanceId,
+      codebasePaths,
+      args.externalDocs,
+      this.scanOptionsOf(args),
+      args.reembed
+    ));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Guidance indexing completed: ${args.guidanceId}\n` +
+            `Added: ${summary.added}, Changed: ${summary.changed}, Removed: ${summary.removed}, Unchanged: ${summary.unchanged}` +
+            this.formatSkipped(summary.skipped || []),
+        },
+      ],
+    };
+  }
+
+  // Scan options given with a tool call, or undefined to keep those a root was last built with
+  private scanOptionsOf(args: ScanOptions): ScanOptions | undefined {
+    if (!args.include && !args.exclude && args.maxFileSize === undefined) return undefined;
+    return { include: args.include, exclude: args.exclude, maxFileSize: args.maxFileSize };
+  }
+
+  private formatScanOptions(options: ScanOptions): string {
+    const parts = [
+      options.include?.length ? `include ${options.include.join(', ')}` : '',
+      options.exclude?.length ? `exclude ${options.exclude.join(', ')}` : '',
+      options.maxFileSize !== undefined ? `max ${options.maxFileSize} bytes` : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? ` (${parts.join('; ')})` : '';
+  }
+
+  private formatSkipped(skipped: SkippedPath[], limit: number = 20): string {
+    if (skipped.length === 0) return '';
+
+    const counts = new Map<string, number>();
+    for (const entry of skipped) {
+      counts.set(entry.reason, (counts.get(entry.reason) || 0) + 1);
+    }
+
+    return `\nSkipped: ${[...counts].map(([reason, count]) => `${count} ${reason}`).join(', ')}\n` +
+      skipped.slice(0, limit).map(entry => `- ${entry.path} (${entry.reason})`).join('\n') +
+      (skipped.length > limit ? `\n... and ${skipped.length - limit} more` : '');
+  }
+
+  private async handleWatchGuidance(args: { guidanceId: string; codebasePath?: string }) {
+    const codebasePaths = args.codebasePath
+      ? [args.codebasePath]
+      : this.hybridSearch.getCodebaseRoots(args.guidanceId).map(root => root.rootPath);
+    if (codebasePaths.length === 0) {
+      throw new Error(`Guidance has no registered codebase roots: ${args.guidanceId}`);
+    }
+
+    for (const codebasePath of codebasePaths) {
+      await this.guidanceWatcher.watch(args.guidanceId, codebasePath);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Watching codebase for guidance ${args.guidanceId}: ${codebasePaths.join(', ')}`,
+        },
+      ],
+    };
+  }
+
+  private async handleUnwatchGuidance(args: { guidanceId: string; codebasePath?: string }) {
+    const stopped = await this.guidanceWatcher.unwatch(args.guidanceId, args.codebasePath);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: stopped
+            ? `Stopped watching guidance: ${args.guidanceId}`
+            : `Guidance is not being watched: ${args.guidanceId}`,
+        },
+      ],
+    };
+  }
+
+  private async handleListCodebaseRoots(args: { guidanceId: string }) {
+    const roots = this.hybridSearch.getCodebaseRoots(args.guidanceId);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: roots.length > 0
+            ? `Codebase roots of ${args.guidanceId}:\n${roots.map(root => `- ${root.name}: ${root.rootPath}${this.formatScanOptions(root.scanOptions)}`).join('\n')}`
+            : `No codebase roots registered: ${args.guidanceId}`,
+        },
+      ],
+    };
+  }
+
+  private async handleRemoveCodebaseRoot(args: { guidanceId: string; codebasePath: string }) {
+    await this.guidanceWatcher.unwatch(args.guidanceId, args.codebasePath);
+    const removed = await this.guidanceWatcher.enqueue(
       args.guidanceId,
-      args.codebasePath,
-      args.externalDocs
+      () => this.hybridSearch.removeCodebaseRoot(args.guidanceId, args.codebasePath)
     );
 
     return {
       content: [
         {
           type: 'text',
-          text: `Guidance indexing completed: ${args.guidanceId}`,
+          text: `Codebase root removed from ${args.guidanceId}: ${args.codebasePath} (${removed} nodes)`,
         },
       ],
     };
@@ -397,6 +1390,8 @@ class TaskGuideMCPServer {
 
   private async handleSearch(args: SearchParams) {
     const results = await this.hybridSearch.search(args);
+    // Vector search across all guidances leaves out those embedded with another model
+    const incompatible = args.guidanceId ? [] : this.hybridSearch.getIncompatibleGuidances();
 
     return {
       content: [
@@ -405,32 +1400,134 @@ class TaskGuideMCPServer {
           text: `Search results (${results.length} found):\n\n${results
             .map(
               (result, index) =>
-                `${index + 1}. [${result.type}] ${result.metadata.source}\n   Score: ${result.score.toFixed(3)}\n   Content: ${result.content.substring(0, 200)}...`
+                `${index + 1}. [${result.type}] ${result.metadata.source}` +
+                (result.metadata.lineStart !== undefined ? `:${result.metadata.lineStart}-${result.metadata.lineEnd}` : '') +
+                (result.metadata.page !== undefined ? ` (page ${result.metadata.page})` : '') +
+                `\n   Score: ${result.score.toFixed(3)}\n` +
+                (result.metadata.scores ? `   Channels: ${this.formatChannelScores(result.metadata.scores)}\n` : '') +
+                (result.metadata.graphPath ? `   Via: ${result.metadata.graphPath.join(' -> ')} (${(result.metadata.relevance || []).join(', ')})\n` : '') +
+                `   Content: ${result.content.substring(0, 200)}...`
             )
-            .join('\n\n')}`,
+            .join('\n\n')}` +
+            (incompatible.length > 0
+              ? `\n\nSkipped in vector search, indexed with another embedding model (re-index with reembed: true):\n` +
+                incompatible.map(({ guidanceId, indexedWith }) => `- ${guidanceId}: ${indexedWith}`).join('\n')
+              : ''),
+        },
+      ],
+    };
+  }
+
+  private async handleGetTaskContext(args: TaskContextParams) {
+    const context = await this.contextAssembler.assemble(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${context.text}\n\n---\n` +
+            `Tokens: ~${context.tokensUsed} of ${context.tokenBudget}, ${context.items.length} items` +
+            (context.omitted > 0 ? `, ${context.omitted} omitted to fit the budget` : ''),
+        },
+      ],
+    };
+  }
+
+  private formatChannelScores(scores: NonNullable<SearchResult['metadata']['scores']>): string {
+    return Object.entries(scores)
+      .map(([channel, score]) => `${channel} #${score!.rank} (${score!.score.toFixed(3)} -> ${score!.contribution.toFixed(4)})`)
+      .join(', ');
+  }
+
+  private async handleRebuildVectorIndex(args: { guidanceId?: string }) {
+    const rebuilt = await this.hybridSearch.rebuildVectorIndex(args.guidanceId);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: rebuilt.length > 0
+            ? `Vector index rebuilt:\n${rebuilt.map(entry => `- ${entry.guidanceId}: ${entry.vectors} vectors`).join('\n')}`
+            : 'No indexed vectors to rebuild',
         },
       ],
     };
   }
 
-  private async handleBuildHierarchy(args: { rootPath: string }) {
-    await this.hierarchicalRAG.buildHierarchy(args.rootPath);
-    const nodes = this.hierarchicalRAG.getAllNodes();
+  private async handleBuildHierarchy(args: { rootPath: string; guidanceId?: string } & ScanOptions) {
+    let skipped: SkippedPath[];
+    let nodeCount: number;
+    if (args.guidanceId) {
+      // A guidance's hierarchy is only rebuilt together with its index, queued behind watch updates
+      const guidanceId = args.guidanceId;
+      const summary = await this.guidanceWatcher.enqueue(guidanceId, () => this.hybridSearch.indexGuidance(
+        guidanceId,
+        [args.rootPath],
+        undefined,
+        this.scanOptionsOf(args)
+      ));
+      skipped = summary.skipped || [];
+      nodeCount = this.hierarchies.get(guidanceId).getAllNodes().length;
+    } else {
+      const hierarchy = new HierarchicalRAG();
+      skipped = await hierarchy.buildHierarchy(args.rootPath, this.scanOptionsOf(args));
+      nodeCount = hierarchy.getAllNodes().length;
+    }
 
     return {
       content: [
         {
           type: 'text',
-          text: `Hierarchical structure built: ${args.rootPath}\nTotal ${nodes.length} nodes created.`,
+          text: `Hierarchical structure built: ${args.rootPath}\nTotal ${nodeCount} nodes created.` +
+            this.formatSkipped(skipped),
+        },
+      ],
+    };
+  }
+
+  private async handleBrowseHierarchy(args: NodeLocator) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: this.hierarchyBrowser.browse(args),
+        },
+      ],
+    };
+  }
+
+  private async handleGetNode(args: NodeLocator) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: this.hierarchyBrowser.describe(args),
+        },
+      ],
+    };
+  }
+
+  private async handleSearchHierarchy(args: HierarchySearchParams) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: await this.hierarchyBrowser.search(args),
         },
       ],
     };
   }
 
   async run(): Promise<void> {
+    // Creates the guidance directory and numbers criteria saved without IDs before any tool reads a guidance
+    await this.guidanceManager.initialize();
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('Task Guide MCP server started.');
+
+    // Resume watches from the previous run
+    await this.guidanceWatcher.resume();
   }
 }
 
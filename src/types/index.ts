@@ -1,28 +1,214 @@
 import { z } from 'zod';
 
 // Guidance-related type definitions
+export const CriterionStatusSchema = z.enum(['pending', 'in_progress', 'met', 'waived']);
+
+export type CriterionStatus = z.infer<typeof CriterionStatusSchema>;
+
+export const CriterionEvidenceSchema = z.object({
+  files: z.array(z.string()).optional(),
+  tests: z.array(z.string()).optional(),
+  notes: z.string().optional(),
+});
+
+export type CriterionEvidence = z.infer<typeof CriterionEvidenceSchema>;
+
+const CompletionCriterionFieldsSchema = z.object({
+  id: z.string().optional(),
+  description: z.string(),
+  status: CriterionStatusSchema.default('pending'),
+  // When the status last changed
+  updatedAt: z.string().optional(),
+  evidence: CriterionEvidenceSchema.optional(),
+});
+
+// Plain strings (the original form) become pending criteria. New criteria get a sequential ID (c1, c2, ...)
+// from GuidanceManager, which then stays with the criterion when its description is edited.
+export const CompletionCriterionSchema = z.preprocess(
+  value => typeof value === 'string' ? { description: value } : value,
+  CompletionCriterionFieldsSchema
+);
+
+// A criterion that may not have been numbered yet
+export type NewCompletionCriterion = z.infer<typeof CompletionCriterionSchema>;
+
+// Stored criteria always have an ID; GuidanceManager numbers those saved before criteria had IDs when it starts
+export const StoredCompletionCriterionSchema = CompletionCriterionFieldsSchema.extend({ id: z.string() });
+
+export type CompletionCriterion = z.infer<typeof StoredCompletionCriterionSchema>;
+
+// Number the criteria without an ID after the highest "c<n>" among them and `takenIds`
+export function assignCriterionIds<T extends { id?: string }>(
+  criteria: T[],
+  takenIds: Iterable<string> = []
+): Array<T & { id: string }> {
+  let next = [...takenIds, ...criteria.map(criterion => criterion.id)]
+    .reduce((max, id) => Math.max(max, Number(/^c(\d+)$/.exec(id || '')?.[1] || 0)), 0) + 1;
+  return criteria.map(criterion => ({ ...criterion, id: criterion.id || `c${next++}` }));
+}
+
+export type CompletionCriterionInput =
+  | string
+  | { id?: string; description: string; status?: CriterionStatus; evidence?: CriterionEvidence };
+
+export const SubtaskStatusSchema = z.enum(['pending', 'in_progress', 'done', 'skipped']);
+
+export type SubtaskStatus = z.infer<typeof SubtaskStatusSchema>;
+
+export const SubtaskSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  status: SubtaskStatusSchema,
+  // IDs of subtasks that must be done or skipped first
+  dependsOn: z.array(z.string()),
+  // Agent or person working on the subtask
+  assignee: z.string().optional(),
+  // Hierarchy nodes the subtask is about, e.g. "backend/src/app.ts#App.render"
+  nodeIds: z.array(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Subtask = z.infer<typeof SubtaskSchema>;
+
 export const GuidanceSummarySchema = z.object({
   id: z.string(),
   title: z.string(),
   objective: z.string(),
   technicalConstraints: z.array(z.string()),
   workRules: z.array(z.string()),
-  completionCriteria: z.array(z.string()),
+  completionCriteria: z.array(StoredCompletionCriterionSchema),
+  // Guidance or template whose constraints, rules and criteria this one inherits
+  parentId: z.string().optional(),
+  // Steps of the objective in the order they are meant to be done
+  subtasks: z.array(SubtaskSchema).default([]),
   metadata: z.object({
     createdAt: z.string(),
     updatedAt: z.string(),
     version: z.string(),
     tags: z.array(z.string()).optional(),
     priority: z.enum(['low', 'medium', 'high']).optional(),
+    // Version whose content a rollback restored
+    restoredFrom: z.string().optional(),
+    // Templates only serve as parents of other guidances
+    template: z.boolean().optional(),
   }),
 });
 
 export type GuidanceSummary = z.infer<typeof GuidanceSummarySchema>;
 
+// 'resolved' merges inherited constraints, rules and criteria into the guidance; 'local' is the guidance as stored
+export type GuidanceView = 'resolved' | 'local';
+
+export interface ResolvedGuidance extends GuidanceSummary {
+  // Parent chain, nearest parent first
+  ancestors: Array<{ id: string; title: string }>;
+}
+
+// Entry of the guidance index (guidance/index.json) that list_guidances queries instead of reading every guidance
+export interface GuidanceIndexEntry {
+  id: string;
+  title: string;
+  objective: string;
+  tags: string[];
+  priority: 'low' | 'medium' | 'high';
+  template?: boolean;
+  parentId?: string;
+  createdAt: string;
+  updatedAt: string;
+  version: string;
+  // Local criteria only; inherited ones are resolved through the parent's entry
+  criteria: Array<{ id: string; status: CriterionStatus }>;
+  subtasks: { total: number; finished: number };
+}
+
+export interface GuidanceListItem extends GuidanceIndexEntry {
+  // Over the resolved criteria, inherited ones included
+  progress: CriteriaProgress;
+}
+
+export type GuidanceSortField = 'updatedAt' | 'createdAt' | 'title' | 'priority';
+
+export interface ListGuidancesParams {
+  // Guidances carrying all of these tags
+  tags?: string[];
+  priority?: 'low' | 'medium' | 'high';
+  // Case-insensitive match of every word against the title and objective
+  text?: string;
+  // ISO timestamp
+  updatedSince?: string;
+  template?: boolean;
+  sortBy?: GuidanceSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string;
+}
+
+export interface GuidanceListPage {
+  items: GuidanceListItem[];
+  // Guidances matching the filters, across all pages
+  total: number;
+  nextCursor?: string;
+}
+
+// Guidance content read from an exported Markdown file; version and timestamps are managed by GuidanceManager
+export interface GuidanceMarkdownContent {
+  // Absent for a new guidance
+  id?: string;
+  title: string;
+  objective: string;
+  technicalConstraints: string[];
+  workRules: string[];
+  // Criteria without an ID are numbered on import
+  completionCriteria: NewCompletionCriterion[];
+  // Subtasks without timestamps get them on import
+  subtasks: Subtask[];
+  parentId?: string;
+  tags: string[];
+  priority: 'low' | 'medium' | 'high';
+  template?: boolean;
+}
+
+export interface CriteriaProgress {
+  total: number;
+  pending: number;
+  inProgress: number;
+  met: number;
+  waived: number;
+}
+
+// A stored snapshot of a guidance, one per version
+export interface GuidanceVersion {
+  version: string;
+  updatedAt: string;
+  title: string;
+  // Set when the version was created by rolling back to an earlier one
+  restoredFrom?: string;
+}
+
+// Change of one guidance field between two versions; list fields report added and removed entries
+export interface GuidanceFieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+  added?: string[];
+  removed?: string[];
+}
+
+export interface GuidanceDiff {
+  guidanceId: string;
+  fromVersion: string;
+  toVersion: string;
+  changes: GuidanceFieldChange[];
+}
+
 // Metadata vector type
 export interface MetadataVector {
   id: string;
   guidanceId: string;
+  nodeId?: string;
   type: 'codebase' | 'external_doc' | 'reference';
   content: string;
   embedding: number[];
@@ -31,29 +217,91 @@ export interface MetadataVector {
     path?: string;
     lineStart?: number;
     lineEnd?: number;
+    // 1-based page of PDF documents
+    page?: number;
     hierarchy?: string[];
     tags?: string[];
   };
   createdAt: string;
 }
 
+// Embedding provider type
+export interface EmbeddingProvider {
+  // Provider identifier recorded with each stored vector (e.g. 'local', 'openai')
+  readonly name: string;
+  readonly model: string;
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Storage format of embeddings; int8 and binary trade accuracy for size
+export type EmbeddingEncoding = 'float32' | 'int8' | 'binary';
+
 // Hierarchical structure type
 export interface HierarchicalNode {
   id: string;
-  type: 'directory' | 'file' | 'function' | 'class' | 'interface';
+  type: 'directory' | 'file' | 'function' | 'method' | 'class' | 'interface' | 'struct' | 'type' | 'enum' | 'variable';
   name: string;
   path: string;
   parentId?: string;
   children: string[];
   content?: string;
+  // Generated for directories and files
+  summary?: string;
   metadata: {
     size?: number;
     language?: string;
     complexity?: number;
     dependencies?: string[];
+    extends?: string[];
+    implements?: string[];
+    lineStart?: number;
+    lineEnd?: number;
+    signature?: string;
+    docComment?: string;
+    exported?: boolean;
+    // Hash of the summarizer and its input, so unchanged nodes keep their summary
+    summaryHash?: string;
   };
 }
 
+// Summary generation type
+export interface SummaryInput {
+  node: HierarchicalNode;
+  // Directories: child directories and files, already summarized. Files: top-level declarations.
+  children: HierarchicalNode[];
+  // README text of a directory
+  readme?: string;
+}
+
+export interface Summarizer {
+  // Recorded in the summary hash, so switching summarizers regenerates summaries
+  readonly name: string;
+  summarize(input: SummaryInput): Promise<string>;
+}
+
+// Code element extracted from a source file
+export interface CodeElement {
+  name: string;
+  type: Exclude<HierarchicalNode['type'], 'directory' | 'file'>;
+  content: string;
+  lineStart: number;
+  lineEnd: number;
+  signature?: string;
+  docComment?: string;
+  exported?: boolean;
+  extends?: string[];
+  implements?: string[];
+  children: CodeElement[];
+}
+
+export interface CodeExtractionResult {
+  elements: CodeElement[];
+  imports: string[];
+}
+
+export type CodeExtractor = (content: string, filePath: string) => CodeExtractionResult;
+
 // Search result type
 export interface SearchResult {
   id: string;
@@ -64,19 +312,101 @@ export interface SearchResult {
     source: string;
     path?: string;
     hierarchy?: string[];
+    lineStart?: number;
+    lineEnd?: number;
+    page?: number;
     relevance?: string[];
+    nodeId?: string;
+    graphPath?: string[];
+    // How each channel that found the result contributed to its fused score
+    scores?: Partial<Record<SearchChannel, ChannelScore>>;
   };
 }
 
+export type SearchChannel = 'vector' | 'lexical' | 'structural' | 'graph';
+
+export type FusionStrategy = 'rrf' | 'weighted';
+
+export interface ChannelScore {
+  // 1-based rank within the channel
+  rank: number;
+  // The channel's own score (cosine, relative BM25, structural or graph score)
+  score: number;
+  // Share of the fused score before normalization
+  contribution: number;
+}
+
+// Codebase scanning filters; remembered per codebase root
+export interface ScanOptions {
+  // Glob patterns relative to the root, e.g. "src/**/*.ts" (default: everything)
+  include?: string[];
+  exclude?: string[];
+  // Larger files are skipped, in bytes
+  maxFileSize?: number;
+}
+
+export type SkipReason = 'ignored' | 'excluded' | 'too-large' | 'binary';
+
+export interface SkippedPath {
+  path: string;
+  reason: SkipReason;
+}
+
+// Indexing result type
+export interface IndexSummary {
+  added: number;
+  changed: number;
+  removed: number;
+  unchanged: number;
+  skipped?: SkippedPath[];
+}
+
+// Task context bundle types
+export interface TaskContextParams {
+  guidanceId: string;
+  query: string;
+  // Approximate size of the bundle in tokens (default: 4000)
+  tokenBudget?: number;
+  // Hierarchy nodes included ahead of the search hits, e.g. the nodes linked to a subtask
+  nodeIds?: string[];
+}
+
+export interface ContextItem {
+  level: 'directory' | 'file' | 'element' | 'chunk' | 'document';
+  title: string;
+  // Path with line range or page the content comes from
+  citation: string;
+  content: string;
+  score: number;
+  tokens: number;
+  nodeId?: string;
+  truncated?: boolean;
+}
+
+export interface TaskContext {
+  guidanceId: string;
+  query: string;
+  tokenBudget: number;
+  tokensUsed: number;
+  // The guidance followed by the packed items, as Markdown
+  text: string;
+  items: ContextItem[];
+  // Relevant items that did not fit the budget
+  omitted: number;
+}
+
 // MCP tool types
 export interface CreateGuidanceParams {
   title: string;
   objective: string;
-  technicalConstraints: string[];
-  workRules: string[];
-  completionCriteria: string[];
+  // Optional when inherited from a parent
+  technicalConstraints?: string[];
+  workRules?: string[];
+  completionCriteria?: CompletionCriterionInput[];
   tags?: string[];
   priority?: 'low' | 'medium' | 'high';
+  parentId?: string;
+  template?: boolean;
 }
 
 export interface UpdateGuidanceParams {
@@ -85,9 +415,45 @@ export interface UpdateGuidanceParams {
   objective?: string;
   technicalConstraints?: string[];
   workRules?: string[];
-  completionCriteria?: string[];
+  // Criteria given as plain strings keep the status of an existing criterion with the same description
+  completionCriteria?: CompletionCriterionInput[];
   tags?: string[];
   priority?: 'low' | 'medium' | 'high';
+  // An empty string detaches the guidance from its parent
+  parentId?: string;
+  template?: boolean;
+}
+
+export interface MarkCriterionParams {
+  guidanceId: string;
+  criterionId: string;
+  status: CriterionStatus;
+  // Files and tests are added to the recorded evidence; notes replace it
+  evidence?: CriterionEvidence;
+}
+
+export interface AddSubtaskParams {
+  guidanceId: string;
+  title: string;
+  description?: string;
+  dependsOn?: string[];
+  assignee?: string;
+  nodeIds?: string[];
+  // 1-based position in the list (default: last)
+  position?: number;
+}
+
+export interface UpdateSubtaskParams {
+  guidanceId: string;
+  subtaskId: string;
+  title?: string;
+  description?: string;
+  status?: SubtaskStatus;
+  dependsOn?: string[];
+  // An empty string clears the assignee
+  assignee?: string;
+  nodeIds?: string[];
+  position?: number;
 }
 
 export interface SearchParams {
@@ -96,4 +462,6 @@ export interface SearchParams {
   type?: 'code' | 'document' | 'guidance' | 'all';
   limit?: number;
   threshold?: number;
+  fusion?: FusionStrategy;
+  weights?: Partial<Record<SearchChannel, number>>;
 }
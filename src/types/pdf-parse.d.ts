@@ -0,0 +1,22 @@
+// The package entry point runs a debug harness when loaded as an ES module, so the library file is imported directly
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  interface PdfPageData {
+    pageIndex: number;
+    getTextContent(options?: { normalizeWhitespace?: boolean; disableCombineTextItems?: boolean }): Promise<{
+      items: Array<{ str: string; transform: number[] }>;
+    }>;
+  }
+
+  interface PdfParseOptions {
+    pagerender?: (pageData: PdfPageData) => Promise<string>;
+    max?: number;
+  }
+
+  interface PdfParseResult {
+    numpages: number;
+    text: string;
+    info: any;
+  }
+
+  export default function pdfParse(dataBuffer: Buffer, options?: PdfParseOptions): Promise<PdfParseResult>;
+}